@@ -0,0 +1,88 @@
+/**
+ * Admin API Key Revocation Route
+ * Revoke an integrator API key; later requests with it are rejected
+ *
+ * SECURITY: Protected by named ADMIN_API_KEYS
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { revokeApiKey } from "@/lib/db";
+import { authenticateAdmin } from "@/lib/admin-auth";
+import { ApiKeyRevokeSchema } from "@/lib/validation";
+
+/**
+ * DELETE - Revoke an API key
+ * Body (optional): { reason }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = authenticateAdmin(request.headers.get("authorization"));
+    if (!auth.valid) {
+      return NextResponse.json({ success: false, error: auth.error }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const keyId = Number(id);
+    if (!Number.isInteger(keyId) || keyId <= 0) {
+      return NextResponse.json(
+        { success: false, error: "Invalid API key id" },
+        { status: 400 }
+      );
+    }
+
+    // The body is optional; an empty one means no reason
+    const text = await request.text();
+    let body: unknown = {};
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: "Invalid JSON body" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const bodyValidation = ApiKeyRevokeSchema.safeParse(body);
+    if (!bodyValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation error: reason must be at most 500 characters" },
+        { status: 400 }
+      );
+    }
+
+    const key = await revokeApiKey(keyId, bodyValidation.data.reason);
+    if (!key) {
+      return NextResponse.json(
+        { success: false, error: "API key not found" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`API key ${key.keyPrefix}… ("${key.name}") revoked by ${auth.actor}`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: key.id,
+        name: key.name,
+        keyPrefix: key.keyPrefix,
+        revokedAt: key.revokedAt?.toISOString() ?? null,
+        revokedReason: key.revokedReason,
+        requestCount: key.requestCount.toString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to revoke API key" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 0;
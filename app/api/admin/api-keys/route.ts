@@ -0,0 +1,136 @@
+/**
+ * Admin API Keys Route
+ * Issue integrator API keys and list them with their usage counters
+ *
+ * SECURITY: Protected by named ADMIN_API_KEYS; raw keys are returned once and never stored
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createApiKey, getApiKeys } from "@/lib/db";
+import { authenticateAdmin } from "@/lib/admin-auth";
+import { generateApiKey, getApiKeyPrefix, hashApiKey, API_KEY_TIERS } from "@/lib/api-keys";
+import { RATE_LIMIT_PRESETS } from "@/lib/rate-limit";
+import { ApiKeyCreateSchema } from "@/lib/validation";
+
+// Type for API key rows from Prisma
+interface ApiKeyDB {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  tier: string;
+  requestCount: bigint;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+  createdBy: string;
+  createdAt: Date;
+}
+
+function serializeApiKey(key: ApiKeyDB) {
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    tier: key.tier,
+    requestCount: key.requestCount.toString(),
+    lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+    revoked: key.revokedAt !== null,
+    revokedAt: key.revokedAt?.toISOString() ?? null,
+    revokedReason: key.revokedReason,
+    createdBy: key.createdBy,
+    createdAt: key.createdAt.toISOString(),
+  };
+}
+
+/**
+ * GET - All API keys with usage counters
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authenticateAdmin(request.headers.get("authorization"));
+    if (!auth.valid) {
+      return NextResponse.json({ success: false, error: auth.error }, { status: 401 });
+    }
+
+    const keys = await getApiKeys();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        keys: keys.map(serializeApiKey),
+      },
+    });
+  } catch (error) {
+    console.error("Error listing API keys:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to list API keys" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Issue a new API key
+ * Body: { name, tier }; the raw key is only in this response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authenticateAdmin(request.headers.get("authorization"));
+    if (!auth.valid) {
+      return NextResponse.json({ success: false, error: auth.error }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const bodyValidation = ApiKeyCreateSchema.safeParse(body);
+    if (!bodyValidation.success) {
+      const errorMessage = bodyValidation.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ");
+      return NextResponse.json(
+        { success: false, error: `Validation error: ${errorMessage}` },
+        { status: 400 }
+      );
+    }
+
+    const { name, tier } = bodyValidation.data;
+    const key = generateApiKey();
+    const created = await createApiKey({
+      name,
+      keyHash: await hashApiKey(key),
+      keyPrefix: getApiKeyPrefix(key),
+      tier,
+      createdBy: auth.actor,
+    });
+
+    console.log(`API key ${created.keyPrefix}… (${tier}) issued to "${name}" by ${auth.actor}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          key,
+          apiKey: serializeApiKey(created),
+          quota: RATE_LIMIT_PRESETS[API_KEY_TIERS[tier].preset],
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create API key" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 0;
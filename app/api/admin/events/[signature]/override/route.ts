@@ -0,0 +1,195 @@
+/**
+ * Admin Event Override API Route
+ * Manually reclassify a fee event and inspect its override history
+ *
+ * SECURITY: Protected by named ADMIN_API_KEYS; every change is written to the audit trail
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  overrideFeeEventType,
+  getEventOverrideAudits,
+  recalculateTokenAggregates,
+} from "@/lib/db";
+import { authenticateAdmin } from "@/lib/admin-auth";
+import { EventOverrideSchema, TransactionSignatureSchema } from "@/lib/validation";
+
+// Type for audit rows from Prisma
+interface EventOverrideAuditDB {
+  id: number;
+  signature: string;
+  tokenMint: string;
+  oldEventType: string;
+  newEventType: string;
+  reason: string;
+  actor: string;
+  createdAt: Date;
+}
+
+function serializeAudit(audit: EventOverrideAuditDB) {
+  return {
+    id: audit.id,
+    signature: audit.signature,
+    tokenMint: audit.tokenMint,
+    oldEventType: audit.oldEventType,
+    newEventType: audit.newEventType,
+    reason: audit.reason,
+    actor: audit.actor,
+    createdAt: audit.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Apply admin authentication (rate limiting runs in middleware)
+ * Returns an error response, or the authenticated actor
+ */
+function authorize(request: NextRequest): { actor: string } | { response: NextResponse } {
+  const auth = authenticateAdmin(request.headers.get("authorization"));
+  if (!auth.valid) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: auth.error },
+        { status: 401 }
+      ),
+    };
+  }
+
+  return { actor: auth.actor };
+}
+
+/**
+ * GET - Override audit trail for a fee event
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ signature: string }> }
+) {
+  try {
+    const authorization = authorize(request);
+    if ("response" in authorization) {
+      return authorization.response;
+    }
+
+    const { signature } = await params;
+    const signatureValidation = TransactionSignatureSchema.safeParse(signature);
+    if (!signatureValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid transaction signature format" },
+        { status: 400 }
+      );
+    }
+
+    const audits = await getEventOverrideAudits(signatureValidation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: audits.map(serializeAudit),
+    });
+  } catch (error) {
+    console.error("Error fetching override audit trail:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch override audit trail" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Override a fee event's type
+ * Body: { eventType, reason }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ signature: string }> }
+) {
+  try {
+    const authorization = authorize(request);
+    if ("response" in authorization) {
+      return authorization.response;
+    }
+
+    const { signature } = await params;
+    const signatureValidation = TransactionSignatureSchema.safeParse(signature);
+    if (!signatureValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid transaction signature format" },
+        { status: 400 }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const bodyValidation = EventOverrideSchema.safeParse(body);
+    if (!bodyValidation.success) {
+      const errorMessage = bodyValidation.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ");
+      return NextResponse.json(
+        { success: false, error: `Validation error: ${errorMessage}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await overrideFeeEventType({
+      signature: signatureValidation.data,
+      eventType: bodyValidation.data.eventType,
+      reason: bodyValidation.data.reason,
+      actor: authorization.actor,
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: "Fee event not found" },
+        { status: 404 }
+      );
+    }
+
+    // Totals, burn percentage and badges all derive from event types
+    const token = await recalculateTokenAggregates(result.event.tokenId);
+
+    console.log(
+      `Admin override by ${authorization.actor}: ${result.audit.signature} ` +
+        `${result.audit.oldEventType} -> ${result.audit.newEventType}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        audit: serializeAudit(result.audit),
+        event: {
+          id: result.event.id,
+          signature: result.event.signature,
+          eventType: result.event.eventType,
+          classifiedType: result.event.classifiedType,
+          overridden: result.event.overridden,
+        },
+        token: {
+          mint: token.mint,
+          totalFeesCollected: token.totalFeesCollected.toString(),
+          totalFeesBurned: token.totalFeesBurned.toString(),
+          totalFeesWithdrawn: token.totalFeesWithdrawn.toString(),
+          totalFeesHeld: token.totalFeesHeld.toString(),
+          burnPercentage: Number(token.burnPercentage),
+          badgeTier: token.badgeTier,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error overriding fee event:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to override fee event" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 0;
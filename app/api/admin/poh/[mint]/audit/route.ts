@@ -0,0 +1,99 @@
+/**
+ * Admin PoH Audit API Route
+ * Run the PoH <-> fee event audit for a token now, optionally appending missing events
+ *
+ * SECURITY: Protected by named ADMIN_API_KEYS
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getTokenByMint } from "@/lib/db";
+import { authenticateAdmin } from "@/lib/admin-auth";
+import { getPoHAuditStatus, runPoHAudit } from "@/lib/proof-of-history";
+import { PoHAuditRequestSchema, SolanaAddressSchema } from "@/lib/validation";
+
+/**
+ * POST - Audit a token's PoH chain
+ * Body (optional): { repair }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  try {
+    const auth = authenticateAdmin(request.headers.get("authorization"));
+    if (!auth.valid) {
+      return NextResponse.json({ success: false, error: auth.error }, { status: 401 });
+    }
+
+    const { mint } = await params;
+
+    // Validate mint address
+    const mintValidation = SolanaAddressSchema.safeParse(mint);
+    if (!mintValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid mint address format" },
+        { status: 400 }
+      );
+    }
+
+    // The body is optional; an empty one means audit only
+    const text = await request.text();
+    let body: unknown = {};
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: "Invalid JSON body" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const bodyValidation = PoHAuditRequestSchema.safeParse(body);
+    if (!bodyValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Validation error: repair must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    const token = await getTokenByMint(mintValidation.data);
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: "Token not found" },
+        { status: 404 }
+      );
+    }
+
+    const { repair } = bodyValidation.data;
+    const { report, appended, unresolvable } = await runPoHAudit(token, { repair });
+    console.log(
+      `[Admin] ${auth.actor} audited PoH for ${token.mint}` +
+        (repair ? ` and appended ${appended} events` : "")
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tokenMint: token.mint,
+        status: getPoHAuditStatus(report),
+        eventCount: report.eventCount,
+        recordCount: report.recordCount,
+        missingCount: report.missing.length,
+        extraCount: report.extra.length,
+        mismatchCount: report.mismatched.length,
+        appended,
+        unresolvable,
+      },
+    });
+  } catch (error) {
+    console.error("Error running PoH audit:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to run PoH audit" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 0;
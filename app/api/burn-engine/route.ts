@@ -0,0 +1,82 @@
+/**
+ * Burn Engine API Route
+ * Auditable log of every verified burn-engine burn: totals, recent feed and per-token breakdown
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma, getEngineBurnTotals, getRecentEngineBurns } from "@/lib/db";
+import { BURN_ENGINE_PROGRAM_ID, ASDF_TOKEN_MINT } from "@/lib/burn-engine";
+import { BurnEngineQuerySchema, safeParseQueryParams } from "@/lib/validation";
+
+export async function GET(request: NextRequest) {
+  try {
+    const parseResult = safeParseQueryParams(
+      BurnEngineQuerySchema,
+      request.nextUrl.searchParams
+    );
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: `Invalid parameters: ${parseResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    const { limit, mint } = parseResult.data;
+
+    const [totals, recent] = await Promise.all([
+      getEngineBurnTotals(),
+      getRecentEngineBurns(limit, mint),
+    ]);
+
+    // Names and symbols for burned mints we also index
+    const tracked = await prisma.token.findMany({
+      where: { mint: { in: totals.byToken.map((t) => t.tokenMint) } },
+      select: { mint: true, name: true, symbol: true },
+    });
+    const trackedByMint = new Map(tracked.map((t) => [t.mint, t]));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        programId: BURN_ENGINE_PROGRAM_ID,
+        totals: {
+          burnCount: totals.burnCount,
+          transactionCount: totals.transactionCount,
+          totalLamports: totals.totalLamports.toString(),
+          firstBurnAt: totals.firstBlockTime?.toISOString() ?? null,
+          lastBurnAt: totals.lastBlockTime?.toISOString() ?? null,
+          lastSlot: totals.lastSlot?.toString() ?? null,
+        },
+        tokens: totals.byToken.map((token) => ({
+          mint: token.tokenMint,
+          name: trackedByMint.get(token.tokenMint)?.name ?? null,
+          symbol: trackedByMint.get(token.tokenMint)?.symbol ?? null,
+          isRoot: token.tokenMint === ASDF_TOKEN_MINT,
+          burnCount: token.burnCount,
+          amount: token.amount.toString(),
+          lamports: token.lamports.toString(),
+          lastBurnAt: token.lastBlockTime?.toISOString() ?? null,
+        })),
+        recent: recent.map((burn) => ({
+          signature: burn.signature,
+          slot: burn.slot.toString(),
+          blockTime: burn.blockTime.toISOString(),
+          tokenMint: burn.tokenMint,
+          amount: burn.amount.toString(),
+          lamports: burn.lamports.toString(),
+          instructionType: burn.instructionType,
+          source: burn.source,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching burn engine log:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch burn engine log" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 30;
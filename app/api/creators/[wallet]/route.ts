@@ -0,0 +1,97 @@
+/**
+ * Single Creator API Route
+ * Returns a creator's aggregates and every token they launched
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCreatorByWallet } from "@/lib/db";
+import { SolanaAddressSchema } from "@/lib/validation";
+
+// Type for tokens from Prisma
+interface CreatorTokenDB {
+  id: number;
+  mint: string;
+  name: string | null;
+  symbol: string | null;
+  imageUri: string | null;
+  totalFeesCollected: bigint;
+  totalFeesBurned: bigint;
+  totalFeesWithdrawn: bigint;
+  totalFeesHeld: bigint;
+  burnPercentage: unknown;
+  badgeTier: string | null;
+  createdAt: Date;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ wallet: string }> }
+) {
+  try {
+    const { wallet } = await params;
+
+    // Validate wallet address
+    const walletValidation = SolanaAddressSchema.safeParse(wallet);
+    if (!walletValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid wallet address format" },
+        { status: 400 }
+      );
+    }
+
+    const creator = await getCreatorByWallet(walletValidation.data);
+
+    if (!creator) {
+      return NextResponse.json(
+        { success: false, error: "Creator not found" },
+        { status: 404 }
+      );
+    }
+
+    // Withdrawals are not stored on Creator, so sum them from the tokens
+    const totalFeesWithdrawn = creator.tokens.reduce(
+      (sum: bigint, token: CreatorTokenDB) => sum + token.totalFeesWithdrawn,
+      BigInt(0)
+    );
+
+    // Serialize for JSON
+    const serializedCreator = {
+      id: creator.id,
+      wallet: creator.wallet,
+      totalTokensCreated: creator.totalTokensCreated,
+      totalFeesEarned: creator.totalFeesEarned.toString(),
+      totalFeesBurned: creator.totalFeesBurned.toString(),
+      totalFeesWithdrawn: totalFeesWithdrawn.toString(),
+      overallBurnPercentage: Number(creator.overallBurnPercentage),
+      badgeTier: creator.badgeTier,
+      updatedAt: creator.updatedAt.toISOString(),
+      tokens: creator.tokens.map((token: CreatorTokenDB) => ({
+        id: token.id,
+        mint: token.mint,
+        name: token.name,
+        symbol: token.symbol,
+        imageUri: token.imageUri,
+        totalFeesCollected: token.totalFeesCollected.toString(),
+        totalFeesBurned: token.totalFeesBurned.toString(),
+        totalFeesWithdrawn: token.totalFeesWithdrawn.toString(),
+        totalFeesHeld: token.totalFeesHeld.toString(),
+        burnPercentage: Number(token.burnPercentage),
+        badgeTier: token.badgeTier,
+        createdAt: token.createdAt.toISOString(),
+      })),
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: serializedCreator,
+    });
+  } catch (error) {
+    console.error("Error fetching creator:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch creator" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 30;
@@ -0,0 +1,68 @@
+/**
+ * ASDF Ecosystem API Route
+ * Burn engine totals and the registry of root and secondary tokens
+ */
+
+import { NextResponse } from "next/server";
+import { prisma, getEcosystemTokens } from "@/lib/db";
+import { getBurnEngineStats, ASDF_TOKEN_MINT, BURN_ENGINE_PROGRAM_ID } from "@/lib/burn-engine";
+
+export async function GET() {
+  try {
+    const [stats, ecosystemTokens] = await Promise.all([
+      getBurnEngineStats(),
+      getEcosystemTokens(),
+    ]);
+
+    // Names and symbols for tokens we also index
+    const tracked = await prisma.token.findMany({
+      where: { mint: { in: ecosystemTokens.map((t) => t.mint) } },
+      select: { mint: true, name: true, symbol: true, imageUri: true },
+    });
+    const trackedByMint = new Map(tracked.map((t) => [t.mint, t]));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        programId: BURN_ENGINE_PROGRAM_ID,
+        rootMint: ASDF_TOKEN_MINT,
+        stats: {
+          totalBurned: stats.totalBurned.toString(),
+          totalBuybacks: stats.totalBuybacks,
+          lastBurnSlot: stats.lastBurnSlot,
+          lastBurnTimestamp: stats.lastBurnTimestamp?.toISOString() ?? null,
+          rootTokenBurned: stats.rootTokenBurned.toString(),
+          secondaryTokensBurned: stats.secondaryTokensBurned.toString(),
+        },
+        tokens: ecosystemTokens.map((token) => {
+          const info = trackedByMint.get(token.mint);
+          return {
+            mint: token.mint,
+            name: info?.name ?? null,
+            symbol: info?.symbol ?? null,
+            imageUri: info?.imageUri ?? null,
+            tracked: Boolean(info),
+            tokenType: token.tokenType,
+            discoveredVia: token.discoveredVia,
+            engineTxCount: token.engineTxCount,
+            rootLamports: token.rootLamports.toString(),
+            secondaryLamports: token.secondaryLamports.toString(),
+            rootTokensBurned: token.rootTokensBurned.toString(),
+            secondaryTokensBurned: token.secondaryTokensBurned.toString(),
+            rootContribution: Number(token.rootContribution),
+            firstSeenAt: token.firstSeenAt.toISOString(),
+            lastSeenAt: token.lastSeenAt.toISOString(),
+          };
+        }),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching ecosystem:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch ecosystem" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 60;
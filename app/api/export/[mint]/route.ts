@@ -0,0 +1,128 @@
+/**
+ * Fee History Export API Route
+ * Full fee event history for a token as JSON or CSV
+ *
+ * SECURITY: Requires an API key (x-api-key); limited by the key's heavy-endpoint preset
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { authenticateApiKey } from "@/lib/api-key-auth";
+import { isPlaceholderSignature } from "@/lib/finality";
+import { toCsv } from "@/lib/utils";
+import {
+  ExportQuerySchema,
+  SolanaAddressSchema,
+  safeParseQueryParams,
+} from "@/lib/validation";
+
+const EXPORT_COLUMNS = [
+  "signature",
+  "blockTime",
+  "eventType",
+  "amountLamports",
+  "source",
+  "confidence",
+  "provisional",
+  "burnType",
+  "burnVerified",
+  "burnedTokenMint",
+  "burnedTokenAmount",
+];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  try {
+    const apiKey = await authenticateApiKey(request);
+    if (!apiKey) {
+      return NextResponse.json(
+        { success: false, error: "A valid API key is required for exports" },
+        { status: 401 }
+      );
+    }
+
+    const { mint } = await params;
+
+    // Validate mint address
+    const mintValidation = SolanaAddressSchema.safeParse(mint);
+    if (!mintValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid mint address format" },
+        { status: 400 }
+      );
+    }
+
+    // Validate query parameters
+    const parseResult = safeParseQueryParams(ExportQuerySchema, request.nextUrl.searchParams);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: `Invalid parameters: ${parseResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    const token = await prisma.token.findUnique({
+      where: { mint: mintValidation.data },
+      select: { id: true },
+    });
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: "Token not found" },
+        { status: 404 }
+      );
+    }
+
+    const events = await prisma.feeEvent.findMany({
+      where: { tokenId: token.id },
+      orderBy: [{ blockTime: "asc" }, { id: "asc" }],
+    });
+
+    const rows = events.map((event) => ({
+      signature: isPlaceholderSignature(event.signature) ? null : event.signature,
+      blockTime: event.blockTime.toISOString(),
+      eventType: event.eventType,
+      amountLamports: event.amountLamports.toString(),
+      source: event.source,
+      confidence: event.confidence,
+      provisional: event.provisional,
+      burnType: event.burnType,
+      burnVerified: event.burnVerified,
+      burnedTokenMint: event.burnedTokenMint,
+      burnedTokenAmount: event.burnedTokenAmount?.toString() ?? null,
+    }));
+
+    if (parseResult.data.format === "csv") {
+      const csv = toCsv(
+        EXPORT_COLUMNS,
+        rows.map((row) => EXPORT_COLUMNS.map((column) => row[column as keyof typeof row]))
+      );
+
+      return new NextResponse(csv, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="fees-${mint.slice(0, 8)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tokenMint: mintValidation.data,
+        eventCount: rows.length,
+        events: rows,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting fee history:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to export fee history" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 0;
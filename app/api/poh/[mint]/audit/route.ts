@@ -0,0 +1,66 @@
+/**
+ * PoH Audit API Route
+ * Latest cross-check of a token's fee events against its PoH chain
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getTokenByMint } from "@/lib/db";
+import { getPoHAudit } from "@/lib/proof-of-history";
+import { SolanaAddressSchema } from "@/lib/validation";
+
+/**
+ * GET /api/poh/[mint]/audit
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  try {
+    const { mint } = await params;
+
+    // Validate mint address
+    const mintValidation = SolanaAddressSchema.safeParse(mint);
+    if (!mintValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid mint address format" },
+        { status: 400 }
+      );
+    }
+
+    const token = await getTokenByMint(mintValidation.data);
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: "Token not found" },
+        { status: 404 }
+      );
+    }
+
+    const audit = await getPoHAudit(token.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tokenMint: token.mint,
+        audit: audit && {
+          status: audit.status,
+          eventCount: audit.eventCount,
+          recordCount: audit.recordCount,
+          missingCount: audit.missingCount,
+          extraCount: audit.extraCount,
+          mismatchCount: audit.mismatchCount,
+          appendedCount: audit.appendedCount,
+          details: audit.details,
+          checkedAt: audit.checkedAt.toISOString(),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching PoH audit:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch PoH audit" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 60;
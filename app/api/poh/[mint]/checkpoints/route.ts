@@ -0,0 +1,78 @@
+/**
+ * PoH Checkpoints API Route
+ * Merkle roots over fixed ranges of a token's PoH chain and the history of its
+ * signed heads, oldest first (verification keys: /api/poh/keys), including heads
+ * of chains it replaced
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPoHCheckpoints,
+  getPoHSignatures,
+  getPoHSupersededHeads,
+  POH_CHECKPOINT_SIZE,
+} from "@/lib/proof-of-history";
+import { SolanaAddressSchema } from "@/lib/validation";
+
+/**
+ * GET /api/poh/[mint]/checkpoints
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  try {
+    const { mint } = await params;
+
+    // Validate mint address
+    const mintValidation = SolanaAddressSchema.safeParse(mint);
+    if (!mintValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid mint address format" },
+        { status: 400 }
+      );
+    }
+
+    const [checkpoints, { heads }, supersededHeads] = await Promise.all([
+      getPoHCheckpoints(mintValidation.data),
+      getPoHSignatures(mintValidation.data),
+      getPoHSupersededHeads(mintValidation.data),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tokenMint: mintValidation.data,
+        checkpointSize: POH_CHECKPOINT_SIZE,
+        checkpoints: checkpoints.map((c) => ({
+          fromSequence: c.fromSequence,
+          toSequence: c.toSequence,
+          root: c.root,
+          lastHash: c.lastHash,
+          createdAt: c.createdAt.toISOString(),
+        })),
+        signedHeads: heads.map((h) => ({
+          ...h,
+          signedAt: h.signedAt.toISOString(),
+        })),
+        supersededHeads: supersededHeads.map((h) => ({
+          tokenMint: h.tokenMint,
+          sequence: h.sequence,
+          hash: h.hash,
+          keyId: h.keyId,
+          signature: h.signature,
+          signedAt: h.signedAt.toISOString(),
+          supersededAt: h.supersededAt.toISOString(),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching PoH checkpoints:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch PoH checkpoints" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 60;
@@ -0,0 +1,85 @@
+/**
+ * PoH Inclusion Proof API Route
+ * Merkle proof that a signature's record is under one of the token's checkpoint roots,
+ * so light clients can check a single event without downloading the chain
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPoHInclusionProof } from "@/lib/proof-of-history";
+import {
+  PoHProofQuerySchema,
+  SolanaAddressSchema,
+  safeParseQueryParams,
+} from "@/lib/validation";
+
+/**
+ * GET /api/poh/[mint]/proof?signature=<sig>
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  try {
+    const { mint } = await params;
+
+    // Validate mint address
+    const mintValidation = SolanaAddressSchema.safeParse(mint);
+    if (!mintValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid mint address format" },
+        { status: 400 }
+      );
+    }
+
+    const parseResult = safeParseQueryParams(PoHProofQuerySchema, request.nextUrl.searchParams);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: `Invalid parameters: ${parseResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await getPoHInclusionProof(mintValidation.data, parseResult.data.signature);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: "No PoH record for this signature" },
+        { status: 404 }
+      );
+    }
+
+    const { record, checkpoint, proof } = result;
+    if (!checkpoint || !proof) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Record ${record.sequence} is not covered by a checkpoint yet`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        record: {
+          ...record,
+          timestamp: record.timestamp.toISOString(),
+          amountLamports: record.amountLamports.toString(),
+        },
+        checkpoint: {
+          ...checkpoint,
+          createdAt: checkpoint.createdAt.toISOString(),
+        },
+        proof,
+      },
+    });
+  } catch (error) {
+    console.error("Error building PoH inclusion proof:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to build inclusion proof" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 0;
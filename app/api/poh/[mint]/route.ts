@@ -11,16 +11,22 @@ import {
   PoHVerifyRequestSchema,
   safeParseBigInt,
 } from "@/lib/validation";
-import { exportChainToJSON, verifyChain } from "@/lib/proof-of-history";
-import { prisma } from "@/lib/db";
 import {
-  checkRateLimit,
-  getClientIdentifier,
-  RATE_LIMIT_PRESETS,
-} from "@/lib/rate-limit";
+  exportChainToJSON,
+  getPoHRepairs,
+  getPoHSignatures,
+  verifyChain,
+  type PoHEventType,
+  type PoHRecord,
+  type PoHVault,
+  type PoHVersion,
+} from "@/lib/proof-of-history";
+import { prisma } from "@/lib/db";
+import { authenticateApiKey } from "@/lib/api-key-auth";
 
 // Type for PoH records from Prisma
 interface PoHRecordDB {
+  version: number;
   sequence: number;
   hash: string;
   prevHash: string;
@@ -34,9 +40,26 @@ interface PoHRecordDB {
   signature: string;
 }
 
+function toPoHRecord(r: PoHRecordDB): PoHRecord {
+  return {
+    version: r.version as PoHVersion,
+    sequence: r.sequence,
+    hash: r.hash,
+    prevHash: r.prevHash,
+    timestamp: r.timestamp,
+    slot: r.slot || undefined,
+    eventType: r.eventType as PoHEventType,
+    vault: r.vault as PoHVault,
+    tokenMint: r.tokenMint,
+    tokenSymbol: r.tokenSymbol || undefined,
+    amountLamports: r.amountLamports,
+    signature: r.signature,
+  };
+}
+
 /**
  * GET /api/poh/[mint]
- * Get PoH chain status and optionally full chain data
+ * Get PoH chain status and optionally full chain data (full=true needs an API key)
  */
 export async function GET(
   request: NextRequest,
@@ -59,6 +82,14 @@ export async function GET(
     const verify = searchParams.get("verify") === "true";
     const format = searchParams.get("format") || "json"; // json or export
 
+    // The full chain is a heavy export, reserved for API key holders
+    if (includeChain && !(await authenticateApiKey(request))) {
+      return NextResponse.json(
+        { success: false, error: "A valid API key is required for the full chain" },
+        { status: 401 }
+      );
+    }
+
     // Get PoH records for this token
     const records = await prisma.poHRecord.findMany({
       where: { tokenMint: mintValidation.data },
@@ -81,6 +112,9 @@ export async function GET(
     const firstRecord = records[0];
     const lastRecord = records[records.length - 1];
 
+    // Ranges appended by audit repairs, which a rebuild in slot order would place earlier
+    const repairs = await getPoHRepairs(mintValidation.data);
+
     const response: Record<string, unknown> = {
       success: true,
       data: {
@@ -92,36 +126,32 @@ export async function GET(
         lastHash: lastRecord.hash,
         firstTimestamp: firstRecord.timestamp.toISOString(),
         lastTimestamp: lastRecord.timestamp.toISOString(),
+        repairs: repairs.map((r) => ({
+          fromSequence: r.fromSequence,
+          toSequence: r.toSequence,
+          appendedCount: r.appendedCount,
+          repairedAt: r.repairedAt.toISOString(),
+        })),
       },
     };
 
     // Verify chain if requested
     if (verify) {
-      const pohRecords = records.map((r: PoHRecordDB) => ({
-        sequence: r.sequence,
-        hash: r.hash,
-        prevHash: r.prevHash,
-        timestamp: r.timestamp,
-        slot: r.slot || undefined,
-        eventType: r.eventType as "collect" | "burn" | "withdraw",
-        vault: r.vault as "BC" | "AMM" | "UNKNOWN",
-        tokenMint: r.tokenMint,
-        tokenSymbol: r.tokenSymbol || undefined,
-        amountLamports: r.amountLamports,
-        signature: r.signature,
-      }));
-
-      const verification = verifyChain(pohRecords);
+      const signatures = await getPoHSignatures(mintValidation.data);
+      const verification = verifyChain(records.map(toPoHRecord), signatures);
       (response.data as Record<string, unknown>).verification = {
         valid: verification.valid,
         invalidAt: verification.invalidAt,
         error: verification.error,
+        signedThrough: verification.signedThrough ?? null,
+        unverifiedHeads: verification.unverifiedHeads ?? 0,
       };
     }
 
     // Include full chain if requested
     if (includeChain) {
       const pohRecords = records.map((r: PoHRecordDB) => ({
+        version: r.version,
         sequence: r.sequence,
         hash: r.hash,
         prevHash: r.prevHash,
@@ -138,19 +168,7 @@ export async function GET(
       if (format === "export") {
         // Return as downloadable JSON file
         const exportData = exportChainToJSON(
-          records.map((r: PoHRecordDB) => ({
-            sequence: r.sequence,
-            hash: r.hash,
-            prevHash: r.prevHash,
-            timestamp: r.timestamp,
-            slot: r.slot || undefined,
-            eventType: r.eventType as "collect" | "burn" | "withdraw",
-            vault: r.vault as "BC" | "AMM" | "UNKNOWN",
-            tokenMint: r.tokenMint,
-            tokenSymbol: r.tokenSymbol || undefined,
-            amountLamports: r.amountLamports,
-            signature: r.signature,
-          }))
+          records.map(toPoHRecord)
         );
 
         return new NextResponse(exportData, {
@@ -185,25 +203,6 @@ export async function POST(
   try {
     const { mint } = await params;
 
-    // Apply rate limiting
-    const clientId = getClientIdentifier(request);
-    const rateLimitResult = checkRateLimit(`poh:${clientId}`, RATE_LIMIT_PRESETS.strict);
-    if (!rateLimitResult.success) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Rate limit exceeded",
-          retryAfter: rateLimitResult.retryAfter,
-        },
-        {
-          status: 429,
-          headers: {
-            "Retry-After": String(rateLimitResult.retryAfter),
-          },
-        }
-      );
-    }
-
     // Validate mint address
     const mintValidation = SolanaAddressSchema.safeParse(mint);
     if (!mintValidation.success) {
@@ -236,7 +235,7 @@ export async function POST(
       );
     }
 
-    const { records } = bodyValidation.data;
+    const { records, signedHeads } = bodyValidation.data;
 
     // Convert validated records to PoH format with safe BigInt parsing
     const pohRecords = records.map((r) => {
@@ -245,6 +244,7 @@ export async function POST(
         throw new Error(`Invalid amountLamports for record ${r.sequence}`);
       }
       return {
+        version: r.version,
         sequence: r.sequence,
         hash: r.hash,
         prevHash: r.prevHash,
@@ -259,8 +259,14 @@ export async function POST(
       };
     });
 
-    // Verify the chain
-    const verification = verifyChain(pohRecords);
+    // Verify the chain, and against signed heads (ours unless the caller supplied some)
+    const stored = await getPoHSignatures(mintValidation.data);
+    const verification = verifyChain(pohRecords, {
+      heads: signedHeads
+        ? signedHeads.map((h) => ({ ...h, signedAt: new Date(h.signedAt) }))
+        : stored.heads,
+      keys: stored.keys,
+    });
 
     return NextResponse.json({
       success: true,
@@ -271,6 +277,8 @@ export async function POST(
           valid: verification.valid,
           invalidAt: verification.invalidAt,
           error: verification.error,
+          signedThrough: verification.signedThrough ?? null,
+          unverifiedHeads: verification.unverifiedHeads ?? 0,
         },
       },
     });
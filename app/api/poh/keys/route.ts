@@ -0,0 +1,41 @@
+/**
+ * PoH Verification Keys API Route
+ * Ed25519 public keys that sign PoH chain heads, including retired ones
+ * `trusted` marks the keys this server's configuration verifies with
+ */
+
+import { NextResponse } from "next/server";
+import { getPoHSigningKeys } from "@/lib/proof-of-history";
+
+/**
+ * GET /api/poh/keys
+ */
+export async function GET() {
+  try {
+    const keys = await getPoHSigningKeys();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        algorithm: "ed25519",
+        message: "poh-head-v1|tokenMint|sequence|hash|signedAt",
+        keys: keys.map((k) => ({
+          keyId: k.keyId,
+          publicKey: k.publicKey,
+          active: k.retiredAt === null,
+          trusted: k.trusted,
+          createdAt: k.createdAt.toISOString(),
+          retiredAt: k.retiredAt?.toISOString() ?? null,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching PoH keys:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch PoH keys" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 60;
@@ -4,7 +4,7 @@
  */
 
 import { NextResponse } from "next/server";
-import { getGlobalStats, prisma } from "@/lib/db";
+import { getGlobalStats, getGlobalRollupTotals } from "@/lib/db";
 import { subDays } from "date-fns";
 
 export async function GET() {
@@ -12,51 +12,21 @@ export async function GET() {
     // Get global stats from database
     const stats = await getGlobalStats();
 
-    // Get 24h stats by type (removed redundant aggregate query)
-    const last24hByType = await prisma.feeEvent.groupBy({
-      by: ["eventType"],
-      where: {
-        blockTime: { gte: subDays(new Date(), 1) },
-      },
-      _sum: {
-        amountLamports: true,
-      },
-    });
-
-    // Get 7d stats
-    const last7dByType = await prisma.feeEvent.groupBy({
-      by: ["eventType"],
-      where: {
-        blockTime: { gte: subDays(new Date(), 7) },
-      },
-      _sum: {
-        amountLamports: true,
-      },
-    });
-
-    // Process 24h data
-    let burned24h = BigInt(0);
-    let withdrawn24h = BigInt(0);
-    let collected24h = BigInt(0);
-
-    for (const item of last24hByType) {
-      const amount = item._sum.amountLamports || BigInt(0);
-      if (item.eventType === "burn") burned24h = amount;
-      if (item.eventType === "withdraw") withdrawn24h = amount;
-      if (item.eventType === "collect") collected24h = amount;
-    }
-
-    // Process 7d data
-    let burned7d = BigInt(0);
-    let withdrawn7d = BigInt(0);
-    let collected7d = BigInt(0);
-
-    for (const item of last7dByType) {
-      const amount = item._sum.amountLamports || BigInt(0);
-      if (item.eventType === "burn") burned7d = amount;
-      if (item.eventType === "withdraw") withdrawn7d = amount;
-      if (item.eventType === "collect") collected7d = amount;
-    }
+    // Windowed totals come from the global hourly rollups
+    const [last24h, last7d] = await Promise.all([
+      getGlobalRollupTotals(subDays(new Date(), 1)),
+      getGlobalRollupTotals(subDays(new Date(), 7)),
+    ]);
+    const {
+      totalCollected: collected24h,
+      totalBurned: burned24h,
+      totalWithdrawn: withdrawn24h,
+    } = last24h;
+    const {
+      totalCollected: collected7d,
+      totalBurned: burned7d,
+      totalWithdrawn: withdrawn7d,
+    } = last7d;
 
     // Calculate percentages
     const burnPct24h =
@@ -8,27 +8,17 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { timingSafeEqual, createHmac } from "crypto";
-import {
-  getTransactionHistory,
-  getParsedTransactions,
-  getTokenMetadata,
-  PUMP_PROGRAM_ID,
-} from "@/lib/helius";
-import { classifyTransaction } from "@/lib/classifier";
+import { getTokenMetadata, PUMP_PROGRAM_ID } from "@/lib/helius";
+import { buildDualTrackConfig, type FeeModel } from "@/lib/fee-source";
 import {
   prisma,
   upsertToken,
-  createFeeEvent,
-  updateTokenStats,
   getTokenByMint,
+  updateTokenFeeModel,
+  pruneExpiredRateLimitBuckets,
 } from "@/lib/db";
-import { calculateBurnPercentage, calculateBadgeTier } from "@/lib/badges";
+import { indexSource, refreshTokenStats } from "@/lib/indexing";
 import { SolanaAddressSchema } from "@/lib/validation";
-import {
-  checkRateLimit,
-  getClientIdentifier,
-  RATE_LIMIT_PRESETS,
-} from "@/lib/rate-limit";
 
 // Cron secret to prevent unauthorized access
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -157,12 +147,10 @@ async function indexToken(mint: string): Promise<{
   // Check if token exists
   const existingToken = await getTokenByMint(mint);
   let tokenId: number;
-  let creatorVault: string;
   let creatorWallet: string;
 
   if (existingToken && existingToken.creatorVault && existingToken.creatorWallet) {
     tokenId = existingToken.id;
-    creatorVault = existingToken.creatorVault;
     creatorWallet = existingToken.creatorWallet;
   } else {
     // Create token
@@ -180,7 +168,6 @@ async function indexToken(mint: string): Promise<{
     const ownership = (metadata as { ownership?: { owner: string } })?.ownership;
 
     creatorWallet = authorities?.[0]?.address || ownership?.owner || "";
-    creatorVault = vault;
 
     if (!creatorWallet) {
       return { newEvents: 0, error: "Could not find creator wallet" };
@@ -198,98 +185,24 @@ async function indexToken(mint: string): Promise<{
     tokenId = newToken.id;
   }
 
-  // Get transaction history
-  const signatures = await getTransactionHistory(creatorVault, { limit: 50 });
-  if (!signatures || signatures.length === 0) {
-    return { newEvents: 0 };
-  }
-
-  // Get existing signatures
-  const existingEvents = await prisma.feeEvent.findMany({
-    where: { tokenId },
-    select: { signature: true },
+  // Choose fee sources; the fee model is detected once and then reused
+  const storedModel = existingToken?.feeModel as FeeModel | null | undefined;
+  const trackConfig = await buildDualTrackConfig(mint, creatorWallet, {
+    forceModel: storedModel && storedModel !== "unknown" ? storedModel : undefined,
   });
-  const existingSignatures = new Set(existingEvents.map((e: { signature: string }) => e.signature));
-
-  // Filter new signatures
-  const newSignatures = signatures
-    .map((s) => s.signature)
-    .filter((sig) => !existingSignatures.has(sig));
-
-  if (newSignatures.length === 0) {
-    return { newEvents: 0 };
+  if (trackConfig.detectedModel && trackConfig.detectedModel !== storedModel) {
+    await updateTokenFeeModel(tokenId, trackConfig.detectedModel);
   }
 
-  // Parse and classify
   let newEvents = 0;
-  const batchSize = 10;
-
-  for (let i = 0; i < newSignatures.length; i += batchSize) {
-    const batch = newSignatures.slice(i, i + batchSize);
-    const parsed = await getParsedTransactions(batch);
-
-    for (const tx of parsed) {
-      if (!tx) continue;
-
-      const event = classifyTransaction(tx, creatorVault, creatorWallet, mint);
-      if (event) {
-        try {
-          await createFeeEvent({
-            tokenId,
-            eventType: event.type,
-            amountLamports: event.amountLamports,
-            signature: event.signature,
-            blockTime: event.blockTime,
-            burnedTokenMint: event.burnedTokenMint,
-            burnedTokenAmount: event.burnedTokenAmount,
-          });
-          newEvents++;
-        } catch {
-          // Skip duplicates
-        }
-      }
-    }
-  }
-
-  // Recalculate stats using DB aggregation (much more efficient than loading all events)
-  const statsAggregation = await prisma.feeEvent.groupBy({
-    by: ["eventType"],
-    where: { tokenId },
-    _sum: { amountLamports: true },
-  });
-
-  // Extract totals from aggregation result
-  let totalCollected = BigInt(0);
-  let totalBurned = BigInt(0);
-  let totalWithdrawn = BigInt(0);
-
-  for (const stat of statsAggregation) {
-    const amount = stat._sum.amountLamports ?? BigInt(0);
-    switch (stat.eventType) {
-      case "collect":
-        totalCollected = amount;
-        break;
-      case "burn":
-        totalBurned = amount;
-        break;
-      case "withdraw":
-        totalWithdrawn = amount;
-        break;
-    }
+  for (const source of trackConfig.sources) {
+    newEvents += await indexSource(tokenId, mint, creatorWallet, source, {
+      pageSize: 50,
+      maxPages: 4,
+    });
   }
 
-  const totalHeld = totalCollected - totalBurned - totalWithdrawn;
-  const burnPercentage = calculateBurnPercentage(totalCollected, totalBurned);
-  const badgeTier = calculateBadgeTier(burnPercentage);
-
-  await updateTokenStats(tokenId, {
-    totalFeesCollected: totalCollected,
-    totalFeesBurned: totalBurned,
-    totalFeesWithdrawn: totalWithdrawn,
-    totalFeesHeld: totalHeld < 0 ? BigInt(0) : totalHeld,
-    burnPercentage,
-    badgeTier,
-  });
+  await refreshTokenStats(tokenId, mint);
 
   return { newEvents };
 }
@@ -306,26 +219,6 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Apply rate limiting
-    const clientId = getClientIdentifier(request);
-    const rateLimitResult = checkRateLimit(`sync:${clientId}`, RATE_LIMIT_PRESETS.sync);
-    if (!rateLimitResult.success) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Rate limit exceeded",
-          retryAfter: rateLimitResult.retryAfter,
-        },
-        {
-          status: 429,
-          headers: {
-            "Retry-After": String(rateLimitResult.retryAfter),
-            "X-RateLimit-Remaining": "0",
-          },
-        }
-      );
-    }
-
     const startTime = Date.now();
 
     // Get mints to index from query or use default
@@ -384,13 +277,20 @@ export async function GET(request: NextRequest) {
     const errors: string[] = [];
 
     for (const mint of mints) {
-      const result = await indexToken(mint);
+      // A failed insert leaves the token's cursor in place; the other mints still sync
+      const result = await indexToken(mint).catch((error) => {
+        console.error(`Error syncing ${mint}:`, error);
+        return { newEvents: 0, error: String(error) };
+      });
       totalEvents += result.newEvents;
       if (result.error) {
         errors.push(`${mint.slice(0, 8)}...: ${result.error}`);
       }
     }
 
+    // Expired windows of the Postgres rate limit store are only cleared here
+    await pruneExpiredRateLimitBuckets();
+
     const elapsed = Date.now() - startTime;
 
     return NextResponse.json({
@@ -4,7 +4,16 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getTokenByMint, getFeeEventsByToken } from "@/lib/db";
+import { getTokenByMint, getFeeEventsByToken, getCreatorFeeTotals } from "@/lib/db";
+import {
+  calculateCCMStatus,
+  getTokenBurnStats,
+  getCreatorBurnStats,
+  type BurnStats,
+} from "@/lib/burn-engine";
+import { isPlaceholderSignature } from "@/lib/finality";
+import { calculateAvgSolPerToken } from "@/lib/burn-accounting";
+import { getPoHAudit } from "@/lib/proof-of-history";
 import {
   SolanaAddressSchema,
   TokenDetailQuerySchema,
@@ -18,8 +27,26 @@ interface FeeEventDB {
   amountLamports: bigint;
   signature: string;
   blockTime: Date;
+  source: string | null;
+  confidence: string | null;
+  reasons: string[];
+  overridden: boolean;
+  classifiedType: string | null;
+  provisional: boolean;
+  unresolved: boolean;
   burnedTokenMint: string | null;
   burnedTokenAmount: bigint | null;
+  burnType: string | null;
+  burnVerified: boolean;
+}
+
+function serializeBurnStats(stats: BurnStats) {
+  return {
+    totalBurned: stats.totalBurned.toString(),
+    burnCount: stats.burnCount,
+    verifiedBurns: stats.verifiedBurns,
+    lastBurn: stats.lastBurn?.toISOString() ?? null,
+  };
 }
 
 export async function GET(
@@ -69,6 +96,31 @@ export async function GET(
       offset: eventsOffset,
     });
 
+    // CCM tier from verified burns, for the token and across the creator's tokens
+    const tokenBurnStats = await getTokenBurnStats(token.mint);
+    const tokenCCM = calculateCCMStatus({
+      totalCollected: token.totalFeesCollected,
+      totalBurned: token.totalFeesBurned,
+      totalWithdrawn: token.totalFeesWithdrawn,
+      verifiedBurns: tokenBurnStats.verifiedBurns,
+      totalBurnTxs: tokenBurnStats.burnCount,
+    });
+
+    let creatorCCM = null;
+    if (token.creatorWallet) {
+      const [creatorTotals, creatorBurnStats] = await Promise.all([
+        getCreatorFeeTotals(token.creatorWallet),
+        getCreatorBurnStats(token.creatorWallet),
+      ]);
+      creatorCCM = calculateCCMStatus({
+        ...creatorTotals,
+        verifiedBurns: creatorBurnStats.verifiedBurns,
+        totalBurnTxs: creatorBurnStats.burnCount,
+      });
+    }
+
+    const pohAudit = await getPoHAudit(token.id);
+
     // Serialize for JSON
     const serializedToken = {
       id: token.id,
@@ -84,16 +136,49 @@ export async function GET(
       totalFeesHeld: token.totalFeesHeld.toString(),
       burnPercentage: Number(token.burnPercentage),
       badgeTier: token.badgeTier,
+      burnStats: serializeBurnStats(tokenBurnStats),
+      tokenBurns: {
+        totalTokensBurned: token.totalTokensBurned.toString(),
+        tokenBurnSpentLamports: token.tokenBurnSpentLamports.toString(),
+        supplyBurnedPercentage: Number(token.supplyBurnedPercentage),
+        avgSolPerToken: calculateAvgSolPerToken(
+          token.tokenBurnSpentLamports,
+          token.totalTokensBurned
+        ),
+        tokenSupply: token.tokenSupply?.toString() ?? null,
+        tokenDecimals: token.tokenDecimals,
+      },
+      ccm: {
+        token: tokenCCM,
+        creator: creatorCCM,
+      },
+      pohAudit: pohAudit && {
+        status: pohAudit.status,
+        missingCount: pohAudit.missingCount,
+        extraCount: pohAudit.extraCount,
+        mismatchCount: pohAudit.mismatchCount,
+        checkedAt: pohAudit.checkedAt.toISOString(),
+      },
       createdAt: token.createdAt.toISOString(),
       updatedAt: token.updatedAt.toISOString(),
       recentEvents: events.map((event: FeeEventDB) => ({
         id: event.id,
         eventType: event.eventType,
         amountLamports: event.amountLamports.toString(),
-        signature: event.signature,
+        // Placeholders are internal; never expose them as transaction signatures
+        signature: isPlaceholderSignature(event.signature) ? null : event.signature,
         blockTime: event.blockTime.toISOString(),
+        source: event.source,
+        confidence: event.confidence,
+        reasons: event.reasons,
+        overridden: event.overridden,
+        classifiedType: event.classifiedType,
+        provisional: event.provisional,
+        unresolved: event.unresolved,
         burnedTokenMint: event.burnedTokenMint,
         burnedTokenAmount: event.burnedTokenAmount?.toString(),
+        burnType: event.burnType,
+        burnVerified: event.burnVerified,
       })),
     };
 
@@ -0,0 +1,95 @@
+/**
+ * Token Time-Series API Route
+ * Returns fee rollups bucketed by hour, day or week
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma, getTokenRollups } from "@/lib/db";
+import { bucketRollups } from "@/lib/timeseries";
+import { getTimeframeDate } from "@/lib/utils";
+import {
+  SolanaAddressSchema,
+  TimeseriesQuerySchema,
+  safeParseQueryParams,
+} from "@/lib/validation";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  try {
+    const { mint } = await params;
+
+    // Validate mint address
+    const mintValidation = SolanaAddressSchema.safeParse(mint);
+    if (!mintValidation.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid mint address format" },
+        { status: 400 }
+      );
+    }
+
+    // Validate query parameters
+    const parseResult = safeParseQueryParams(
+      TimeseriesQuerySchema,
+      request.nextUrl.searchParams
+    );
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: `Invalid parameters: ${parseResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    const { interval, timeframe } = parseResult.data;
+
+    const token = await prisma.token.findUnique({
+      where: { mint: mintValidation.data },
+      select: { id: true },
+    });
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: "Token not found" },
+        { status: 404 }
+      );
+    }
+
+    const since = getTimeframeDate(timeframe);
+    // Hourly charts need hourly rollups; day and week buckets merge daily ones
+    const rollups = await getTokenRollups(
+      token.id,
+      interval === "hour" ? "hour" : "day",
+      since ?? undefined
+    );
+    const buckets = bucketRollups(rollups, interval);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tokenMint: mintValidation.data,
+        interval,
+        timeframe,
+        buckets: buckets.map((bucket) => ({
+          bucketStart: bucket.bucketStart.toISOString(),
+          collected: bucket.collected.toString(),
+          burned: bucket.burned.toString(),
+          withdrawn: bucket.withdrawn.toString(),
+          eventCount: bucket.eventCount,
+          cumulativeCollected: bucket.cumulativeCollected.toString(),
+          cumulativeBurned: bucket.cumulativeBurned.toString(),
+          cumulativeBurnPercentage: bucket.cumulativeBurnPercentage,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching token timeseries:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch timeseries" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 60;
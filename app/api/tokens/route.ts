@@ -4,12 +4,51 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/db";
+import { prisma, getTokenStatsInWindow } from "@/lib/db";
+import { calculateBurnPercentage, calculateBadgeTier } from "@/lib/badges";
+import { calculateAvgSolPerToken } from "@/lib/burn-accounting";
+import { getTimeframeDate } from "@/lib/utils";
 import {
   TokenListQuerySchema,
   safeParseQueryParams,
 } from "@/lib/validation";
 
+const TOKEN_SELECT = {
+  id: true,
+  mint: true,
+  name: true,
+  symbol: true,
+  creatorWallet: true,
+  imageUri: true,
+  totalFeesCollected: true,
+  totalFeesBurned: true,
+  totalFeesWithdrawn: true,
+  totalFeesHeld: true,
+  burnPercentage: true,
+  badgeTier: true,
+  totalTokensBurned: true,
+  tokenBurnSpentLamports: true,
+  supplyBurnedPercentage: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * Serialize token-unit burn accounting (not windowed: supply share is lifetime)
+ */
+function serializeBurnAccounting(token: {
+  totalTokensBurned: bigint;
+  tokenBurnSpentLamports: bigint;
+}) {
+  return {
+    totalTokensBurned: token.totalTokensBurned.toString(),
+    tokenBurnSpentLamports: token.tokenBurnSpentLamports.toString(),
+    avgSolPerToken: calculateAvgSolPerToken(
+      token.tokenBurnSpentLamports,
+      token.totalTokensBurned
+    ),
+  };
+}
+
 export async function GET(request: NextRequest) {
   try {
     // Validate query parameters
@@ -25,18 +64,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const { sort, order, filter, search, page, limit } = parseResult.data;
+    const { sort, order, filter, search, timeframe, page, limit } = parseResult.data;
 
     // Build where clause - using Record type since Prisma types require regeneration
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const where: Record<string, any> = {};
 
-    if (filter === "burners") {
-      where.burnPercentage = { gte: 50 };
-    } else if (filter === "extractors") {
-      where.burnPercentage = { lt: 50 };
-    }
-
     // Sanitize search input (limit length, escape special chars)
     if (search) {
       const sanitizedSearch = search.slice(0, 100).replace(/[%_]/g, "\\$&");
@@ -47,6 +80,80 @@ export async function GET(request: NextRequest) {
       ];
     }
 
+    // Windowed ranking: totals come from fee events inside the timeframe
+    const since = getTimeframeDate(timeframe);
+    if (since) {
+      const windowTotals = await getTokenStatsInWindow(since);
+      where.id = { in: Array.from(windowTotals.keys()) };
+
+      const windowTokens = await prisma.token.findMany({
+        where,
+        select: TOKEN_SELECT,
+      });
+
+      const ranked = windowTokens
+        .map((token) => {
+          const totals = windowTotals.get(token.id)!;
+          const held = totals.totalCollected - totals.totalBurned - totals.totalWithdrawn;
+          const burnPercentage = calculateBurnPercentage(
+            totals.totalCollected,
+            totals.totalBurned
+          );
+          return {
+            ...token,
+            totalFeesCollected: totals.totalCollected,
+            totalFeesBurned: totals.totalBurned,
+            totalFeesWithdrawn: totals.totalWithdrawn,
+            totalFeesHeld: held < 0 ? BigInt(0) : held,
+            burnPercentage,
+            badgeTier: calculateBadgeTier(burnPercentage),
+            supplyBurnedPercentage: Number(token.supplyBurnedPercentage),
+          };
+        })
+        .filter((token) => {
+          if (filter === "burners") return token.burnPercentage >= 50;
+          if (filter === "extractors") return token.burnPercentage < 50;
+          return true;
+        })
+        .sort((a, b) => {
+          const direction = order === "asc" ? 1 : -1;
+          const left = a[sort];
+          const right = b[sort];
+          if (left < right) return -direction;
+          if (left > right) return direction;
+          return 0;
+        });
+
+      const pageTokens = ranked.slice((page - 1) * limit, page * limit);
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          timeframe,
+          tokens: pageTokens.map((token) => ({
+            ...token,
+            totalFeesCollected: token.totalFeesCollected.toString(),
+            totalFeesBurned: token.totalFeesBurned.toString(),
+            totalFeesWithdrawn: token.totalFeesWithdrawn.toString(),
+            totalFeesHeld: token.totalFeesHeld.toString(),
+            ...serializeBurnAccounting(token),
+          })),
+          pagination: {
+            page,
+            limit,
+            total: ranked.length,
+            hasMore: page * limit < ranked.length,
+          },
+        },
+      });
+    }
+
+    if (filter === "burners") {
+      where.burnPercentage = { gte: 50 };
+    } else if (filter === "extractors") {
+      where.burnPercentage = { lt: 50 };
+    }
+
     // Use validated sort parameters
     const sortField = sort;
     const sortOrder = order;
@@ -60,21 +167,7 @@ export async function GET(request: NextRequest) {
       orderBy: { [sortField]: sortOrder },
       skip: (page - 1) * limit,
       take: limit,
-      select: {
-        id: true,
-        mint: true,
-        name: true,
-        symbol: true,
-        creatorWallet: true,
-        imageUri: true,
-        totalFeesCollected: true,
-        totalFeesBurned: true,
-        totalFeesWithdrawn: true,
-        totalFeesHeld: true,
-        burnPercentage: true,
-        badgeTier: true,
-        updatedAt: true,
-      },
+      select: TOKEN_SELECT,
     });
 
     // Convert BigInt to string for JSON serialization
@@ -85,11 +178,14 @@ export async function GET(request: NextRequest) {
       totalFeesWithdrawn: token.totalFeesWithdrawn.toString(),
       totalFeesHeld: token.totalFeesHeld.toString(),
       burnPercentage: Number(token.burnPercentage),
+      supplyBurnedPercentage: Number(token.supplyBurnedPercentage),
+      ...serializeBurnAccounting(token),
     }));
 
     return NextResponse.json({
       success: true,
       data: {
+        timeframe,
         tokens: serializedTokens,
         pagination: {
           page,
@@ -0,0 +1,65 @@
+/**
+ * Top Tokens API Route
+ * Top burners and extractors ranked by SOL burned / withdrawn inside the timeframe
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getTopBurners, getTopExtractors, type WindowedTokenRanking } from "@/lib/db";
+import { getTimeframeDate } from "@/lib/utils";
+import { TopTokensQuerySchema, safeParseQueryParams } from "@/lib/validation";
+
+function serializeRanking(ranking: WindowedTokenRanking) {
+  return {
+    mint: ranking.token.mint,
+    name: ranking.token.name,
+    symbol: ranking.token.symbol,
+    imageUri: ranking.token.imageUri,
+    // Totals and badge inside the timeframe
+    totalFeesCollected: ranking.totalCollected.toString(),
+    totalFeesBurned: ranking.totalBurned.toString(),
+    totalFeesWithdrawn: ranking.totalWithdrawn.toString(),
+    burnPercentage: ranking.burnPercentage,
+    badgeTier: ranking.badgeTier,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const parseResult = safeParseQueryParams(
+      TopTokensQuerySchema,
+      request.nextUrl.searchParams
+    );
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: `Invalid parameters: ${parseResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    const { timeframe, limit } = parseResult.data;
+    const since = getTimeframeDate(timeframe) ?? undefined;
+
+    const [burners, extractors] = await Promise.all([
+      getTopBurners(limit, since),
+      getTopExtractors(limit, since),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timeframe,
+        burners: burners.map(serializeRanking),
+        extractors: extractors.map(serializeRanking),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching top tokens:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch top tokens" },
+      { status: 500 }
+    );
+  }
+}
+
+export const revalidate = 60;
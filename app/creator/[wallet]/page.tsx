@@ -0,0 +1,235 @@
+import Link from "next/link";
+import { getBadgeInfo } from "@/lib/badges";
+import {
+  formatSol,
+  formatPercentage,
+  shortenAddress,
+  getSolscanAddressUrl,
+} from "@/lib/utils";
+import { notFound } from "next/navigation";
+
+const API_BASE = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+interface CreatorData {
+  id: number;
+  wallet: string;
+  totalTokensCreated: number;
+  totalFeesEarned: string;
+  totalFeesBurned: string;
+  totalFeesWithdrawn: string;
+  overallBurnPercentage: number;
+  badgeTier: string | null;
+  updatedAt: string;
+  tokens: CreatorTokenData[];
+}
+
+interface CreatorTokenData {
+  id: number;
+  mint: string;
+  name: string | null;
+  symbol: string | null;
+  imageUri: string | null;
+  totalFeesCollected: string;
+  totalFeesBurned: string;
+  totalFeesWithdrawn: string;
+  totalFeesHeld: string;
+  burnPercentage: number;
+  badgeTier: string | null;
+  createdAt: string;
+}
+
+async function getCreator(wallet: string): Promise<CreatorData | null> {
+  try {
+    const res = await fetch(`${API_BASE}/api/creators/${wallet}`, {
+      next: { revalidate: 30 },
+    });
+    if (!res.ok) return null;
+    const json = await res.json();
+    return json.data;
+  } catch {
+    return null;
+  }
+}
+
+interface PageProps {
+  params: Promise<{ wallet: string }>;
+}
+
+export default async function CreatorPage({ params }: PageProps) {
+  const { wallet } = await params;
+  const creator = await getCreator(wallet);
+
+  if (!creator) {
+    notFound();
+  }
+
+  const badge = getBadgeInfo(creator.overallBurnPercentage);
+  const extractingTokens = creator.tokens.filter(
+    (token) => BigInt(token.totalFeesWithdrawn) > BigInt(0)
+  ).length;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back link */}
+      <Link
+        href="/"
+        className="inline-flex items-center gap-2 text-zinc-400 hover:text-white mb-6 transition-colors"
+      >
+        ← Back to Dashboard
+      </Link>
+
+      {/* Header */}
+      <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-6 mb-6">
+        <div className="flex flex-col md:flex-row items-start md:items-center gap-6">
+          {/* Creator Badge */}
+          <div
+            className="p-4 rounded-xl text-center"
+            style={{ backgroundColor: badge.bgColor }}
+          >
+            <div className="text-5xl mb-2">{badge.emoji}🐕{badge.emoji}</div>
+            <div
+              className="text-sm font-bold uppercase"
+              style={{ color: badge.color }}
+            >
+              {badge.name}
+            </div>
+          </div>
+
+          {/* Creator Info */}
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-white mb-2">
+              Creator {shortenAddress(creator.wallet)}
+            </h1>
+            <p className="text-zinc-400 italic mb-3">&quot;{badge.quote}&quot;</p>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <div>
+                <span className="text-zinc-500">Wallet:</span>{" "}
+                <a
+                  href={getSolscanAddressUrl(creator.wallet)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-fire-400 hover:underline font-mono"
+                >
+                  {creator.wallet}
+                </a>
+              </div>
+              <div>
+                <span className="text-zinc-500">Tokens launched:</span>{" "}
+                <span className="text-white">{creator.totalTokensCreated}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Overall Burn Rate */}
+          <div className="text-center">
+            <div
+              className="text-5xl font-bold"
+              style={{ color: badge.color }}
+            >
+              {formatPercentage(creator.overallBurnPercentage)}
+            </div>
+            <div className="text-zinc-500 text-sm">Overall Burn Rate</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+          <div className="text-zinc-500 text-sm mb-1">Total Earned</div>
+          <div className="text-xl font-bold text-white">
+            {formatSol(BigInt(creator.totalFeesEarned))} SOL
+          </div>
+        </div>
+        <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+          <div className="text-zinc-500 text-sm mb-1 flex items-center gap-1">
+            🔥 Burned
+          </div>
+          <div className="text-xl font-bold text-burn">
+            {formatSol(BigInt(creator.totalFeesBurned))} SOL
+          </div>
+        </div>
+        <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+          <div className="text-zinc-500 text-sm mb-1 flex items-center gap-1">
+            💸 Withdrawn
+          </div>
+          <div className="text-xl font-bold text-extract">
+            {formatSol(BigInt(creator.totalFeesWithdrawn))} SOL
+          </div>
+        </div>
+        <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+          <div className="text-zinc-500 text-sm mb-1">Tokens Extracted</div>
+          <div className="text-xl font-bold text-white">
+            {extractingTokens} / {creator.tokens.length}
+          </div>
+        </div>
+      </div>
+
+      {/* Token List */}
+      <div className="bg-surface-secondary rounded-xl border border-zinc-800 overflow-hidden">
+        <div className="px-6 py-4 border-b border-zinc-800">
+          <h3 className="font-semibold text-white">Launched Tokens</h3>
+        </div>
+        <div className="divide-y divide-zinc-800">
+          {creator.tokens.length === 0 ? (
+            <div className="px-6 py-8 text-center text-zinc-500">
+              No tokens tracked for this creator yet.
+            </div>
+          ) : (
+            creator.tokens.map((token) => {
+              const tokenBadge = getBadgeInfo(token.burnPercentage);
+              return (
+                <Link
+                  key={token.id}
+                  href={`/token/${token.mint}`}
+                  className="flex items-center justify-between px-6 py-4 hover:bg-surface-tertiary transition-colors"
+                >
+                  <div className="flex items-center gap-4">
+                    <span
+                      className="text-2xl"
+                      title={tokenBadge.name}
+                      aria-label={tokenBadge.name}
+                    >
+                      {tokenBadge.emoji}
+                    </span>
+                    <div>
+                      <div className="font-medium text-white">
+                        ${token.symbol || shortenAddress(token.mint)}
+                      </div>
+                      <div className="text-sm text-zinc-500">
+                        {token.name || shortenAddress(token.mint)}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-6 text-right">
+                    <div>
+                      <div className="font-mono text-white">
+                        {formatSol(BigInt(token.totalFeesCollected))} SOL
+                      </div>
+                      <div className="text-xs text-zinc-500">collected</div>
+                    </div>
+                    <div>
+                      <div className="font-mono text-extract">
+                        {formatSol(BigInt(token.totalFeesWithdrawn))} SOL
+                      </div>
+                      <div className="text-xs text-zinc-500">withdrawn</div>
+                    </div>
+                    <div className="w-16">
+                      <div
+                        className="font-bold"
+                        style={{ color: tokenBadge.color }}
+                      >
+                        {formatPercentage(token.burnPercentage)}
+                      </div>
+                      <div className="text-xs text-zinc-500">burned</div>
+                    </div>
+                  </div>
+                </Link>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import Link from "next/link";
+import {
+  formatSol,
+  formatPercentage,
+  formatRelativeTime,
+  shortenAddress,
+  getSolscanAddressUrl,
+} from "@/lib/utils";
+
+const API_BASE = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+interface EcosystemData {
+  programId: string;
+  rootMint: string;
+  stats: {
+    totalBurned: string; // Lamports spent on buyback-and-burn
+    totalBuybacks: number;
+    lastBurnSlot: number | null;
+    lastBurnTimestamp: string | null;
+    rootTokenBurned: string;
+    secondaryTokensBurned: string;
+  };
+  tokens: EcosystemTokenData[];
+}
+
+interface EcosystemTokenData {
+  mint: string;
+  name: string | null;
+  symbol: string | null;
+  imageUri: string | null;
+  tracked: boolean;
+  tokenType: "root" | "secondary";
+  discoveredVia: "monitor" | "history";
+  engineTxCount: number;
+  rootLamports: string;
+  secondaryLamports: string;
+  rootContribution: number;
+  lastSeenAt: string;
+}
+
+async function getEcosystem(): Promise<EcosystemData | null> {
+  try {
+    const res = await fetch(`${API_BASE}/api/ecosystem`, {
+      next: { revalidate: 60 },
+    });
+    if (!res.ok) return null;
+    const json = await res.json();
+    return json.data;
+  } catch {
+    return null;
+  }
+}
+
+export default async function EcosystemPage() {
+  const ecosystem = await getEcosystem();
+
+  if (!ecosystem) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center text-zinc-500">
+        Failed to load the ASDF ecosystem.
+      </div>
+    );
+  }
+
+  const { stats } = ecosystem;
+  const totalBurned = BigInt(stats.totalBurned);
+  const rootPct =
+    totalBurned > BigInt(0)
+      ? Number((BigInt(stats.rootTokenBurned) * BigInt(10000)) / totalBurned) / 100
+      : 0;
+  const secondaries = ecosystem.tokens.filter((token) => token.tokenType === "secondary");
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+          <span>🌋</span>
+          ASDF Ecosystem
+        </h1>
+        <p className="text-zinc-400 mt-2">
+          Tokens routing fees through the{" "}
+          <a
+            href={getSolscanAddressUrl(ecosystem.programId)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-fire-400 hover:underline"
+          >
+            burn engine
+          </a>
+          , and how much of each flows back to{" "}
+          <Link href={`/token/${ecosystem.rootMint}`} className="text-fire-400 hover:underline">
+            $ASDF
+          </Link>
+        </p>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+          <div className="text-zinc-500 text-sm mb-1">🔥 Total Burned</div>
+          <div className="text-xl font-bold text-burn">{formatSol(totalBurned)} SOL</div>
+        </div>
+        <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+          <div className="text-zinc-500 text-sm mb-1">Root ($ASDF)</div>
+          <div className="text-xl font-bold text-white">
+            {formatSol(BigInt(stats.rootTokenBurned))} SOL
+          </div>
+        </div>
+        <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+          <div className="text-zinc-500 text-sm mb-1">Secondaries</div>
+          <div className="text-xl font-bold text-white">
+            {formatSol(BigInt(stats.secondaryTokensBurned))} SOL
+          </div>
+        </div>
+        <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+          <div className="text-zinc-500 text-sm mb-1">Engine Cycles</div>
+          <div className="text-xl font-bold text-white">{stats.totalBuybacks}</div>
+          {stats.lastBurnTimestamp && (
+            <div className="text-xs text-zinc-500 mt-1">
+              last {formatRelativeTime(new Date(stats.lastBurnTimestamp))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Root vs Secondary Bar */}
+      <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-6 mb-6">
+        <h3 className="font-semibold text-white mb-4">Root vs Secondary Burns</h3>
+        <div className="h-8 rounded-lg overflow-hidden flex bg-surface-tertiary">
+          {rootPct > 0 && (
+            <div
+              className="bg-burn flex items-center justify-center text-xs font-medium text-white"
+              style={{ width: `${rootPct}%` }}
+            >
+              {rootPct > 10 && `$ASDF ${rootPct.toFixed(0)}%`}
+            </div>
+          )}
+          {rootPct < 100 && totalBurned > BigInt(0) && (
+            <div
+              className="bg-hold flex items-center justify-center text-xs font-medium text-white"
+              style={{ width: `${100 - rootPct}%` }}
+            >
+              {100 - rootPct > 10 && `Secondaries ${(100 - rootPct).toFixed(0)}%`}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Secondary Registry */}
+      <div className="bg-surface-secondary rounded-xl border border-zinc-800 overflow-hidden">
+        <div className="px-6 py-4 border-b border-zinc-800">
+          <h3 className="font-semibold text-white">Secondary Tokens</h3>
+        </div>
+        <div className="divide-y divide-zinc-800">
+          {secondaries.length === 0 ? (
+            <div className="px-6 py-8 text-center text-zinc-500">
+              No secondary tokens seen on the burn engine yet.
+            </div>
+          ) : (
+            secondaries.map((token) => {
+              const label = token.symbol ? `$${token.symbol}` : shortenAddress(token.mint);
+              return (
+                <div
+                  key={token.mint}
+                  className="flex items-center justify-between px-6 py-4"
+                >
+                  <div>
+                    <div className="font-medium text-white">
+                      {token.tracked ? (
+                        <Link href={`/token/${token.mint}`} className="hover:underline">
+                          {label}
+                        </Link>
+                      ) : (
+                        label
+                      )}
+                    </div>
+                    <div className="text-xs text-zinc-500">
+                      {token.engineTxCount} engine cycles · last{" "}
+                      {formatRelativeTime(new Date(token.lastSeenAt))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-6 text-right">
+                    <div>
+                      <div className="font-mono text-white">
+                        {formatSol(BigInt(token.secondaryLamports))} SOL
+                      </div>
+                      <div className="text-xs text-zinc-500">own burns</div>
+                    </div>
+                    <div>
+                      <div className="font-mono text-burn">
+                        {formatSol(BigInt(token.rootLamports))} SOL
+                      </div>
+                      <div className="text-xs text-zinc-500">to $ASDF</div>
+                    </div>
+                    <div className="w-16">
+                      <div className="font-bold text-fire-400">
+                        {formatPercentage(token.rootContribution)}
+                      </div>
+                      <div className="text-xs text-zinc-500">to root</div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
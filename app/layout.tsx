@@ -80,6 +80,12 @@ export default function RootLayout({
                   >
                     Badges
                   </Link>
+                  <Link
+                    href="/ecosystem"
+                    className="text-sm text-zinc-400 hover:text-white transition-colors"
+                  >
+                    Ecosystem
+                  </Link>
                 </nav>
 
                 {/* Search placeholder */}
@@ -14,6 +14,7 @@ interface Token {
   totalFeesBurned: string;
   totalFeesWithdrawn: string;
   burnPercentage: number;
+  supplyBurnedPercentage: number;
   badgeTier: string | null;
   updatedAt: string;
 }
@@ -32,7 +33,11 @@ interface ApiResponse {
 }
 
 type FilterType = "all" | "burners" | "extractors";
-type SortType = "burnPercentage" | "totalFeesBurned" | "totalFeesCollected";
+type SortType =
+  | "burnPercentage"
+  | "totalFeesBurned"
+  | "totalFeesCollected"
+  | "supplyBurnedPercentage";
 type TimeframeType = "24h" | "7d" | "30d" | "all";
 
 export default function LeaderboardPage() {
@@ -54,6 +59,7 @@ export default function LeaderboardPage() {
       const params = new URLSearchParams({
         sort,
         order: sort === "burnPercentage" ? "desc" : "desc",
+        timeframe,
         page: page.toString(),
         limit: "20",
       });
@@ -186,6 +192,15 @@ export default function LeaderboardPage() {
         >
           Total Collected
         </button>
+        <button
+          onClick={() => setSort("supplyBurnedPercentage")}
+          className={cn(
+            "transition-colors",
+            sort === "supplyBurnedPercentage" ? "text-fire-400" : "text-zinc-400 hover:text-white"
+          )}
+        >
+          % Supply Burned
+        </button>
       </div>
 
       {/* Results Count */}
@@ -202,7 +217,9 @@ export default function LeaderboardPage() {
           <div className="col-span-2">Badge</div>
           <div className="col-span-2 text-right">Burned</div>
           <div className="col-span-2 text-right">Collected</div>
-          <div className="col-span-1 text-right">Burn %</div>
+          <div className="col-span-1 text-right">
+            {sort === "supplyBurnedPercentage" ? "Supply %" : "Burn %"}
+          </div>
         </div>
 
         {/* Loading State */}
@@ -289,12 +306,14 @@ export default function LeaderboardPage() {
                 {formatSol(BigInt(token.totalFeesCollected))} SOL
               </div>
 
-              {/* Burn % */}
+              {/* Burn % (or share of supply burned when ranking by it) */}
               <div
                 className="col-span-1 text-right font-bold"
                 style={{ color: badge.color }}
               >
-                {formatPercentage(token.burnPercentage)}
+                {sort === "supplyBurnedPercentage"
+                  ? formatPercentage(token.supplyBurnedPercentage, 2)
+                  : formatPercentage(token.burnPercentage)}
               </div>
             </a>
           );
@@ -16,6 +16,7 @@ interface StatsData {
   };
 }
 
+// Totals, burn percentage and badge are for the last 24h, not all time
 interface TokenData {
   mint: string;
   symbol: string;
@@ -26,6 +27,11 @@ interface TokenData {
   badgeTier: BadgeTier | null;
 }
 
+interface TopTokensData {
+  burners: TokenData[];
+  extractors: TokenData[];
+}
+
 async function getStats(): Promise<StatsData | null> {
   try {
     const res = await fetch(`${API_BASE}/api/stats`, {
@@ -39,27 +45,26 @@ async function getStats(): Promise<StatsData | null> {
   }
 }
 
-async function getTopTokens(filter: "burners" | "extractors", limit = 3): Promise<TokenData[]> {
+async function getTopTokens(limit = 3): Promise<TopTokensData> {
   try {
-    const sort = filter === "burners" ? "totalFeesBurned" : "totalFeesWithdrawn";
     const res = await fetch(
-      `${API_BASE}/api/tokens?sort=${sort}&order=desc&limit=${limit}&filter=${filter}`,
+      `${API_BASE}/api/tokens/top?timeframe=24h&limit=${limit}`,
       { next: { revalidate: 60 } }
     );
-    if (!res.ok) return [];
+    if (!res.ok) return { burners: [], extractors: [] };
     const json = await res.json();
-    return json.data?.tokens || [];
+    return {
+      burners: json.data?.burners || [],
+      extractors: json.data?.extractors || [],
+    };
   } catch {
-    return [];
+    return { burners: [], extractors: [] };
   }
 }
 
 export default async function HomePage() {
-  const [stats, topBurners, topExtractors] = await Promise.all([
-    getStats(),
-    getTopTokens("burners"),
-    getTopTokens("extractors"),
-  ]);
+  const [stats, topTokens] = await Promise.all([getStats(), getTopTokens()]);
+  const { burners: topBurners, extractors: topExtractors } = topTokens;
 
   const burnedToday = BigInt(stats?.last24h?.feesBurned || "0");
   const extractedToday = BigInt(stats?.last24h?.feesWithdrawn || "0");
@@ -132,7 +137,7 @@ export default async function HomePage() {
           <div className="divide-y divide-zinc-800">
             {topBurners.length === 0 ? (
               <div className="px-6 py-8 text-center text-zinc-500">
-                No tokens tracked yet. Index some tokens to see data.
+                No burns in the last 24h.
               </div>
             ) : (
               topBurners.map((token) => {
@@ -187,7 +192,7 @@ export default async function HomePage() {
           <div className="divide-y divide-zinc-800">
             {topExtractors.length === 0 ? (
               <div className="px-6 py-8 text-center text-zinc-500">
-                No extractors found. Good news!
+                No withdrawals in the last 24h. Good news!
               </div>
             ) : (
               topExtractors.map((token) => {
@@ -245,11 +250,11 @@ export default async function HomePage() {
             <div className="flex items-center gap-8">
               <div className="text-center">
                 <div className="text-3xl font-bold text-burn">{formatPercentage(featuredToken.burnPercentage)}</div>
-                <div className="text-sm text-zinc-500">Burn Rate</div>
+                <div className="text-sm text-zinc-500">24h Burn Rate</div>
               </div>
               <div className="text-center">
                 <div className="text-3xl font-bold text-white">{formatSol(BigInt(featuredToken.totalFeesBurned))}</div>
-                <div className="text-sm text-zinc-500">SOL Burned</div>
+                <div className="text-sm text-zinc-500">SOL Burned (24h)</div>
               </div>
               <a
                 href={`/token/${featuredToken.mint}`}
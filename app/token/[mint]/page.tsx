@@ -10,6 +10,7 @@ import {
   getPumpFunUrl,
 } from "@/lib/utils";
 import { notFound } from "next/navigation";
+import { FeeTimeseriesChart } from "@/components/FeeTimeseriesChart";
 
 const API_BASE = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
 
@@ -27,18 +28,53 @@ interface TokenData {
   totalFeesHeld: string;
   burnPercentage: number;
   badgeTier: string | null;
+  tokenBurns: {
+    totalTokensBurned: string; // Whole tokens
+    tokenBurnSpentLamports: string;
+    supplyBurnedPercentage: number;
+    avgSolPerToken: number | null;
+    tokenSupply: string | null;
+    tokenDecimals: number | null;
+  };
+  ccm: {
+    token: CCMData;
+    creator: CCMData | null;
+  };
+  pohAudit: {
+    status: "consistent" | "drifted";
+    missingCount: number;
+    extraCount: number;
+    mismatchCount: number;
+    checkedAt: string;
+  } | null;
   createdAt: string;
   updatedAt: string;
   recentEvents: EventData[];
 }
 
+interface CCMData {
+  tier: "diamond" | "gold" | "silver" | "bronze" | "none";
+  burnRate: number;
+  verificationRate: number;
+  message: string;
+}
+
 interface EventData {
   id: number;
-  eventType: "collect" | "burn" | "withdraw";
+  eventType: "collect" | "burn" | "withdraw" | "protocol_fee";
   amountLamports: string;
-  signature: string;
+  signature: string | null; // Null while the transaction is still being resolved
   blockTime: string;
+  source: string | null;
+  confidence: "high" | "medium" | "low" | null;
+  reasons: string[];
+  overridden: boolean;
+  classifiedType: EventData["eventType"] | null;
+  provisional: boolean;
+  unresolved: boolean;
   burnedTokenMint: string | null;
+  burnType: "direct" | "buyback" | "engine" | "unknown" | null;
+  burnVerified: boolean;
 }
 
 async function getToken(mint: string): Promise<TokenData | null> {
@@ -58,12 +94,47 @@ const eventIcons = {
   collect: "📥",
   burn: "🔥",
   withdraw: "💸",
+  protocol_fee: "🏛️",
 };
 
 const eventColors = {
   collect: "text-blue-400",
   burn: "text-red-400",
   withdraw: "text-zinc-400",
+  protocol_fee: "text-purple-400",
+};
+
+const eventLabels = {
+  collect: "Collect",
+  burn: "Burn",
+  withdraw: "Withdraw",
+  protocol_fee: "Protocol Fee",
+};
+
+const ccmTierStyles = {
+  diamond: { label: "💎 Diamond", className: "bg-cyan-500/10 text-cyan-300" },
+  gold: { label: "🥇 Gold", className: "bg-yellow-500/10 text-yellow-400" },
+  silver: { label: "🥈 Silver", className: "bg-zinc-400/10 text-zinc-300" },
+  bronze: { label: "🥉 Bronze", className: "bg-orange-500/10 text-orange-400" },
+  none: { label: "No CCM tier", className: "bg-zinc-700/50 text-zinc-500" },
+};
+
+const pohAuditStyles = {
+  consistent: { label: "PoH ✓ In sync", className: "bg-green-500/10 text-green-400" },
+  drifted: { label: "PoH drift", className: "bg-red-500/10 text-red-400" },
+};
+
+const burnTypeLabels = {
+  direct: "Direct burn",
+  buyback: "Buyback & burn",
+  engine: "Burn engine",
+  unknown: "Unverified burn",
+};
+
+const confidenceStyles = {
+  high: { label: "Proven", className: "bg-green-500/10 text-green-400" },
+  medium: { label: "Likely", className: "bg-yellow-500/10 text-yellow-400" },
+  low: { label: "Inferred", className: "bg-zinc-700/50 text-zinc-400" },
 };
 
 interface PageProps {
@@ -121,6 +192,31 @@ export default async function TokenPage({ params }: PageProps) {
             >
               {badge.name}
             </div>
+            <div
+              className={`mt-2 px-2 py-0.5 rounded text-xs font-medium ${ccmTierStyles[token.ccm.token.tier].className}`}
+              title={
+                `${token.ccm.token.message} (verified burns: ${token.ccm.token.verificationRate.toFixed(0)}%)` +
+                (token.ccm.creator ? ` · Creator: ${ccmTierStyles[token.ccm.creator.tier].label}` : "")
+              }
+            >
+              CCM: {ccmTierStyles[token.ccm.token.tier].label}
+            </div>
+            {token.pohAudit ? (
+              <div
+                className={`mt-1 px-2 py-0.5 rounded text-xs font-medium ${pohAuditStyles[token.pohAudit.status].className}`}
+                title={
+                  `Fee events vs PoH chain, checked ${formatRelativeTime(new Date(token.pohAudit.checkedAt))}: ` +
+                  `${token.pohAudit.missingCount} missing, ${token.pohAudit.extraCount} extra, ` +
+                  `${token.pohAudit.mismatchCount} mismatched`
+                }
+              >
+                {pohAuditStyles[token.pohAudit.status].label}
+              </div>
+            ) : (
+              <div className="mt-1 px-2 py-0.5 rounded text-xs font-medium bg-zinc-700/50 text-zinc-500">
+                PoH not audited
+              </div>
+            )}
           </div>
 
           {/* Token Info */}
@@ -131,14 +227,12 @@ export default async function TokenPage({ params }: PageProps) {
             <div className="flex flex-wrap gap-4 text-sm">
               <div>
                 <span className="text-zinc-500">Creator:</span>{" "}
-                <a
-                  href={`https://solscan.io/account/${token.creatorWallet}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
+                <Link
+                  href={`/creator/${token.creatorWallet}`}
                   className="text-fire-400 hover:underline"
                 >
                   {shortenAddress(token.creatorWallet)}
-                </a>
+                </Link>
               </div>
               <div>
                 <span className="text-zinc-500">Since:</span>{" "}
@@ -200,6 +294,34 @@ export default async function TokenPage({ params }: PageProps) {
         </div>
       </div>
 
+      {/* Token Buybacks */}
+      {BigInt(token.tokenBurns.totalTokensBurned) > BigInt(0) && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+            <div className="text-zinc-500 text-sm mb-1">🪙 Tokens Burned</div>
+            <div className="text-xl font-bold text-burn">
+              {BigInt(token.tokenBurns.totalTokensBurned).toLocaleString("en-US")} ${token.symbol}
+            </div>
+          </div>
+          <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+            <div className="text-zinc-500 text-sm mb-1">Supply Burned</div>
+            <div className="text-xl font-bold text-white">
+              {token.tokenBurns.tokenSupply !== null
+                ? formatPercentage(token.tokenBurns.supplyBurnedPercentage, 2)
+                : "—"}
+            </div>
+          </div>
+          <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-4">
+            <div className="text-zinc-500 text-sm mb-1">Avg Buyback Price</div>
+            <div className="text-xl font-bold text-white">
+              {token.tokenBurns.avgSolPerToken !== null
+                ? `${token.tokenBurns.avgSolPerToken.toPrecision(3)} SOL`
+                : "—"}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Distribution Bar */}
       <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-6 mb-6">
         <h3 className="font-semibold text-white mb-4">Fee Distribution</h3>
@@ -245,6 +367,9 @@ export default async function TokenPage({ params }: PageProps) {
         </div>
       </div>
 
+      {/* Fee History Chart */}
+      <FeeTimeseriesChart mint={mint} />
+
       {/* Recent Activity */}
       <div className="bg-surface-secondary rounded-xl border border-zinc-800 overflow-hidden">
         <div className="px-6 py-4 border-b border-zinc-800 flex items-center justify-between">
@@ -270,13 +395,66 @@ export default async function TokenPage({ params }: PageProps) {
                 <div className="flex items-center gap-4">
                   <span className="text-2xl">{eventIcons[event.eventType]}</span>
                   <div>
-                    <div className={`font-medium ${eventColors[event.eventType]}`}>
-                      {event.eventType.charAt(0).toUpperCase() +
-                        event.eventType.slice(1)}
+                    <div className="flex items-center gap-2">
+                      <span className={`font-medium ${eventColors[event.eventType]}`}>
+                        {eventLabels[event.eventType]}
+                      </span>
+                      {event.confidence && (
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${confidenceStyles[event.confidence].className}`}
+                          title={event.reasons.join(", ")}
+                        >
+                          {confidenceStyles[event.confidence].label}
+                        </span>
+                      )}
+                      {event.eventType === "burn" && event.burnType && (
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${
+                            event.burnVerified ? "bg-red-500/10 text-red-400" : "bg-zinc-700/50 text-zinc-400"
+                          }`}
+                          title={event.burnVerified ? "Verified against the burn engine" : "Burn engine could not verify this burn"}
+                        >
+                          {burnTypeLabels[event.burnType]}
+                          {event.burnVerified ? " ✓" : ""}
+                        </span>
+                      )}
+                      {event.overridden && (
+                        <span
+                          className="px-2 py-0.5 rounded text-xs font-medium bg-orange-500/10 text-orange-400"
+                          title={
+                            event.classifiedType
+                              ? `Originally classified as ${eventLabels[event.classifiedType]}`
+                              : undefined
+                          }
+                        >
+                          Reclassified
+                        </span>
+                      )}
+                      {event.provisional && (
+                        <span
+                          className="px-2 py-0.5 rounded text-xs font-medium bg-sky-500/10 text-sky-400"
+                          title="Seen at confirmed commitment; awaiting finalization"
+                        >
+                          Not final
+                        </span>
+                      )}
+                      {event.unresolved && (
+                        <span
+                          className="px-2 py-0.5 rounded text-xs font-medium bg-red-500/10 text-red-400"
+                          title="No matching transaction was found for this balance change"
+                        >
+                          Unresolved
+                        </span>
+                      )}
                     </div>
                     <div className="text-sm text-zinc-500">
                       {formatRelativeTime(new Date(event.blockTime))}
                     </div>
+                    {event.reasons.length > 0 && (
+                      <div className="text-xs text-zinc-600">
+                        {event.reasons.join(" · ")}
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-4">
@@ -285,14 +463,23 @@ export default async function TokenPage({ params }: PageProps) {
                       {formatSol(BigInt(event.amountLamports))} SOL
                     </div>
                   </div>
-                  <a
-                    href={getSolscanTxUrl(event.signature)}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-zinc-500 hover:text-fire-400 transition-colors"
-                  >
-                    tx ↗
-                  </a>
+                  {event.signature ? (
+                    <a
+                      href={getSolscanTxUrl(event.signature)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-zinc-500 hover:text-fire-400 transition-colors"
+                    >
+                      tx ↗
+                    </a>
+                  ) : (
+                    <span
+                      className="text-zinc-600"
+                      title={event.unresolved ? "Transaction not found" : "Resolving transaction signature"}
+                    >
+                      tx …
+                    </span>
+                  )}
                 </div>
               </div>
             ))
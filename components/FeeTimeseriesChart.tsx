@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+} from "recharts";
+import { lamportsToSol, cn } from "@/lib/utils";
+
+interface BucketData {
+  bucketStart: string;
+  collected: string;
+  burned: string;
+  withdrawn: string;
+  cumulativeBurnPercentage: number;
+}
+
+interface ApiResponse {
+  success: boolean;
+  data: {
+    buckets: BucketData[];
+  };
+}
+
+type IntervalType = "hour" | "day" | "week";
+
+interface FeeTimeseriesChartProps {
+  mint: string;
+}
+
+export function FeeTimeseriesChart({ mint }: FeeTimeseriesChartProps) {
+  const [buckets, setBuckets] = useState<BucketData[]>([]);
+  const [bucketInterval, setBucketInterval] = useState<IntervalType>("day");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBuckets = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/tokens/${mint}/timeseries?interval=${bucketInterval}`);
+        const data: ApiResponse = await response.json();
+
+        if (data.success) {
+          setBuckets(data.data.buckets);
+        } else {
+          setError("Failed to fetch fee history");
+        }
+      } catch {
+        setError("Network error");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBuckets();
+  }, [mint, bucketInterval]);
+
+  const chartData = buckets.map((bucket) => ({
+    label: new Date(bucket.bucketStart).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      ...(bucketInterval === "hour" ? { hour: "2-digit" } : {}),
+    }),
+    collected: lamportsToSol(BigInt(bucket.collected)),
+    burned: lamportsToSol(BigInt(bucket.burned)),
+    withdrawn: lamportsToSol(BigInt(bucket.withdrawn)),
+    burnPercentage: bucket.cumulativeBurnPercentage,
+  }));
+
+  const intervalButtons: { value: IntervalType; label: string }[] = [
+    { value: "hour", label: "Hourly" },
+    { value: "day", label: "Daily" },
+    { value: "week", label: "Weekly" },
+  ];
+
+  return (
+    <div className="bg-surface-secondary rounded-xl border border-zinc-800 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-white">Fee History</h3>
+        <div className="flex gap-2" role="group" aria-label="Chart interval">
+          {intervalButtons.map((btn) => (
+            <button
+              key={btn.value}
+              onClick={() => setBucketInterval(btn.value)}
+              className={cn(
+                "px-3 py-1 rounded-lg text-sm font-medium transition-colors",
+                bucketInterval === btn.value
+                  ? "bg-zinc-700 text-white"
+                  : "bg-surface-tertiary text-zinc-500 hover:text-white"
+              )}
+            >
+              {btn.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && (
+        <div className="h-72 flex items-center justify-center text-zinc-500">
+          Loading...
+        </div>
+      )}
+
+      {!loading && error && (
+        <div className="h-72 flex items-center justify-center text-red-400">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && chartData.length === 0 && (
+        <div className="h-72 flex items-center justify-center text-zinc-500">
+          No fee events recorded yet.
+        </div>
+      )}
+
+      {!loading && !error && chartData.length > 0 && (
+        <div className="h-72" aria-label="Stacked fee history chart">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid stroke="#3f3f46" strokeDasharray="3 3" />
+              <XAxis dataKey="label" stroke="#71717a" fontSize={12} />
+              <YAxis yAxisId="sol" stroke="#71717a" fontSize={12} />
+              <YAxis
+                yAxisId="pct"
+                orientation="right"
+                domain={[0, 100]}
+                stroke="#71717a"
+                fontSize={12}
+                tickFormatter={(value: number) => `${value}%`}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: "#27272a", border: "1px solid #3f3f46" }}
+                labelStyle={{ color: "#fff" }}
+              />
+              <Legend />
+              <Bar yAxisId="sol" dataKey="collected" name="Collected (SOL)" stackId="fees" fill="#3b82f6" />
+              <Bar yAxisId="sol" dataKey="burned" name="Burned (SOL)" stackId="fees" fill="#ef4444" />
+              <Bar yAxisId="sol" dataKey="withdrawn" name="Withdrawn (SOL)" stackId="fees" fill="#6b7280" />
+              <Line
+                yAxisId="pct"
+                type="monotone"
+                dataKey="burnPercentage"
+                name="Cumulative Burn %"
+                stroke="#f97316"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { authenticateAdmin, parseAdminKeys } from "./admin-auth";
+
+const keys = parseAdminKeys("alice:alice-secret-key-0001,bob:bob-secret-key-00002");
+
+describe("parseAdminKeys", () => {
+  it("parses named keys", () => {
+    expect(keys).toEqual([
+      { name: "alice", key: "alice-secret-key-0001" },
+      { name: "bob", key: "bob-secret-key-00002" },
+    ]);
+  });
+
+  it("skips malformed and short entries", () => {
+    expect(parseAdminKeys("no-separator,:nameless-key-000000,carol:short")).toEqual([]);
+    expect(parseAdminKeys(undefined)).toEqual([]);
+  });
+});
+
+describe("authenticateAdmin", () => {
+  it("returns the name of the matching key as actor", () => {
+    expect(authenticateAdmin("Bearer bob-secret-key-00002", keys)).toEqual({
+      valid: true,
+      actor: "bob",
+    });
+  });
+
+  it("rejects missing, malformed and unknown credentials", () => {
+    expect(authenticateAdmin(null, keys).valid).toBe(false);
+    expect(authenticateAdmin("alice-secret-key-0001", keys).valid).toBe(false);
+    expect(authenticateAdmin("Bearer alice-secret-key-0002", keys).valid).toBe(false);
+  });
+
+  it("fails closed when no keys are configured", () => {
+    expect(authenticateAdmin("Bearer anything-at-all-000", [])).toEqual({
+      valid: false,
+      error: "Admin API not configured",
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Admin Authentication
+ * Named admin API keys with timing-safe comparison
+ *
+ * ADMIN_API_KEYS="alice:<key>,bob:<key>" - the name is recorded as the actor in audit trails
+ */
+
+import { timingSafeEqual } from "crypto";
+
+export interface AdminKey {
+  name: string;
+  key: string;
+}
+
+export type AdminAuthResult =
+  | { valid: true; actor: string }
+  | { valid: false; error: string };
+
+// Keys shorter than this are rejected as misconfiguration
+const MIN_KEY_LENGTH = 16;
+
+/**
+ * Parse the ADMIN_API_KEYS env format into named keys
+ * Malformed or too-short entries are skipped
+ */
+export function parseAdminKeys(raw: string | undefined): AdminKey[] {
+  if (!raw) return [];
+
+  const keys: AdminKey[] = [];
+  for (const entry of raw.split(",")) {
+    const separator = entry.indexOf(":");
+    if (separator <= 0) continue;
+
+    const name = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (!name || key.length < MIN_KEY_LENGTH) continue;
+
+    keys.push({ name, key });
+  }
+  return keys;
+}
+
+/**
+ * Timing-safe string comparison to prevent timing attacks
+ */
+function secureCompare(a: string, b: string): boolean {
+  // Pad to same length to prevent length-based timing leaks
+  const maxLength = Math.max(a.length, b.length);
+  const bufA = Buffer.alloc(maxLength);
+  const bufB = Buffer.alloc(maxLength);
+
+  bufA.write(a);
+  bufB.write(b);
+
+  return a.length === b.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Authenticate an Authorization header against the configured admin keys
+ * Every key is compared so the response time does not reveal which one matched
+ */
+export function authenticateAdmin(
+  authHeader: string | null,
+  keys: AdminKey[] = parseAdminKeys(process.env.ADMIN_API_KEYS)
+): AdminAuthResult {
+  if (keys.length === 0) {
+    console.error("❌ ADMIN_API_KEYS not configured");
+    return { valid: false, error: "Admin API not configured" };
+  }
+
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return { valid: false, error: "Unauthorized" };
+  }
+
+  const token = authHeader.slice("Bearer ".length).trim();
+  let actor: string | null = null;
+
+  for (const { name, key } of keys) {
+    if (secureCompare(token, key) && actor === null) {
+      actor = name;
+    }
+  }
+
+  if (actor === null) {
+    console.warn("⚠️ Invalid admin API key attempted");
+    return { valid: false, error: "Unauthorized" };
+  }
+
+  return { valid: true, actor };
+}
@@ -0,0 +1,34 @@
+/**
+ * API Key Authentication for route handlers
+ * Trusts the key the middleware verified, or verifies it here when the middleware could not
+ */
+
+import { touchApiKey } from "./db";
+import {
+  API_KEY_HEADER,
+  getForwardedApiKey,
+  hashApiKey,
+  isApiKeyTier,
+  isApiKeysEnabled,
+  isWellFormedApiKey,
+  type ResolvedApiKey,
+} from "./api-keys";
+
+/**
+ * The caller's verified API key, or null for anonymous, unknown and revoked keys
+ * Usage is counted once: by the middleware when it resolved the key, otherwise here
+ */
+export async function authenticateApiKey(request: Request): Promise<ResolvedApiKey | null> {
+  if (!isApiKeysEnabled()) return null;
+
+  const forwarded = getForwardedApiKey(request.headers);
+  if (forwarded) return forwarded;
+
+  const key = request.headers.get(API_KEY_HEADER)?.trim();
+  if (!key || !isWellFormedApiKey(key)) return null;
+
+  const row = await touchApiKey(await hashApiKey(key));
+  if (!row || !isApiKeyTier(row.tier)) return null;
+
+  return { id: row.id, tier: row.tier };
+}
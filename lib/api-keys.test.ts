@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSupabaseApiKeyResolver,
+  generateApiKey,
+  getApiKeyPrefix,
+  getForwardedApiKey,
+  hashApiKey,
+  isWellFormedApiKey,
+} from "./api-keys";
+
+describe("generateApiKey", () => {
+  it("generates distinct well-formed keys", () => {
+    const first = generateApiKey();
+    const second = generateApiKey();
+
+    expect(isWellFormedApiKey(first)).toBe(true);
+    expect(first).not.toBe(second);
+    expect(getApiKeyPrefix(first)).toBe(first.slice(0, 10));
+  });
+
+  it("rejects keys of the wrong shape", () => {
+    expect(isWellFormedApiKey("pft_short")).toBe(false);
+    expect(isWellFormedApiKey(`sk_${"a".repeat(48)}`)).toBe(false);
+  });
+});
+
+describe("hashApiKey", () => {
+  it("returns the SHA-256 hex digest", async () => {
+    expect(await hashApiKey("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("createSupabaseApiKeyResolver", () => {
+  const respond = (rows: unknown[]) =>
+    (async () => new Response(JSON.stringify(rows))) as typeof fetch;
+
+  it("returns the id and tier of an active key", async () => {
+    const resolve = createSupabaseApiKeyResolver(
+      "https://db.example.co",
+      "service-key",
+      respond([{ id: 4, tier: "partner" }])
+    );
+
+    expect(await resolve("hash")).toEqual({ id: 4, tier: "partner" });
+  });
+
+  it("returns null for unknown or revoked keys and unknown tiers", async () => {
+    const none = createSupabaseApiKeyResolver("https://db.example.co", "k", respond([]));
+    const legacy = createSupabaseApiKeyResolver(
+      "https://db.example.co",
+      "k",
+      respond([{ id: 4, tier: "enterprise" }])
+    );
+
+    expect(await none("hash")).toBeNull();
+    expect(await legacy("hash")).toBeNull();
+  });
+});
+
+describe("getForwardedApiKey", () => {
+  it("reads the key the middleware verified", () => {
+    const headers = new Headers({ "x-api-key-id": "12", "x-api-key-tier": "developer" });
+    expect(getForwardedApiKey(headers)).toEqual({ id: 12, tier: "developer" });
+  });
+
+  it("ignores missing or malformed headers", () => {
+    expect(getForwardedApiKey(new Headers())).toBeNull();
+    expect(getForwardedApiKey(new Headers({ "x-api-key-id": "x", "x-api-key-tier": "partner" }))).toBeNull();
+    expect(getForwardedApiKey(new Headers({ "x-api-key-id": "3", "x-api-key-tier": "admin" }))).toBeNull();
+  });
+});
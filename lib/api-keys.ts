@@ -0,0 +1,161 @@
+/**
+ * Integrator API Keys
+ * Key format, hashing, tiers and Edge-side lookup
+ *
+ * Keys are shown once at creation; only their SHA-256 hash is stored (api_keys.key_hash).
+ * Everything here must stay Edge-safe: it runs in the middleware.
+ */
+
+import type { RateLimitPresetName } from "./rate-limit";
+
+// Header callers send their key in
+export const API_KEY_HEADER = "x-api-key";
+
+// Headers the middleware forwards to route handlers once a key is verified
+// Always stripped from incoming requests, so routes can trust them
+export const API_KEY_ID_HEADER = "x-api-key-id";
+export const API_KEY_TIER_HEADER = "x-api-key-tier";
+
+// PostgREST endpoint of the Supabase project that owns the api_keys table
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Integrator keys are opt-in (API_KEYS_ENABLED=true); they need the Supabase REST API
+const API_KEYS_ENABLED = process.env.API_KEYS_ENABLED === "true";
+
+const KEY_PREFIX = "pft_";
+const KEY_BYTES = 24;
+
+/**
+ * Rate limit preset per tier, for regular and heavy (export) endpoints
+ */
+export const API_KEY_TIERS = {
+  developer: { preset: "lenient", heavyPreset: "strict" },
+  partner: { preset: "partner", heavyPreset: "standard" },
+} as const satisfies Record<
+  string,
+  { preset: RateLimitPresetName; heavyPreset: RateLimitPresetName }
+>;
+
+export type ApiKeyTier = keyof typeof API_KEY_TIERS;
+
+export function isApiKeyTier(value: string): value is ApiKeyTier {
+  return value in API_KEY_TIERS;
+}
+
+/**
+ * A verified, unrevoked key
+ */
+export interface ResolvedApiKey {
+  id: number;
+  tier: ApiKeyTier;
+}
+
+/**
+ * Look up an unrevoked key by hash and count the request against it
+ */
+export type ApiKeyResolver = (keyHash: string) => Promise<ResolvedApiKey | null>;
+
+/**
+ * Generate a new random key, e.g. pft_3f9c…
+ */
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+  return KEY_PREFIX + Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Whether a string has the shape of a generated key
+ */
+export function isWellFormedApiKey(key: string): boolean {
+  return new RegExp(`^${KEY_PREFIX}[0-9a-f]{${KEY_BYTES * 2}}$`).test(key);
+}
+
+/**
+ * Short, non-secret label for a key, stored to tell keys apart in listings
+ */
+export function getApiKeyPrefix(key: string): string {
+  return key.slice(0, KEY_PREFIX.length + 6);
+}
+
+/**
+ * SHA-256 hex digest of an API key, so raw keys never reach the database or a store
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Resolve keys through Supabase's PostgREST API (the api_key_touch() function),
+ * which works on the Edge runtime and bumps the key's usage counters in the same call
+ */
+export function createSupabaseApiKeyResolver(
+  url: string,
+  serviceRoleKey: string,
+  fetchImpl: typeof fetch = fetch
+): ApiKeyResolver {
+  const endpoint = `${url.replace(/\/$/, "")}/rest/v1/rpc/api_key_touch`;
+
+  return async (keyHash) => {
+    const response = await fetchImpl(endpoint, {
+      method: "POST",
+      headers: {
+        apikey: serviceRoleKey,
+        Authorization: `Bearer ${serviceRoleKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ p_key_hash: keyHash }),
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      throw new Error(`api_key_touch failed with status ${response.status}`);
+    }
+
+    const rows = (await response.json()) as { id: number; tier: string }[];
+    const row = rows[0];
+    if (!row || !isApiKeyTier(row.tier)) return null;
+
+    return { id: row.id, tier: row.tier };
+  };
+}
+
+export function isApiKeysEnabled(): boolean {
+  return API_KEYS_ENABLED;
+}
+
+/**
+ * The middleware's resolver, or null when keys are off or cannot be verified there
+ * A missing Supabase config is logged in production and keyed requests fall back to
+ * anonymous IP quotas; route handlers still verify keys they require themselves
+ */
+export function getApiKeyResolver(): ApiKeyResolver | null {
+  if (!API_KEYS_ENABLED) return null;
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    if (process.env.NODE_ENV === "production") {
+      console.error(
+        "API_KEYS_ENABLED needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; " +
+          "keyed requests get anonymous rate limits"
+      );
+    }
+    return null;
+  }
+  return createSupabaseApiKeyResolver(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+}
+
+/**
+ * Read the key the middleware verified from forwarded request headers
+ */
+export function getForwardedApiKey(headers: Headers): ResolvedApiKey | null {
+  const id = Number(headers.get(API_KEY_ID_HEADER));
+  const tier = headers.get(API_KEY_TIER_HEADER);
+
+  if (!Number.isInteger(id) || id <= 0 || !tier || !isApiKeyTier(tier)) {
+    return null;
+  }
+  return { id, tier };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  attributeBalanceChange,
+  getAccountLamportDelta,
+  type AddressTransaction,
+} from "./balance-attribution";
+
+const tx = (signature: string, slot: number, delta: number): AddressTransaction => ({
+  signature,
+  slot,
+  delta: BigInt(delta),
+});
+
+describe("attributeBalanceChange", () => {
+  it("splits a burst into one event per transaction", () => {
+    const candidates = [tx("b", 101, 2_000), tx("a", 100, 5_000)];
+    const result = attributeBalanceChange(BigInt(7_000), candidates);
+
+    expect(result.matched.map((c) => c.signature)).toEqual(["a", "b"]);
+    expect(result.unmatchedDelta).toBe(BigInt(0));
+  });
+
+  it("picks the single transaction whose delta matches exactly", () => {
+    const result = attributeBalanceChange(BigInt(-3_000), [tx("a", 100, 1_000), tx("b", 100, -3_000)]);
+
+    expect(result.matched.map((c) => c.signature)).toEqual(["b"]);
+  });
+
+  it("matches the oldest run and leaves later transactions for the next notification", () => {
+    const result = attributeBalanceChange(BigInt(3_000), [
+      tx("c", 102, 9_000),
+      tx("b", 101, 2_000),
+      tx("a", 100, 1_000),
+    ]);
+
+    expect(result.matched.map((c) => c.signature)).toEqual(["a", "b"]);
+    expect(result.unmatchedDelta).toBe(BigInt(0));
+  });
+
+  it("leaves the change unmatched when no transaction accounts for it", () => {
+    expect(attributeBalanceChange(BigInt(4_000), [tx("a", 100, 1_000)])).toEqual({
+      matched: [],
+      unmatchedDelta: BigInt(4_000),
+    });
+    expect(attributeBalanceChange(BigInt(4_000), []).unmatchedDelta).toBe(BigInt(4_000));
+  });
+});
+
+describe("getAccountLamportDelta", () => {
+  const snapshot = {
+    accountKeys: ["payer", "vault"],
+    preBalances: [10_000, 500],
+    postBalances: [4_000, 6_000],
+  };
+
+  it("reads the address delta from pre/post balances", () => {
+    expect(getAccountLamportDelta(snapshot, "vault")).toBe(BigInt(5_500));
+    expect(getAccountLamportDelta(snapshot, "payer")).toBe(BigInt(-6_000));
+  });
+
+  it("returns null for addresses not in the transaction", () => {
+    expect(getAccountLamportDelta(snapshot, "other")).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Balance Change Attribution
+ * Matches an account's lamport delta to the exact transactions that produced it
+ */
+
+export interface AddressTransaction {
+  signature: string;
+  slot: number;
+  blockTime?: number | null; // Unix seconds, when the cluster reports it
+  delta: bigint; // Lamport change of the tracked address in this transaction
+}
+
+export interface Attribution {
+  matched: AddressTransaction[]; // Oldest first, each claimed by exactly one balance change
+  unmatchedDelta: bigint; // Part of the change no transaction accounts for (0 when fully matched)
+}
+
+/**
+ * Minimal transaction shape needed to read an account's lamport delta
+ */
+export interface BalanceSnapshot {
+  accountKeys: string[];
+  preBalances: number[];
+  postBalances: number[];
+}
+
+/**
+ * Lamport delta of an address in a transaction, or null if the address is not an account key
+ */
+export function getAccountLamportDelta(tx: BalanceSnapshot, address: string): bigint | null {
+  const index = tx.accountKeys.indexOf(address);
+  if (index < 0 || tx.preBalances[index] === undefined || tx.postBalances[index] === undefined) {
+    return null;
+  }
+  return BigInt(tx.postBalances[index]) - BigInt(tx.preBalances[index]);
+}
+
+/**
+ * Attribute a balance change to candidate transactions from the (previous, current] slot range
+ *
+ * Tries, in order: every candidate together, a single exact candidate, then the
+ * shortest oldest-first run whose deltas sum to the change. Anything else is left
+ * unmatched so it can be surfaced as a reconciliation event instead of guessed.
+ */
+export function attributeBalanceChange(
+  change: bigint,
+  candidates: AddressTransaction[]
+): Attribution {
+  const ordered = candidates
+    .filter((c) => c.delta !== BigInt(0))
+    .sort((a, b) => a.slot - b.slot);
+
+  if (ordered.length === 0) {
+    return { matched: [], unmatchedDelta: change };
+  }
+
+  const total = ordered.reduce((sum, c) => sum + c.delta, BigInt(0));
+  if (total === change) {
+    return { matched: ordered, unmatchedDelta: BigInt(0) };
+  }
+
+  const exact = ordered.find((c) => c.delta === change);
+  if (exact) {
+    return { matched: [exact], unmatchedDelta: BigInt(0) };
+  }
+
+  // Later transactions may belong to a notification that has not arrived yet
+  let running = BigInt(0);
+  for (let i = 0; i < ordered.length; i++) {
+    running += ordered[i].delta;
+    if (running === change) {
+      return { matched: ordered.slice(0, i + 1), unmatchedDelta: BigInt(0) };
+    }
+  }
+
+  return { matched: [], unmatchedDelta: change };
+}
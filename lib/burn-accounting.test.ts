@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { calculateSupplyBurnedPercentage, calculateAvgSolPerToken } from "./burn-accounting";
+
+describe("calculateSupplyBurnedPercentage", () => {
+  it("measures burns against the supply before they were burned", () => {
+    // 1B supply with 6 decimals, 10M tokens burned -> 990M left
+    const current = BigInt(990_000_000) * BigInt(1_000_000);
+    expect(calculateSupplyBurnedPercentage(BigInt(10_000_000), BigInt(0), current, 6)).toBe(1);
+  });
+
+  it("keeps four decimal places", () => {
+    const current = BigInt(999_999_000) * BigInt(1_000_000);
+    expect(calculateSupplyBurnedPercentage(BigInt(1_000), BigInt(0), current, 6)).toBe(0.0001);
+  });
+
+  it("counts transfer-burns against the current supply, which still holds them", () => {
+    // 1B supply: 10M SPL-burned leaves 990M, of which 10M sit in the incinerator
+    const current = BigInt(990_000_000) * BigInt(1_000_000);
+    expect(calculateSupplyBurnedPercentage(BigInt(0), BigInt(10_000_000), current, 6)).toBe(1.0101);
+    expect(calculateSupplyBurnedPercentage(BigInt(10_000_000), BigInt(10_000_000), current, 6)).toBe(2);
+  });
+
+  it("returns 0 with no supply", () => {
+    expect(calculateSupplyBurnedPercentage(BigInt(0), BigInt(0), BigInt(0), 6)).toBe(0);
+  });
+});
+
+describe("calculateAvgSolPerToken", () => {
+  it("divides SOL spent by whole tokens burned", () => {
+    expect(calculateAvgSolPerToken(BigInt(2_000_000_000), BigInt(4_000))).toBe(0.0005);
+  });
+
+  it("returns null when no tokens were burned", () => {
+    expect(calculateAvgSolPerToken(BigInt(1_000), BigInt(0))).toBeNull();
+  });
+});
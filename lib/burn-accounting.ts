@@ -0,0 +1,43 @@
+/**
+ * Token Burn Accounting
+ * Token-denominated burn metrics: share of supply destroyed and buyback price
+ */
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * Percentage of the original supply burned, to 4 decimal places
+ * SPL burns have left the current supply, so original supply = current supply + SPL burns;
+ * transfer-burns to the incinerator are still counted in the current supply
+ */
+export function calculateSupplyBurnedPercentage(
+  splTokensBurned: bigint,
+  transferTokensBurned: bigint,
+  currentSupply: bigint,
+  decimals: number
+): number {
+  const unit = BigInt(10) ** BigInt(decimals);
+  const splBaseUnits = splTokensBurned * unit;
+  const burnedBaseUnits = splBaseUnits + transferTokensBurned * unit;
+  const originalSupply = currentSupply + splBaseUnits;
+
+  if (originalSupply <= BigInt(0)) {
+    return 0;
+  }
+
+  return Number((burnedBaseUnits * BigInt(1_000_000)) / originalSupply) / 10_000;
+}
+
+/**
+ * Average SOL paid per whole token burned, or null if no token amounts are known
+ */
+export function calculateAvgSolPerToken(
+  spentLamports: bigint,
+  tokensBurned: bigint
+): number | null {
+  if (tokensBurned <= BigInt(0)) {
+    return null;
+  }
+
+  return Number(spentLamports) / LAMPORTS_PER_SOL / Number(tokensBurned);
+}
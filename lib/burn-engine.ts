@@ -6,6 +6,22 @@
 
 import { Connection, PublicKey } from "@solana/web3.js";
 import { getHeliusRpcUrl, NETWORK_INFO } from "./helius";
+import {
+  prisma,
+  recordBurnVerification,
+  getUncheckedBurns,
+  recordEcosystemContribution,
+  getEcosystemToken,
+  getEcosystemTotals,
+  recordEngineBurns,
+} from "./db";
+import {
+  extractEngineBurnLegs,
+  summarizeEngineTransaction,
+  getEngineInstructionType,
+  type EngineActivitySource,
+} from "./ecosystem";
+import { sleep } from "./utils";
 
 // ASDF Burn Engine Program ID
 export const BURN_ENGINE_PROGRAM_ID = "ASDFc5hkEM2MF8mrAAtCPieV6x6h1B5BwjgztFt7Xbui";
@@ -30,11 +46,12 @@ export interface BurnVerification {
   error?: string;
 }
 
+// SOL amounts in lamports: spent on buyback-and-burn, comparable across mints
 export interface BurnEngineStats {
   totalBurned: bigint;
   totalBuybacks: number;
-  lastBurnSlot: number;
-  lastBurnTimestamp: Date;
+  lastBurnSlot: number | null;
+  lastBurnTimestamp: Date | null;
   rootTokenBurned: bigint; // $ASDF specifically
   secondaryTokensBurned: bigint;
 }
@@ -49,7 +66,9 @@ export async function verifyBurnTransaction(
   const conn = connection || new Connection(getHeliusRpcUrl());
 
   try {
+    // Confirmed, so transactions reported by confirmed-commitment subscriptions are visible
     const tx = await conn.getParsedTransaction(signature, {
+      commitment: "confirmed",
       maxSupportedTransactionVersion: 0,
     });
 
@@ -140,7 +159,7 @@ export async function isASDFEcosystemToken(
 ): Promise<{
   isEcosystem: boolean;
   tokenType: "root" | "secondary" | "unknown";
-  rootContribution?: number; // percentage to root (44.8% for secondaries)
+  rootContribution?: number; // Observed percentage of fees routed to root
 }> {
   // Root token check
   if (tokenMint === ASDF_TOKEN_MINT) {
@@ -151,9 +170,16 @@ export async function isASDFEcosystemToken(
     };
   }
 
-  // Check if token interacts with burn engine
-  // This would require checking on-chain data for registered tokens
-  // For now, return unknown
+  // Secondaries are registered from observed burn engine activity
+  const registered = await getEcosystemToken(tokenMint);
+  if (registered?.tokenType === "secondary") {
+    return {
+      isEcosystem: true,
+      tokenType: "secondary",
+      rootContribution: Number(registered.rootContribution),
+    };
+  }
+
   return {
     isEcosystem: false,
     tokenType: "unknown",
@@ -161,27 +187,177 @@ export async function isASDFEcosystemToken(
 }
 
 /**
- * Get burn statistics for a specific token
+ * Log a burn engine transaction's burns and register it in the ecosystem registry
+ * Safe to repeat: burns and contributions already recorded for the signature are skipped
+ * Throws if the transaction cannot be found yet, so callers can retry it
  */
-export async function getTokenBurnStats(
-  tokenMint: string
-): Promise<{
+export async function recordEngineActivity(
+  signature: string,
+  source: EngineActivitySource,
+  connection?: Connection
+) {
+  const conn = connection || new Connection(getHeliusRpcUrl());
+  const tx = await conn.getParsedTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
+
+  if (!tx) {
+    throw new Error(`Transaction ${signature} not found`);
+  }
+
+  if (tx.meta?.err) {
+    return { logged: 0, contribution: null };
+  }
+
+  const legs = extractEngineBurnLegs(tx);
+  const slot = BigInt(tx.slot);
+  const blockTime = tx.blockTime ? new Date(tx.blockTime * 1000) : new Date();
+  const instructionType =
+    getEngineInstructionType(tx.meta?.logMessages, BURN_ENGINE_PROGRAM_ID) ?? "unknown";
+
+  const logged = await recordEngineBurns(
+    legs.map((leg) => ({
+      signature,
+      slot,
+      blockTime,
+      tokenMint: leg.mint,
+      amount: leg.amount,
+      lamports: leg.lamports,
+      instructionType,
+      source,
+    }))
+  );
+
+  const summary = summarizeEngineTransaction(legs, ASDF_TOKEN_MINT);
+  const contribution = summary
+    ? await recordEcosystemContribution({
+        ...summary,
+        signature,
+        slot,
+        blockTime,
+        discoveredVia: source,
+      })
+    : null;
+
+  return { logged, contribution };
+}
+
+/**
+ * Ecosystem-wide burn engine totals, split between the root token and secondaries
+ */
+export async function getBurnEngineStats(): Promise<BurnEngineStats> {
+  const totals = await getEcosystemTotals();
+
+  return {
+    totalBurned: totals.rootLamports + totals.secondaryLamports,
+    totalBuybacks: totals.transactionCount,
+    lastBurnSlot: totals.lastSlot !== null ? Number(totals.lastSlot) : null,
+    lastBurnTimestamp: totals.lastBlockTime,
+    rootTokenBurned: totals.rootLamports,
+    secondaryTokensBurned: totals.secondaryLamports,
+  };
+}
+
+export interface BurnStats {
   totalBurned: bigint;
   burnCount: number;
   lastBurn?: Date;
   verifiedBurns: number;
-}> {
-  // This would typically query indexed data
-  // For now, return placeholder
-  console.log(`Fetching burn stats for ${tokenMint} on ${NETWORK_INFO.cluster}`);
+}
+
+/**
+ * Aggregate stored burn events matching a filter
+ */
+async function aggregateBurns(tokenFilter: { mint?: string; creatorWallet?: string }): Promise<BurnStats> {
+  const where = { eventType: "burn", token: tokenFilter };
+
+  const [totals, verifiedBurns] = await Promise.all([
+    prisma.feeEvent.aggregate({
+      where,
+      _sum: { amountLamports: true },
+      _count: { id: true },
+      _max: { blockTime: true },
+    }),
+    prisma.feeEvent.count({ where: { ...where, burnVerified: true } }),
+  ]);
 
   return {
-    totalBurned: BigInt(0),
-    burnCount: 0,
-    verifiedBurns: 0,
+    totalBurned: totals._sum.amountLamports ?? BigInt(0),
+    burnCount: totals._count.id,
+    lastBurn: totals._max.blockTime ?? undefined,
+    verifiedBurns,
   };
 }
 
+/**
+ * Get burn statistics for a specific token
+ */
+export async function getTokenBurnStats(tokenMint: string): Promise<BurnStats> {
+  return aggregateBurns({ mint: tokenMint });
+}
+
+/**
+ * Get burn statistics across all of a creator's tokens
+ */
+export async function getCreatorBurnStats(creatorWallet: string): Promise<BurnStats> {
+  return aggregateBurns({ creatorWallet });
+}
+
+/**
+ * Verify a stored burn event and save its burn type and verified flag
+ * Lookup failures are left unchecked so a later pass can retry
+ */
+export async function verifyStoredBurn(
+  feeEventId: number,
+  signature: string,
+  connection?: Connection
+): Promise<BurnVerification> {
+  const verification = await verifyBurnTransaction(signature, connection);
+
+  if (!verification.error) {
+    await recordBurnVerification(feeEventId, verification);
+  }
+
+  // Engine burns from indexed history also feed the ecosystem registry
+  if (verification.burnType === "engine") {
+    try {
+      await recordEngineActivity(signature, "history", connection);
+    } catch (error) {
+      console.error(`Failed to register engine activity ${signature}:`, error);
+    }
+  }
+
+  return verification;
+}
+
+/**
+ * Verify burn events that have not been checked yet
+ * Returns the last id looked at (null when none were left) so callers can page past failures
+ */
+export async function verifyUncheckedBurns(
+  limit = 100,
+  connection?: Connection,
+  afterId = 0
+): Promise<{ checked: number; verified: number; failed: number; lastId: number | null }> {
+  const conn = connection || new Connection(getHeliusRpcUrl());
+  const burns = await getUncheckedBurns(limit, afterId);
+  const result = { checked: 0, verified: 0, failed: 0, lastId: burns.at(-1)?.id ?? null };
+
+  for (const burn of burns) {
+    const verification = await verifyStoredBurn(burn.id, burn.signature, conn);
+    if (verification.error) {
+      result.failed++;
+      continue;
+    }
+
+    result.checked++;
+    if (verification.verified) result.verified++;
+  }
+
+  return result;
+}
+
 /**
  * Verify burn engine program is deployed and active
  */
@@ -213,6 +389,10 @@ export async function verifyBurnEngineDeployment(
   }
 }
 
+// Lookups per monitored transaction before giving up, and the pause between them
+const MONITOR_LOOKUP_ATTEMPTS = 3;
+const MONITOR_RETRY_DELAY_MS = 2000;
+
 /**
  * Monitor burn engine activity in real-time
  */
@@ -244,16 +424,7 @@ export class BurnEngineMonitor {
       programPubkey,
       async (logs) => {
         console.log(`Burn Engine activity detected: ${logs.signature}`);
-
-        // Verify the burn
-        const verification = await verifyBurnTransaction(
-          logs.signature,
-          this.connection
-        );
-
-        if (verification.verified) {
-          this.onBurnDetected?.(verification);
-        }
+        await this.handleActivity(logs.signature);
       },
       "confirmed"
     );
@@ -261,6 +432,39 @@ export class BurnEngineMonitor {
     console.log("Burn Engine monitor active");
   }
 
+  /**
+   * Verify and record one engine transaction
+   * Lookups can briefly miss a just-confirmed transaction, so failures are retried
+   */
+  private async handleActivity(signature: string): Promise<void> {
+    let verification = await verifyBurnTransaction(signature, this.connection);
+    for (let attempt = 1; verification.error && attempt < MONITOR_LOOKUP_ATTEMPTS; attempt++) {
+      await sleep(MONITOR_RETRY_DELAY_MS);
+      verification = await verifyBurnTransaction(signature, this.connection);
+    }
+
+    if (verification.error) {
+      console.error(`Failed to verify engine activity ${signature}: ${verification.error}`);
+      return;
+    }
+    if (!verification.verified) return;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await recordEngineActivity(signature, "monitor", this.connection);
+        break;
+      } catch (error) {
+        if (attempt >= MONITOR_LOOKUP_ATTEMPTS) {
+          console.error(`Failed to register engine activity ${signature}:`, error);
+          break;
+        }
+        await sleep(MONITOR_RETRY_DELAY_MS);
+      }
+    }
+
+    this.onBurnDetected?.(verification);
+  }
+
   /**
    * Stop monitoring
    */
@@ -276,19 +480,23 @@ export class BurnEngineMonitor {
 /**
  * Calculate if a creator qualifies for CCM (Creator Capital Markets) recognition
  */
+export type CCMTier = "diamond" | "gold" | "silver" | "bronze" | "none";
+
+export interface CCMStatus {
+  qualifies: boolean;
+  burnRate: number;
+  verificationRate: number;
+  tier: CCMTier;
+  message: string;
+}
+
 export function calculateCCMStatus(stats: {
   totalCollected: bigint;
   totalBurned: bigint;
   totalWithdrawn: bigint;
   verifiedBurns: number;
   totalBurnTxs: number;
-}): {
-  qualifies: boolean;
-  burnRate: number;
-  verificationRate: number;
-  tier: "diamond" | "gold" | "silver" | "bronze" | "none";
-  message: string;
-} {
+}): CCMStatus {
   const burnRate =
     stats.totalCollected > 0
       ? Number((stats.totalBurned * BigInt(10000)) / stats.totalCollected) / 100
@@ -300,7 +508,7 @@ export function calculateCCMStatus(stats: {
       : 0;
 
   // CCM tiers based on burn rate AND verification rate
-  let tier: "diamond" | "gold" | "silver" | "bronze" | "none" = "none";
+  let tier: CCMTier = "none";
   let message = "";
 
   if (burnRate >= 95 && verificationRate >= 90) {
@@ -8,8 +8,10 @@ import {
   classifyTransaction,
   classifyTransactions,
   calculateEventStats,
+  isProtocolFeeRecipient,
+  registerProtocolFeeRecipient,
   type ParsedTransaction,
-  type ClassifiedEvent,
+  type EventStatsInput,
 } from "./classifier";
 
 // Test fixtures
@@ -18,6 +20,11 @@ const CREATOR_WALLET = "TSLvdd1pWpHVjahSpsvCXUbgwsL3JAcvokwaKt1eokM";
 const TOKEN_MINT = "61V8vBaqAGMpgDQi4JcAwo1dmBGHsyhzodcPqnEVpump";
 const JUPITER_V6 = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
 const BURN_ADDRESS = "1nc1nerator11111111111111111111111111111111";
+const PUMP_PROGRAM = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
+const PROTOCOL_FEE_RECIPIENT = "CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM";
+const PROTOCOL_FEE_RECIPIENT_2 = "62qc2CNXwrYqQScmEdiZFFAnJR262PxWEuNQtxfafNgV";
+const BONDING_CURVE = "5kTbXr9SguD2UYTsMB5tqE6UE9NV98NpvJ8JXBR8zdKT";
+const TRADER = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
 
 function createBaseTx(overrides: Partial<ParsedTransaction> = {}): ParsedTransaction {
   return {
@@ -242,6 +249,177 @@ describe("classifyTransaction", () => {
     });
   });
 
+  describe("protocol fee detection", () => {
+    it("counts only the creator share of a pump.fun buy as collect", () => {
+      // Buy: trader pays the curve, the protocol fee recipient and the creator vault
+      const tx = createBaseTx({
+        type: "SWAP",
+        source: "PUMP_FUN",
+        feePayer: TRADER,
+        nativeTransfers: [
+          { fromUserAccount: TRADER, toUserAccount: BONDING_CURVE, amount: 1000000000 },
+          { fromUserAccount: TRADER, toUserAccount: PROTOCOL_FEE_RECIPIENT, amount: 9500000 },
+          { fromUserAccount: TRADER, toUserAccount: CREATOR_VAULT, amount: 500000 },
+        ],
+        tokenTransfers: [
+          {
+            fromUserAccount: BONDING_CURVE,
+            toUserAccount: TRADER,
+            mint: TOKEN_MINT,
+            tokenAmount: 35000000,
+          },
+        ],
+        instructions: [{ programId: PUMP_PROGRAM, accounts: [], data: "", innerInstructions: [] }],
+      });
+
+      const result = classifyTransaction(tx, CREATOR_VAULT, CREATOR_WALLET, TOKEN_MINT);
+
+      expect(result?.type).toBe("collect");
+      expect(result?.amountLamports).toBe(BigInt(500000));
+    });
+
+    it("classifies SOL from a protocol fee recipient into the vault as protocol_fee", () => {
+      const tx = createBaseTx({
+        feePayer: PROTOCOL_FEE_RECIPIENT_2,
+        nativeTransfers: [
+          {
+            fromUserAccount: PROTOCOL_FEE_RECIPIENT_2,
+            toUserAccount: CREATOR_VAULT,
+            amount: 120000000,
+          },
+        ],
+      });
+
+      const result = classifyTransaction(tx, CREATOR_VAULT, CREATOR_WALLET, TOKEN_MINT);
+
+      expect(result?.type).toBe("protocol_fee");
+      expect(result?.amountLamports).toBe(BigInt(120000000));
+    });
+
+    it("classifies SOL from the vault to a protocol fee recipient as protocol_fee, not withdraw", () => {
+      const tx = createBaseTx({
+        nativeTransfers: [
+          {
+            fromUserAccount: CREATOR_VAULT,
+            toUserAccount: PROTOCOL_FEE_RECIPIENT,
+            amount: 3000000,
+          },
+        ],
+      });
+
+      const result = classifyTransaction(tx, CREATOR_VAULT, CREATOR_WALLET, TOKEN_MINT);
+
+      expect(result?.type).toBe("protocol_fee");
+      expect(result?.amountLamports).toBe(BigInt(3000000));
+    });
+
+    it("still classifies a creator withdrawal that also pays a protocol fee as withdraw", () => {
+      const tx = createBaseTx({
+        nativeTransfers: [
+          { fromUserAccount: CREATOR_VAULT, toUserAccount: PROTOCOL_FEE_RECIPIENT, amount: 3000000 },
+          { fromUserAccount: CREATOR_VAULT, toUserAccount: CREATOR_WALLET, amount: 297000000 },
+        ],
+      });
+
+      const result = classifyTransaction(tx, CREATOR_VAULT, CREATOR_WALLET, TOKEN_MINT);
+
+      expect(result?.type).toBe("withdraw");
+      expect(result?.amountLamports).toBe(BigInt(297000000));
+    });
+
+    it("supports registering additional recipients", () => {
+      const customRecipient = "FeeRcvr1111111111111111111111111111111111111";
+      expect(isProtocolFeeRecipient(customRecipient)).toBe(false);
+
+      registerProtocolFeeRecipient(customRecipient, "test");
+
+      const tx = createBaseTx({
+        nativeTransfers: [
+          { fromUserAccount: CREATOR_VAULT, toUserAccount: customRecipient, amount: 1000 },
+        ],
+      });
+
+      expect(isProtocolFeeRecipient(customRecipient)).toBe(true);
+      expect(classifyTransaction(tx, CREATOR_VAULT, CREATOR_WALLET, TOKEN_MINT)?.type).toBe(
+        "protocol_fee"
+      );
+    });
+  });
+
+  describe("classification evidence", () => {
+    it("marks a Jupiter swap with a transfer to the incinerator as a proven burn", () => {
+      const tx = createBaseTx({
+        nativeTransfers: [
+          { fromUserAccount: CREATOR_VAULT, toUserAccount: "jupiter-pool", amount: 1000000000 },
+        ],
+        tokenTransfers: [
+          {
+            mint: TOKEN_MINT,
+            fromUserAccount: "intermediate",
+            toUserAccount: BURN_ADDRESS,
+            tokenAmount: 5000000,
+          },
+        ],
+        instructions: [{ programId: JUPITER_V6, accounts: [], data: "" }],
+      });
+
+      const result = classifyTransaction(tx, CREATOR_VAULT, CREATOR_WALLET, TOKEN_MINT);
+
+      expect(result?.type).toBe("burn");
+      expect(result?.confidence).toBe("high");
+      expect(result?.reasons).toEqual(["jupiter program present", "transfer to incinerator"]);
+    });
+
+    it("only trusts a description-based swap at medium confidence", () => {
+      const tx = createBaseTx({
+        description: "Swap SOL for tokens and burn",
+        nativeTransfers: [
+          { fromUserAccount: CREATOR_VAULT, toUserAccount: "dex-pool", amount: 2000000000 },
+        ],
+        tokenTransfers: [
+          {
+            mint: TOKEN_MINT,
+            fromUserAccount: "intermediate",
+            toUserAccount: BURN_ADDRESS,
+            tokenAmount: 5000000,
+          },
+        ],
+      });
+
+      const result = classifyTransaction(tx, CREATOR_VAULT, CREATOR_WALLET, TOKEN_MINT);
+
+      expect(result?.confidence).toBe("medium");
+      expect(result?.reasons).toContain("swap keyword in description");
+    });
+
+    it("flags the conservative withdraw default as low confidence", () => {
+      const tx = createBaseTx({
+        nativeTransfers: [
+          { fromUserAccount: CREATOR_VAULT, toUserAccount: "unknown-destination", amount: 250000000 },
+        ],
+      });
+
+      const result = classifyTransaction(tx, CREATOR_VAULT, CREATOR_WALLET, TOKEN_MINT);
+
+      expect(result?.type).toBe("withdraw");
+      expect(result?.confidence).toBe("low");
+      expect(result?.reasons).toEqual(["fallback withdraw"]);
+    });
+
+    it("marks direct transfers to the creator wallet as proven withdrawals", () => {
+      const tx = createBaseTx({
+        nativeTransfers: [
+          { fromUserAccount: CREATOR_VAULT, toUserAccount: CREATOR_WALLET, amount: 500000000 },
+        ],
+      });
+
+      const result = classifyTransaction(tx, CREATOR_VAULT, CREATOR_WALLET, TOKEN_MINT);
+
+      expect(result?.confidence).toBe("high");
+      expect(result?.reasons).toEqual(["transfer to creator wallet"]);
+    });
+  });
+
   describe("edge cases", () => {
     it("handles missing timestamp gracefully", () => {
       const tx = createBaseTx({
@@ -354,7 +532,7 @@ describe("classifyTransactions", () => {
 
 describe("calculateEventStats", () => {
   it("calculates correct totals for mixed events", () => {
-    const events: ClassifiedEvent[] = [
+    const events: EventStatsInput[] = [
       { type: "collect", amountLamports: BigInt(1000000000), signature: "1", blockTime: new Date() },
       { type: "collect", amountLamports: BigInt(2000000000), signature: "2", blockTime: new Date() },
       { type: "burn", amountLamports: BigInt(500000000), signature: "3", blockTime: new Date() },
@@ -384,7 +562,7 @@ describe("calculateEventStats", () => {
   });
 
   it("handles single event type correctly", () => {
-    const events: ClassifiedEvent[] = [
+    const events: EventStatsInput[] = [
       { type: "burn", amountLamports: BigInt(100), signature: "1", blockTime: new Date() },
       { type: "burn", amountLamports: BigInt(200), signature: "2", blockTime: new Date() },
       { type: "burn", amountLamports: BigInt(300), signature: "3", blockTime: new Date() },
@@ -398,8 +576,23 @@ describe("calculateEventStats", () => {
     expect(stats.burnCount).toBe(3);
   });
 
+  it("keeps protocol fees out of creator totals", () => {
+    const events: EventStatsInput[] = [
+      { type: "collect", amountLamports: BigInt(1000), signature: "1", blockTime: new Date() },
+      { type: "burn", amountLamports: BigInt(500), signature: "2", blockTime: new Date() },
+      { type: "protocol_fee", amountLamports: BigInt(9000), signature: "3", blockTime: new Date() },
+    ];
+
+    const stats = calculateEventStats(events);
+
+    expect(stats.totalCollected).toBe(BigInt(1000));
+    expect(stats.totalBurned).toBe(BigInt(500));
+    expect(stats.totalProtocolFees).toBe(BigInt(9000));
+    expect(stats.protocolFeeCount).toBe(1);
+  });
+
   it("handles large BigInt values", () => {
-    const events: ClassifiedEvent[] = [
+    const events: EventStatsInput[] = [
       { type: "collect", amountLamports: BigInt("9000000000000000000"), signature: "1", blockTime: new Date() },
       { type: "collect", amountLamports: BigInt("1000000000000000000"), signature: "2", blockTime: new Date() },
     ];
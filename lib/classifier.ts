@@ -1,6 +1,6 @@
 /**
  * Fee Event Classifier
- * Classifies pump.fun transactions as: collect, withdraw, or burn
+ * Classifies pump.fun transactions as: collect, withdraw, burn, or protocol_fee
  */
 
 import type { EnrichedTransaction } from "./helius";
@@ -8,7 +8,7 @@ import type { EnrichedTransaction } from "./helius";
 // Re-export for backwards compatibility
 export type ParsedTransaction = EnrichedTransaction;
 
-export type FeeEventType = "collect" | "withdraw" | "burn";
+export type FeeEventType = "collect" | "withdraw" | "burn" | "protocol_fee";
 
 /**
  * Safely convert a value to BigInt
@@ -34,16 +34,43 @@ function safeBigInt(value: unknown): bigint {
   }
 }
 
+export type ClassificationConfidence = "high" | "medium" | "low";
+
 export interface ClassifiedEvent {
   type: FeeEventType;
   amountLamports: bigint;
   signature: string;
   blockTime: Date;
+  // Evidence: how sure we are, and which rules matched
+  confidence: ClassificationConfidence;
+  reasons: string[];
   // For burns
   burnedTokenMint?: string;
   burnedTokenAmount?: bigint;
 }
 
+/**
+ * Event shape accepted by stats aggregation (evidence not required)
+ */
+export type EventStatsInput = Omit<ClassifiedEvent, "confidence" | "reasons">;
+
+/**
+ * Human-readable rule names recorded on classified events
+ */
+export const CLASSIFICATION_RULES = {
+  transferIntoVault: "transfer into fee vault",
+  protocolFeeRecipient: "protocol fee recipient",
+  transferToCreator: "transfer to creator wallet",
+  jupiterProgram: "jupiter program present",
+  raydiumProgram: "raydium program present",
+  swapDescription: "swap keyword in description",
+  burnInstruction: "token burn instruction",
+  transferToIncinerator: "transfer to incinerator",
+  transferToEmptyAccount: "transfer to empty token account",
+  burnEvent: "burn event reported",
+  fallbackWithdraw: "fallback withdraw",
+} as const;
+
 // Known program IDs
 const JUPITER_V6_PROGRAM_ID = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
 const RAYDIUM_AMM_PROGRAM_ID = "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8";
@@ -52,8 +79,51 @@ const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
 // Burn address (tokens sent here are burned)
 const BURN_ADDRESS = "1nc1nerator11111111111111111111111111111111";
 
+// Known pump.fun protocol fee recipients (address -> label)
+export const DEFAULT_PROTOCOL_FEE_RECIPIENTS: Record<string, string> = {
+  CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM: "pump.fun",
+  "62qc2CNXwrYqQScmEdiZFFAnJR262PxWEuNQtxfafNgV": "pump.fun",
+};
+
+/**
+ * Protocol fee recipient registry
+ * Seeded from the defaults plus PROTOCOL_FEE_RECIPIENTS (comma-separated addresses)
+ */
+const protocolFeeRecipients = new Map<string, string>(
+  Object.entries(DEFAULT_PROTOCOL_FEE_RECIPIENTS)
+);
+
+for (const address of (process.env.PROTOCOL_FEE_RECIPIENTS || "").split(",")) {
+  const trimmed = address.trim();
+  if (trimmed && !protocolFeeRecipients.has(trimmed)) {
+    protocolFeeRecipients.set(trimmed, "custom");
+  }
+}
+
+/**
+ * Add a protocol fee recipient to the registry
+ */
+export function registerProtocolFeeRecipient(address: string, label = "custom"): void {
+  protocolFeeRecipients.set(address, label);
+}
+
+/**
+ * Check whether an address receives protocol (not creator) fees
+ */
+export function isProtocolFeeRecipient(address: string | undefined | null): boolean {
+  return !!address && protocolFeeRecipients.has(address);
+}
+
+/**
+ * List registered protocol fee recipient addresses
+ */
+export function getProtocolFeeRecipients(): string[] {
+  return Array.from(protocolFeeRecipients.keys());
+}
+
 /**
  * Classify a parsed transaction from Helius
+ * Every event carries a confidence level and the rules that matched
  */
 export function classifyTransaction(
   tx: ParsedTransaction,
@@ -73,8 +143,12 @@ export function classifyTransaction(
   const tokenTransfers = tx.tokenTransfers || [];
 
   // Look for SOL moving into vault (collect)
+  // Transfers from protocol fee recipients are not creator trading fees
   const collectTransfer = nativeTransfers.find(
-    (t) => t.toUserAccount === creatorVault && t.fromUserAccount !== creatorWallet
+    (t) =>
+      t.toUserAccount === creatorVault &&
+      t.fromUserAccount !== creatorWallet &&
+      !isProtocolFeeRecipient(t.fromUserAccount)
   );
 
   if (collectTransfer) {
@@ -83,25 +157,47 @@ export function classifyTransaction(
       amountLamports: safeBigInt(collectTransfer.amount),
       signature,
       blockTime,
+      confidence: "high",
+      reasons: [CLASSIFICATION_RULES.transferIntoVault],
     };
   }
 
-  // Look for SOL leaving vault
+  // SOL moving between the vault and a protocol fee recipient (either direction)
+  const protocolTransfer = nativeTransfers.find(
+    (t) =>
+      (t.toUserAccount === creatorVault && isProtocolFeeRecipient(t.fromUserAccount)) ||
+      (t.fromUserAccount === creatorVault && isProtocolFeeRecipient(t.toUserAccount))
+  );
+
+  // Look for SOL leaving vault to anyone else
   const vaultOutflow = nativeTransfers.find(
-    (t) => t.fromUserAccount === creatorVault
+    (t) => t.fromUserAccount === creatorVault && !isProtocolFeeRecipient(t.toUserAccount)
   );
 
   if (!vaultOutflow) {
+    if (protocolTransfer) {
+      return {
+        type: "protocol_fee",
+        amountLamports: safeBigInt(protocolTransfer.amount),
+        signature,
+        blockTime,
+        confidence: "high",
+        reasons: [CLASSIFICATION_RULES.protocolFeeRecipient],
+      };
+    }
     return null;
   }
 
   const outflowAmount = safeBigInt(vaultOutflow.amount);
 
   // Check if this is a burn (swap + burn in same tx)
-  const hasSwap = hasSwapInstruction(tx);
+  const swapReasons = detectSwap(tx);
+  const hasSwap = swapReasons.length > 0;
+  const provenSwap = swapReasons.some((r) => r !== CLASSIFICATION_RULES.swapDescription);
   const burnInfo = findBurnInTransaction(tx, tokenMint);
 
   if (hasSwap && burnInfo) {
+    const provenBurn = burnInfo.reason !== CLASSIFICATION_RULES.burnEvent;
     return {
       type: "burn",
       amountLamports: outflowAmount,
@@ -109,6 +205,8 @@ export function classifyTransaction(
       blockTime,
       burnedTokenMint: tokenMint,
       burnedTokenAmount: burnInfo.amount,
+      confidence: provenSwap && provenBurn ? "high" : "medium",
+      reasons: [...swapReasons, burnInfo.reason],
     };
   }
 
@@ -119,6 +217,8 @@ export function classifyTransaction(
       amountLamports: outflowAmount,
       signature,
       blockTime,
+      confidence: "high",
+      reasons: [CLASSIFICATION_RULES.transferToCreator],
     };
   }
 
@@ -142,6 +242,8 @@ export function classifyTransaction(
         blockTime,
         burnedTokenMint: tokenMint,
         burnedTokenAmount: safeBigInt(tokenBurn.tokenAmount),
+        confidence: provenSwap ? "medium" : "low",
+        reasons: [...swapReasons, CLASSIFICATION_RULES.transferToEmptyAccount],
       };
     }
   }
@@ -153,49 +255,47 @@ export function classifyTransaction(
     amountLamports: outflowAmount,
     signature,
     blockTime,
+    confidence: "low",
+    reasons: [...swapReasons, CLASSIFICATION_RULES.fallbackWithdraw],
   };
 }
 
 /**
- * Check if transaction contains a swap instruction
+ * Detect swap evidence in a transaction
+ * Returns the matched rules (empty when no swap was found)
  */
-function hasSwapInstruction(tx: ParsedTransaction): boolean {
+function detectSwap(tx: ParsedTransaction): string[] {
   const accountData = tx.accountData || [];
   const instructions = tx.instructions || [];
+  const reasons = new Set<string>();
 
   // Check for Jupiter or Raydium program involvement
-  const hasJupiter = accountData.some((a) =>
-    a.account?.includes(JUPITER_V6_PROGRAM_ID)
-  );
-  const hasRaydium = accountData.some((a) =>
-    a.account?.includes(RAYDIUM_AMM_PROGRAM_ID)
-  );
-
-  if (hasJupiter || hasRaydium) {
-    return true;
+  for (const a of accountData) {
+    if (a.account?.includes(JUPITER_V6_PROGRAM_ID)) reasons.add(CLASSIFICATION_RULES.jupiterProgram);
+    if (a.account?.includes(RAYDIUM_AMM_PROGRAM_ID)) reasons.add(CLASSIFICATION_RULES.raydiumProgram);
   }
 
   // Also check instructions
   for (const ix of instructions) {
-    if (
-      ix.programId === JUPITER_V6_PROGRAM_ID ||
-      ix.programId === RAYDIUM_AMM_PROGRAM_ID
-    ) {
-      return true;
-    }
+    if (ix.programId === JUPITER_V6_PROGRAM_ID) reasons.add(CLASSIFICATION_RULES.jupiterProgram);
+    if (ix.programId === RAYDIUM_AMM_PROGRAM_ID) reasons.add(CLASSIFICATION_RULES.raydiumProgram);
   }
 
-  // Check for swap in description
+  if (reasons.size > 0) {
+    return Array.from(reasons);
+  }
+
+  // Check for swap in description (weakest evidence)
   const description = tx.description?.toLowerCase() || "";
   if (
     description.includes("swap") ||
     description.includes("jupiter") ||
     description.includes("raydium")
   ) {
-    return true;
+    return [CLASSIFICATION_RULES.swapDescription];
   }
 
-  return false;
+  return [];
 }
 
 /**
@@ -204,7 +304,7 @@ function hasSwapInstruction(tx: ParsedTransaction): boolean {
 function findBurnInTransaction(
   tx: ParsedTransaction,
   tokenMint: string
-): { amount: bigint } | null {
+): { amount: bigint; reason: string } | null {
   const tokenTransfers = tx.tokenTransfers || [];
   const instructions = tx.instructions || [];
 
@@ -220,7 +320,10 @@ function findBurnInTransaction(
           (t) => t.mint === tokenMint && !t.toUserAccount
         );
         if (burnTransfer) {
-          return { amount: safeBigInt(burnTransfer.tokenAmount) };
+          return {
+            amount: safeBigInt(burnTransfer.tokenAmount),
+            reason: CLASSIFICATION_RULES.burnInstruction,
+          };
         }
       }
     }
@@ -234,13 +337,19 @@ function findBurnInTransaction(
   );
 
   if (toBurnAddress) {
-    return { amount: safeBigInt(toBurnAddress.tokenAmount) };
+    return {
+      amount: safeBigInt(toBurnAddress.tokenAmount),
+      reason:
+        toBurnAddress.toUserAccount === BURN_ADDRESS
+          ? CLASSIFICATION_RULES.transferToIncinerator
+          : CLASSIFICATION_RULES.transferToEmptyAccount,
+    };
   }
 
   // Look for events that indicate burn
   const events = tx.events || {};
   if (events.burn) {
-    return { amount: safeBigInt(events.burn.amount) };
+    return { amount: safeBigInt(events.burn.amount), reason: CLASSIFICATION_RULES.burnEvent };
   }
 
   return null;
@@ -270,20 +379,24 @@ export function classifyTransactions(
 /**
  * Calculate stats from classified events
  */
-export function calculateEventStats(events: ClassifiedEvent[]): {
+export function calculateEventStats(events: EventStatsInput[]): {
   totalCollected: bigint;
   totalBurned: bigint;
   totalWithdrawn: bigint;
+  totalProtocolFees: bigint;
   collectCount: number;
   burnCount: number;
   withdrawCount: number;
+  protocolFeeCount: number;
 } {
   let totalCollected = BigInt(0);
   let totalBurned = BigInt(0);
   let totalWithdrawn = BigInt(0);
+  let totalProtocolFees = BigInt(0);
   let collectCount = 0;
   let burnCount = 0;
   let withdrawCount = 0;
+  let protocolFeeCount = 0;
 
   for (const event of events) {
     switch (event.type) {
@@ -299,6 +412,11 @@ export function calculateEventStats(events: ClassifiedEvent[]): {
         totalWithdrawn += event.amountLamports;
         withdrawCount++;
         break;
+      case "protocol_fee":
+        // Tracked separately; never part of creator burn percentages
+        totalProtocolFees += event.amountLamports;
+        protocolFeeCount++;
+        break;
     }
   }
 
@@ -306,8 +424,10 @@ export function calculateEventStats(events: ClassifiedEvent[]): {
     totalCollected,
     totalBurned,
     totalWithdrawn,
+    totalProtocolFees,
     collectCount,
     burnCount,
     withdrawCount,
+    protocolFeeCount,
   };
 }
@@ -3,7 +3,18 @@
  * Prisma client singleton for database operations
  */
 
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, Prisma, type Token } from "@prisma/client";
+import { calculateBurnPercentage, calculateBadgeTier } from "./badges";
+import { calculateSupplyBurnedPercentage } from "./burn-accounting";
+import { floorToHour, floorToDay, getRollupIncrement, type RollupIncrement } from "./rollups";
+import {
+  calculateRootContribution,
+  type EngineContribution,
+  type EngineActivitySource,
+} from "./ecosystem";
+import { CLASSIFICATION_RULES, type ClassificationConfidence, type FeeEventType } from "./classifier";
+import type { BackfillProgress, CursorAddressType, CursorUpdate } from "./sync-cursor";
+import { PLACEHOLDER_SIGNATURE_PREFIX, finalizableEventsWhere } from "./finality";
 
 // Prevent multiple instances in development
 const globalForPrisma = globalThis as unknown as {
@@ -44,33 +55,259 @@ export async function getTokenWithAllEvents(mint: string) {
   });
 }
 
-export async function getTopBurners(limit = 10, timeframe?: Date) {
-  const where = timeframe
-    ? { updatedAt: { gte: timeframe } }
-    : {};
+export interface WindowedFeeTotals {
+  totalCollected: bigint;
+  totalBurned: bigint;
+  totalWithdrawn: bigint;
+}
 
-  return prisma.token.findMany({
-    where: {
-      ...where,
-      burnPercentage: { gt: 0 },
-    },
-    orderBy: { burnPercentage: "desc" },
+/**
+ * A token ranked by its fee totals inside a time window
+ */
+export interface WindowedTokenRanking extends WindowedFeeTotals {
+  token: Token;
+  burnPercentage: number;
+  badgeTier: string;
+}
+
+/**
+ * Rollup filter for a window; hour buckets are inclusive, so the window may
+ * start up to an hour before `since`. No timeframe means all time.
+ */
+function rollupWindow(since?: Date) {
+  return since ? { bucket: { gte: floorToHour(since) } } : {};
+}
+
+/**
+ * Rank tokens by one fee total inside a window, from the hourly rollups
+ */
+async function getTopTokensInWindow(
+  metric: "burnedLamports" | "withdrawnLamports",
+  limit: number,
+  since?: Date
+): Promise<WindowedTokenRanking[]> {
+  const rows = await prisma.tokenHourlyRollup.groupBy({
+    by: ["tokenId"],
+    where: rollupWindow(since),
+    _sum: { collectedLamports: true, burnedLamports: true, withdrawnLamports: true },
+    having:
+      metric === "burnedLamports"
+        ? { burnedLamports: { _sum: { gt: 0 } } }
+        : { withdrawnLamports: { _sum: { gt: 0 } } },
+    orderBy:
+      metric === "burnedLamports"
+        ? { _sum: { burnedLamports: "desc" } }
+        : { _sum: { withdrawnLamports: "desc" } },
     take: limit,
   });
+
+  const tokens = await prisma.token.findMany({
+    where: { id: { in: rows.map((row) => row.tokenId) } },
+  });
+  const tokensById = new Map(tokens.map((token) => [token.id, token]));
+
+  return rows.flatMap((row) => {
+    const token = tokensById.get(row.tokenId);
+    if (!token) return [];
+
+    const totalCollected = row._sum.collectedLamports ?? BigInt(0);
+    const totalBurned = row._sum.burnedLamports ?? BigInt(0);
+    const burnPercentage = calculateBurnPercentage(totalCollected, totalBurned);
+
+    return [
+      {
+        token,
+        totalCollected,
+        totalBurned,
+        totalWithdrawn: row._sum.withdrawnLamports ?? BigInt(0),
+        burnPercentage,
+        badgeTier: calculateBadgeTier(burnPercentage),
+      },
+    ];
+  });
 }
 
+/**
+ * Tokens that burned the most SOL inside the window
+ */
+export async function getTopBurners(limit = 10, timeframe?: Date) {
+  return getTopTokensInWindow("burnedLamports", limit, timeframe);
+}
+
+/**
+ * Tokens whose creators withdrew the most SOL inside the window
+ */
 export async function getTopExtractors(limit = 10, timeframe?: Date) {
-  const where = timeframe
-    ? { updatedAt: { gte: timeframe } }
-    : {};
+  return getTopTokensInWindow("withdrawnLamports", limit, timeframe);
+}
 
-  return prisma.token.findMany({
-    where: {
-      ...where,
-      totalFeesWithdrawn: { gt: 0 },
+/**
+ * Aggregate fee amounts per token inside a time window, from the hourly rollups
+ * Keyed by token id; tokens without events in the window are absent
+ */
+export async function getTokenStatsInWindow(
+  since: Date
+): Promise<Map<number, WindowedFeeTotals>> {
+  const rows = await prisma.tokenHourlyRollup.groupBy({
+    by: ["tokenId"],
+    where: rollupWindow(since),
+    _sum: { collectedLamports: true, burnedLamports: true, withdrawnLamports: true },
+  });
+
+  return new Map(
+    rows.map((row) => [
+      row.tokenId,
+      {
+        totalCollected: row._sum.collectedLamports ?? BigInt(0),
+        totalBurned: row._sum.burnedLamports ?? BigInt(0),
+        totalWithdrawn: row._sum.withdrawnLamports ?? BigInt(0),
+      },
+    ])
+  );
+}
+
+/**
+ * Add a signed increment to the token and global hour/day buckets of an event
+ */
+async function applyRollupIncrement(
+  tx: Prisma.TransactionClient,
+  tokenId: number,
+  blockTime: Date,
+  increment: RollupIncrement
+) {
+  const update = {
+    collectedLamports: { increment: increment.collectedLamports },
+    burnedLamports: { increment: increment.burnedLamports },
+    withdrawnLamports: { increment: increment.withdrawnLamports },
+    collectCount: { increment: increment.collectCount },
+    burnCount: { increment: increment.burnCount },
+    withdrawCount: { increment: increment.withdrawCount },
+    eventCount: { increment: increment.eventCount },
+  };
+  const hour = floorToHour(blockTime);
+  const day = floorToDay(blockTime);
+
+  await tx.tokenHourlyRollup.upsert({
+    where: { tokenId_bucket: { tokenId, bucket: hour } },
+    create: { tokenId, bucket: hour, ...increment },
+    update,
+  });
+  await tx.tokenDailyRollup.upsert({
+    where: { tokenId_bucket: { tokenId, bucket: day } },
+    create: { tokenId, bucket: day, ...increment },
+    update,
+  });
+  await tx.globalHourlyRollup.upsert({
+    where: { bucket: hour },
+    create: { bucket: hour, ...increment },
+    update,
+  });
+  await tx.globalDailyRollup.upsert({
+    where: { bucket: day },
+    create: { bucket: day, ...increment },
+    update,
+  });
+}
+
+/**
+ * Recompute rollups from raw fee events, for one token or all of them
+ * Global buckets are always rebuilt from the token rollups
+ */
+export async function rebuildRollups(tokenId?: number) {
+  const tokenFilter = tokenId === undefined ? {} : { tokenId };
+  const eventFilter =
+    tokenId === undefined ? Prisma.empty : Prisma.sql`AND token_id = ${tokenId}`;
+
+  const tokenBuckets = (table: string, unit: "hour" | "day") => Prisma.sql`
+    INSERT INTO ${Prisma.raw(table)}
+      (token_id, bucket, collected_lamports, burned_lamports, withdrawn_lamports,
+       collect_count, burn_count, withdraw_count, event_count, updated_at)
+    SELECT
+      token_id,
+      date_trunc(${unit}, block_time),
+      COALESCE(SUM(amount_lamports) FILTER (WHERE event_type = 'collect'), 0),
+      COALESCE(SUM(amount_lamports) FILTER (WHERE event_type = 'burn'), 0),
+      COALESCE(SUM(amount_lamports) FILTER (WHERE event_type = 'withdraw'), 0),
+      COUNT(*) FILTER (WHERE event_type = 'collect'),
+      COUNT(*) FILTER (WHERE event_type = 'burn'),
+      COUNT(*) FILTER (WHERE event_type = 'withdraw'),
+      COUNT(*),
+      NOW()
+    FROM fee_events
+    WHERE event_type IN ('collect', 'burn', 'withdraw') ${eventFilter}
+    GROUP BY token_id, date_trunc(${unit}, block_time)
+  `;
+
+  const globalBuckets = (table: string, source: string) => Prisma.sql`
+    INSERT INTO ${Prisma.raw(table)}
+      (bucket, collected_lamports, burned_lamports, withdrawn_lamports,
+       collect_count, burn_count, withdraw_count, event_count, updated_at)
+    SELECT
+      bucket,
+      SUM(collected_lamports),
+      SUM(burned_lamports),
+      SUM(withdrawn_lamports),
+      SUM(collect_count),
+      SUM(burn_count),
+      SUM(withdraw_count),
+      SUM(event_count),
+      NOW()
+    FROM ${Prisma.raw(source)}
+    GROUP BY bucket
+  `;
+
+  await prisma.$transaction([
+    prisma.tokenHourlyRollup.deleteMany({ where: tokenFilter }),
+    prisma.tokenDailyRollup.deleteMany({ where: tokenFilter }),
+    prisma.$executeRaw(tokenBuckets("token_hourly_rollups", "hour")),
+    prisma.$executeRaw(tokenBuckets("token_daily_rollups", "day")),
+    prisma.globalHourlyRollup.deleteMany(),
+    prisma.globalDailyRollup.deleteMany(),
+    prisma.$executeRaw(globalBuckets("global_hourly_rollups", "token_hourly_rollups")),
+    prisma.$executeRaw(globalBuckets("global_daily_rollups", "token_daily_rollups")),
+  ]);
+}
+
+/**
+ * Fee totals across all tokens since a date, from the global hourly rollups
+ */
+export async function getGlobalRollupTotals(since: Date) {
+  const result = await prisma.globalHourlyRollup.aggregate({
+    where: rollupWindow(since),
+    _sum: {
+      collectedLamports: true,
+      burnedLamports: true,
+      withdrawnLamports: true,
+      eventCount: true,
     },
-    orderBy: { totalFeesWithdrawn: "desc" },
-    take: limit,
+  });
+
+  return {
+    totalCollected: result._sum.collectedLamports ?? BigInt(0),
+    totalBurned: result._sum.burnedLamports ?? BigInt(0),
+    totalWithdrawn: result._sum.withdrawnLamports ?? BigInt(0),
+    eventCount: result._sum.eventCount ?? 0,
+  };
+}
+
+/**
+ * A token's hourly or daily rollup buckets, oldest first
+ */
+export async function getTokenRollups(
+  tokenId: number,
+  granularity: "hour" | "day",
+  since?: Date
+) {
+  if (granularity === "hour") {
+    return prisma.tokenHourlyRollup.findMany({
+      where: { tokenId, ...(since ? { bucket: { gte: floorToHour(since) } } : {}) },
+      orderBy: { bucket: "asc" },
+    });
+  }
+
+  return prisma.tokenDailyRollup.findMany({
+    where: { tokenId, ...(since ? { bucket: { gte: floorToDay(since) } } : {}) },
+    orderBy: { bucket: "asc" },
   });
 }
 
@@ -142,18 +379,312 @@ export async function upsertToken(data: {
 
 export async function createFeeEvent(data: {
   tokenId: number;
-  eventType: "collect" | "withdraw" | "burn";
+  eventType: FeeEventType;
   amountLamports: bigint;
   signature: string;
   blockTime: Date;
+  source?: string;
+  confidence?: ClassificationConfidence;
+  reasons?: string[];
   burnedTokenMint?: string;
   burnedTokenAmount?: bigint;
+  provisional?: boolean;
 }) {
-  return prisma.feeEvent.create({
+  return prisma.$transaction(async (tx) => {
+    // Re-apply any admin override so reclassifications survive re-indexing
+    const override = await tx.eventOverride.findUnique({
+      where: { signature: data.signature },
+    });
+
+    const event = await tx.feeEvent.create({
+      data: override
+        ? {
+            ...data,
+            eventType: override.eventType,
+            overridden: true,
+            classifiedType: data.eventType,
+          }
+        : data,
+    });
+
+    const increment = getRollupIncrement(event.eventType, event.amountLamports, 1);
+    if (increment) {
+      await applyRollupIncrement(tx, event.tokenId, event.blockTime, increment);
+    }
+
+    return event;
+  });
+}
+
+/**
+ * Get a token's provisional (not yet finalized) fee events with real signatures, oldest first
+ */
+export async function getProvisionalFeeEvents(tokenId: number, limit = 256) {
+  return prisma.feeEvent.findMany({
+    where: finalizableEventsWhere(tokenId),
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Mark provisional fee events as final
+ */
+export async function finalizeFeeEvents(ids: number[]) {
+  return prisma.feeEvent.updateMany({
+    where: { id: { in: ids }, provisional: true },
+    data: { provisional: false },
+  });
+}
+
+/**
+ * Remove a provisional fee event whose transaction was dropped
+ */
+export async function deleteProvisionalFeeEvent(id: number) {
+  return deleteFeeEventWithRollups({ id, provisional: true });
+}
+
+/**
+ * Remove a placeholder-signature event whose transaction another path already stored
+ * Its pending signature is deleted with it
+ */
+export async function deleteDuplicatePlaceholderEvent(id: number) {
+  return deleteFeeEventWithRollups({ id, signature: { startsWith: PLACEHOLDER_SIGNATURE_PREFIX } });
+}
+
+/**
+ * Delete a fee event and take it back out of the rollups
+ */
+async function deleteFeeEventWithRollups(where: Prisma.FeeEventWhereInput & { id: number }) {
+  return prisma.$transaction(async (tx) => {
+    const event = await tx.feeEvent.findFirst({ where });
+    if (!event) return { count: 0 };
+
+    await tx.feeEvent.delete({ where: { id: event.id } });
+
+    const increment = getRollupIncrement(event.eventType, event.amountLamports, -1);
+    if (increment) {
+      await applyRollupIncrement(tx, event.tokenId, event.blockTime, increment);
+    }
+
+    return { count: 1 };
+  });
+}
+
+/**
+ * Save the burn engine verification result on a burn event
+ */
+export async function recordBurnVerification(
+  feeEventId: number,
+  verification: { burnType: string; verified: boolean }
+) {
+  return prisma.feeEvent.update({
+    where: { id: feeEventId },
+    data: {
+      burnType: verification.burnType,
+      burnVerified: verification.verified,
+    },
+  });
+}
+
+/**
+ * Get burn events that have not been checked against the burn engine yet
+ * Placeholder signatures are skipped; pass the last id seen to page past failing lookups
+ */
+export async function getUncheckedBurns(limit = 100, afterId = 0) {
+  return prisma.feeEvent.findMany({
+    where: {
+      eventType: "burn",
+      burnType: null,
+      id: { gt: afterId },
+      NOT: { signature: { startsWith: PLACEHOLDER_SIGNATURE_PREFIX } },
+    },
+    orderBy: { id: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Queue a placeholder-signature fee event for resolution
+ */
+export async function createPendingSignature(data: {
+  feeEventId: number;
+  address: string;
+  deltaLamports: bigint;
+  slot: bigint;
+  deadline: Date;
+}) {
+  return prisma.pendingSignature.create({
     data,
   });
 }
 
+/**
+ * Get unexpired pending signatures for a set of tokens, oldest first
+ */
+export async function getPendingSignatures(tokenIds: number[], limit = 50) {
+  return prisma.pendingSignature.findMany({
+    where: { expired: false, feeEvent: { tokenId: { in: tokenIds } } },
+    include: { feeEvent: true },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Record a resolution attempt that found no match
+ */
+export async function recordPendingSignatureAttempt(id: number) {
+  return prisma.pendingSignature.update({
+    where: { id },
+    data: { attempts: { increment: 1 }, lastAttemptAt: new Date() },
+  });
+}
+
+/**
+ * Replace a placeholder with the real signature and drop it from the queue
+ * The event takes its type, confidence, reasons and block time from the matched
+ * transaction, and its rollup amount moves with them
+ */
+export async function resolvePendingSignature(
+  id: number,
+  feeEventId: number,
+  signature: string,
+  resolved: {
+    eventType: FeeEventType;
+    confidence: ClassificationConfidence;
+    reasons: string[];
+    blockTime: Date;
+  }
+) {
+  return prisma.$transaction(async (tx) => {
+    const previous = await tx.feeEvent.findUniqueOrThrow({ where: { id: feeEventId } });
+
+    // Re-apply any admin override, as createFeeEvent does
+    const override = await tx.eventOverride.findUnique({ where: { signature } });
+
+    const event = await tx.feeEvent.update({
+      where: { id: feeEventId },
+      data: {
+        signature,
+        eventType: override?.eventType ?? resolved.eventType,
+        confidence: resolved.confidence,
+        reasons: [...resolved.reasons, "signature resolved by slot and amount"],
+        blockTime: resolved.blockTime,
+        ...(override ? { overridden: true, classifiedType: resolved.eventType } : {}),
+      },
+    });
+    await tx.pendingSignature.delete({ where: { id } });
+
+    // Move the amount from the websocket type and time bucket to the resolved ones
+    for (const [source, sign] of [
+      [previous, -1],
+      [event, 1],
+    ] as const) {
+      const increment = getRollupIncrement(source.eventType, source.amountLamports, sign);
+      if (increment) {
+        await applyRollupIncrement(tx, source.tokenId, source.blockTime, increment);
+      }
+    }
+
+    return event;
+  });
+}
+
+/**
+ * Give up on a pending signature and flag its event as unresolved
+ * The event can no longer be finalized, so it stops being provisional too
+ */
+export async function expirePendingSignature(id: number, feeEventId: number) {
+  return prisma.$transaction([
+    prisma.pendingSignature.update({
+      where: { id },
+      data: { expired: true, attempts: { increment: 1 }, lastAttemptAt: new Date() },
+    }),
+    prisma.feeEvent.update({
+      where: { id: feeEventId },
+      data: { unresolved: true, provisional: false },
+    }),
+  ]);
+}
+
+/**
+ * Reclassify a fee event and record the change in the audit trail
+ * Returns null if no event exists for the signature
+ */
+export async function overrideFeeEventType(data: {
+  signature: string;
+  eventType: FeeEventType;
+  reason: string;
+  actor: string;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const event = await tx.feeEvent.findUnique({
+      where: { signature: data.signature },
+      include: { token: { select: { mint: true } } },
+    });
+    if (!event) return null;
+
+    await tx.eventOverride.upsert({
+      where: { signature: data.signature },
+      create: {
+        signature: data.signature,
+        eventType: data.eventType,
+        reason: data.reason,
+        actor: data.actor,
+      },
+      update: {
+        eventType: data.eventType,
+        reason: data.reason,
+        actor: data.actor,
+      },
+    });
+
+    const updated = await tx.feeEvent.update({
+      where: { id: event.id },
+      data: {
+        eventType: data.eventType,
+        overridden: true,
+        classifiedType: event.classifiedType ?? event.eventType,
+      },
+    });
+
+    // Move the amount from the old type's rollup totals to the new one's
+    for (const [eventType, sign] of [
+      [event.eventType, -1],
+      [data.eventType, 1],
+    ] as const) {
+      const increment = getRollupIncrement(eventType, event.amountLamports, sign);
+      if (increment) {
+        await applyRollupIncrement(tx, event.tokenId, event.blockTime, increment);
+      }
+    }
+
+    const audit = await tx.eventOverrideAudit.create({
+      data: {
+        signature: data.signature,
+        tokenMint: event.token.mint,
+        oldEventType: event.eventType,
+        newEventType: data.eventType,
+        reason: data.reason,
+        actor: data.actor,
+      },
+    });
+
+    return { event: updated, audit };
+  });
+}
+
+/**
+ * Get the override audit trail for a fee event, newest first
+ */
+export async function getEventOverrideAudits(signature: string) {
+  return prisma.eventOverrideAudit.findMany({
+    where: { signature },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
 export async function updateTokenStats(
   tokenId: number,
   stats: {
@@ -171,6 +702,449 @@ export async function updateTokenStats(
   });
 }
 
+export async function updateTokenFeeModel(tokenId: number, feeModel: string) {
+  return prisma.token.update({
+    where: { id: tokenId },
+    data: { feeModel },
+  });
+}
+
+export async function updateTokenSupply(tokenId: number, supply: bigint, decimals: number) {
+  return prisma.token.update({
+    where: { id: tokenId },
+    data: { tokenSupply: supply, tokenDecimals: decimals },
+  });
+}
+
+/**
+ * Recompute token-unit burn totals from burn events of the token's own mint
+ * Supply share stays 0 until the mint supply is known
+ */
+export async function recalculateTokenBurnAccounting(tokenId: number) {
+  const token = await prisma.token.findUniqueOrThrow({ where: { id: tokenId } });
+
+  const burnFilter = {
+    tokenId,
+    eventType: "burn",
+    burnedTokenMint: token.mint,
+    burnedTokenAmount: { not: null },
+  };
+
+  const [burns, transferBurns] = await Promise.all([
+    prisma.feeEvent.aggregate({
+      where: burnFilter,
+      _sum: { burnedTokenAmount: true, amountLamports: true },
+    }),
+    // Tokens sent to the incinerator still count toward the mint supply
+    prisma.feeEvent.aggregate({
+      where: { ...burnFilter, reasons: { has: CLASSIFICATION_RULES.transferToIncinerator } },
+      _sum: { burnedTokenAmount: true },
+    }),
+  ]);
+
+  const totalTokensBurned = burns._sum.burnedTokenAmount ?? BigInt(0);
+  const transferTokensBurned = transferBurns._sum.burnedTokenAmount ?? BigInt(0);
+  const supplyBurnedPercentage =
+    token.tokenSupply !== null && token.tokenDecimals !== null
+      ? calculateSupplyBurnedPercentage(
+          totalTokensBurned - transferTokensBurned,
+          transferTokensBurned,
+          token.tokenSupply,
+          token.tokenDecimals
+        )
+      : 0;
+
+  return prisma.token.update({
+    where: { id: tokenId },
+    data: {
+      totalTokensBurned,
+      tokenBurnSpentLamports: burns._sum.amountLamports ?? BigInt(0),
+      supplyBurnedPercentage,
+    },
+  });
+}
+
+// ASDF ecosystem queries
+
+/**
+ * Record a burn-engine transaction against its ecosystem token and refresh the token's totals
+ * Returns null if the signature was already recorded
+ */
+export async function recordEcosystemContribution(
+  data: EngineContribution & {
+    signature: string;
+    slot: bigint;
+    blockTime: Date;
+    discoveredVia: EngineActivitySource;
+  }
+) {
+  const existing = await prisma.ecosystemContribution.findUnique({
+    where: { signature: data.signature },
+  });
+  if (existing) return null;
+
+  return prisma.$transaction(async (tx) => {
+    await tx.ecosystemToken.upsert({
+      where: { mint: data.tokenMint },
+      create: {
+        mint: data.tokenMint,
+        tokenType: data.tokenType,
+        discoveredVia: data.discoveredVia,
+        firstSeenAt: data.blockTime,
+        lastSeenAt: data.blockTime,
+      },
+      update: {},
+    });
+
+    const contribution = await tx.ecosystemContribution.create({
+      data: {
+        signature: data.signature,
+        tokenMint: data.tokenMint,
+        slot: data.slot,
+        blockTime: data.blockTime,
+        rootLamports: data.rootLamports,
+        secondaryLamports: data.secondaryLamports,
+        rootTokensBurned: data.rootTokensBurned,
+        secondaryTokensBurned: data.secondaryTokensBurned,
+      },
+    });
+
+    const totals = await tx.ecosystemContribution.aggregate({
+      where: { tokenMint: data.tokenMint },
+      _sum: {
+        rootLamports: true,
+        secondaryLamports: true,
+        rootTokensBurned: true,
+        secondaryTokensBurned: true,
+      },
+      _count: { id: true },
+      _min: { blockTime: true },
+      _max: { blockTime: true },
+    });
+
+    const rootLamports = totals._sum.rootLamports ?? BigInt(0);
+    const secondaryLamports = totals._sum.secondaryLamports ?? BigInt(0);
+
+    await tx.ecosystemToken.update({
+      where: { mint: data.tokenMint },
+      data: {
+        engineTxCount: totals._count.id,
+        rootLamports,
+        secondaryLamports,
+        rootTokensBurned: totals._sum.rootTokensBurned ?? BigInt(0),
+        secondaryTokensBurned: totals._sum.secondaryTokensBurned ?? BigInt(0),
+        rootContribution: calculateRootContribution(rootLamports, secondaryLamports),
+        firstSeenAt: totals._min.blockTime ?? data.blockTime,
+        lastSeenAt: totals._max.blockTime ?? data.blockTime,
+      },
+    });
+
+    return contribution;
+  });
+}
+
+export async function getEcosystemToken(mint: string) {
+  return prisma.ecosystemToken.findUnique({ where: { mint } });
+}
+
+/**
+ * Registered ecosystem tokens, root first, then by SOL routed to the root token
+ */
+export async function getEcosystemTokens() {
+  return prisma.ecosystemToken.findMany({
+    orderBy: [{ tokenType: "asc" }, { rootLamports: "desc" }],
+  });
+}
+
+/**
+ * Ecosystem-wide totals across all recorded burn-engine transactions
+ */
+export async function getEcosystemTotals() {
+  const totals = await prisma.ecosystemContribution.aggregate({
+    _sum: { rootLamports: true, secondaryLamports: true },
+    _count: { id: true },
+    _max: { slot: true, blockTime: true },
+  });
+
+  return {
+    rootLamports: totals._sum.rootLamports ?? BigInt(0),
+    secondaryLamports: totals._sum.secondaryLamports ?? BigInt(0),
+    transactionCount: totals._count.id,
+    lastSlot: totals._max.slot,
+    lastBlockTime: totals._max.blockTime,
+  };
+}
+
+/**
+ * Engine-verified burn events whose transaction is not in the ecosystem registry yet
+ */
+export async function getUnregisteredEngineBurns(afterId: number, limit = 100) {
+  const burns = await prisma.feeEvent.findMany({
+    where: { id: { gt: afterId }, eventType: "burn", burnType: "engine" },
+    orderBy: { id: "asc" },
+    take: limit,
+    select: { id: true, signature: true },
+  });
+
+  const registered = await prisma.ecosystemContribution.findMany({
+    where: { signature: { in: burns.map((b) => b.signature) } },
+    select: { signature: true },
+  });
+  const registeredSignatures = new Set(registered.map((r) => r.signature));
+
+  return {
+    burns: burns.filter((b) => !registeredSignatures.has(b.signature)),
+    lastId: burns.length > 0 ? burns[burns.length - 1].id : null,
+  };
+}
+
+// Burn engine log queries
+
+/**
+ * Append verified engine burns; rows already logged for a signature and mint are skipped
+ */
+export async function recordEngineBurns(
+  burns: {
+    signature: string;
+    slot: bigint;
+    blockTime: Date;
+    tokenMint: string;
+    amount: bigint;
+    lamports: bigint;
+    instructionType: string;
+    source: EngineActivitySource;
+  }[]
+) {
+  if (burns.length === 0) return 0;
+
+  const result = await prisma.engineBurn.createMany({
+    data: burns,
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+/**
+ * Oldest logged engine burn, where program history backfill resumes from
+ */
+export async function getOldestEngineBurn() {
+  return prisma.engineBurn.findFirst({
+    orderBy: [{ slot: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Whether any of the given signatures are already in the engine burn log
+ */
+export async function getLoggedEngineSignatures(signatures: string[]) {
+  const rows = await prisma.engineBurn.findMany({
+    where: { signature: { in: signatures } },
+    select: { signature: true },
+    distinct: ["signature"],
+  });
+  return new Set(rows.map((r) => r.signature));
+}
+
+export async function getRecentEngineBurns(limit = 20, tokenMint?: string) {
+  return prisma.engineBurn.findMany({
+    where: tokenMint ? { tokenMint } : undefined,
+    orderBy: [{ blockTime: "desc" }, { id: "desc" }],
+    take: limit,
+  });
+}
+
+/**
+ * Engine burn totals overall and per burned mint
+ */
+export async function getEngineBurnTotals() {
+  const [overall, transactions, byToken] = await Promise.all([
+    prisma.engineBurn.aggregate({
+      _sum: { lamports: true },
+      _count: { id: true },
+      _min: { blockTime: true },
+      _max: { slot: true, blockTime: true },
+    }),
+    prisma.$queryRaw<{ count: bigint }[]>`SELECT COUNT(DISTINCT signature) AS count FROM engine_burns`,
+    prisma.engineBurn.groupBy({
+      by: ["tokenMint"],
+      _sum: { amount: true, lamports: true },
+      _count: { id: true },
+      _max: { blockTime: true },
+      orderBy: { _sum: { lamports: "desc" } },
+    }),
+  ]);
+
+  return {
+    burnCount: overall._count.id,
+    transactionCount: Number(transactions[0]?.count ?? 0),
+    totalLamports: overall._sum.lamports ?? BigInt(0),
+    firstBlockTime: overall._min.blockTime,
+    lastSlot: overall._max.slot,
+    lastBlockTime: overall._max.blockTime,
+    byToken: byToken.map((row) => ({
+      tokenMint: row.tokenMint,
+      burnCount: row._count.id,
+      amount: row._sum.amount ?? BigInt(0),
+      lamports: row._sum.lamports ?? BigInt(0),
+      lastBlockTime: row._max.blockTime,
+    })),
+  };
+}
+
+// Sync cursor queries
+export async function getSyncCursor(tokenId: number, address: string) {
+  return prisma.syncCursor.findUnique({
+    where: { tokenId_address: { tokenId, address } },
+  });
+}
+
+/**
+ * Persist a cursor after its signatures have been processed
+ */
+export async function saveSyncCursor(
+  tokenId: number,
+  address: string,
+  addressType: CursorAddressType,
+  update: CursorUpdate
+) {
+  const data = { ...update, lastSyncedAt: new Date() };
+
+  return prisma.syncCursor.upsert({
+    where: { tokenId_address: { tokenId, address } },
+    update: data,
+    create: { tokenId, address, addressType, ...data },
+  });
+}
+
+/**
+ * Persist a backfill checkpoint so an interrupted backfill can resume
+ * The head is only seeded when the cursor does not exist yet
+ */
+export async function saveBackfillCheckpoint(
+  tokenId: number,
+  address: string,
+  addressType: CursorAddressType,
+  progress: BackfillProgress,
+  head?: { lastSignature: string; lastSlot: bigint }
+) {
+  return prisma.syncCursor.upsert({
+    where: { tokenId_address: { tokenId, address } },
+    update: progress,
+    create: { tokenId, address, addressType, ...head, ...progress },
+  });
+}
+
+/**
+ * Recompute a token's totals and badge from its fee events, then its creator's aggregates
+ */
+export async function recalculateTokenAggregates(tokenId: number) {
+  const statsAggregation = await prisma.feeEvent.groupBy({
+    by: ["eventType"],
+    where: { tokenId },
+    _sum: { amountLamports: true },
+  });
+
+  let totalCollected = BigInt(0);
+  let totalBurned = BigInt(0);
+  let totalWithdrawn = BigInt(0);
+
+  for (const stat of statsAggregation) {
+    const amount = stat._sum.amountLamports ?? BigInt(0);
+    switch (stat.eventType) {
+      case "collect":
+        totalCollected = amount;
+        break;
+      case "burn":
+        totalBurned = amount;
+        break;
+      case "withdraw":
+        totalWithdrawn = amount;
+        break;
+    }
+  }
+
+  const totalHeld = totalCollected - totalBurned - totalWithdrawn;
+  const burnPercentage = calculateBurnPercentage(totalCollected, totalBurned);
+
+  const updatedToken = await updateTokenStats(tokenId, {
+    totalFeesCollected: totalCollected,
+    totalFeesBurned: totalBurned,
+    totalFeesWithdrawn: totalWithdrawn,
+    totalFeesHeld: totalHeld < 0 ? BigInt(0) : totalHeld,
+    burnPercentage,
+    badgeTier: calculateBadgeTier(burnPercentage),
+  });
+
+  if (updatedToken.creatorWallet) {
+    await updateCreatorStats(updatedToken.creatorWallet);
+  }
+
+  return recalculateTokenBurnAccounting(tokenId);
+}
+
+// Creator queries
+export async function getCreatorByWallet(wallet: string) {
+  return prisma.creator.findUnique({
+    where: { wallet },
+    include: {
+      tokens: {
+        orderBy: { totalFeesCollected: "desc" },
+      },
+    },
+  });
+}
+
+/**
+ * Sum fee totals across all of a creator's tokens
+ */
+export async function getCreatorFeeTotals(wallet: string) {
+  const result = await prisma.token.aggregate({
+    where: { creatorWallet: wallet },
+    _sum: {
+      totalFeesCollected: true,
+      totalFeesBurned: true,
+      totalFeesWithdrawn: true,
+    },
+  });
+
+  return {
+    totalCollected: result._sum.totalFeesCollected ?? BigInt(0),
+    totalBurned: result._sum.totalFeesBurned ?? BigInt(0),
+    totalWithdrawn: result._sum.totalFeesWithdrawn ?? BigInt(0),
+  };
+}
+
+/**
+ * Recompute a creator's aggregates from all of their tokens
+ */
+export async function updateCreatorStats(wallet: string) {
+  const result = await prisma.token.aggregate({
+    where: { creatorWallet: wallet },
+    _sum: {
+      totalFeesCollected: true,
+      totalFeesBurned: true,
+    },
+    _count: {
+      id: true,
+    },
+  });
+
+  const totalEarned = result._sum.totalFeesCollected ?? BigInt(0);
+  const totalBurned = result._sum.totalFeesBurned ?? BigInt(0);
+  const overallBurnPercentage = calculateBurnPercentage(totalEarned, totalBurned);
+
+  return prisma.creator.update({
+    where: { wallet },
+    data: {
+      totalTokensCreated: result._count.id,
+      totalFeesEarned: totalEarned,
+      totalFeesBurned: totalBurned,
+      overallBurnPercentage,
+      badgeTier: calculateBadgeTier(overallBurnPercentage),
+    },
+  });
+}
+
 export async function getRecentFeeEvents(limit = 20) {
   return prisma.feeEvent.findMany({
     orderBy: { blockTime: "desc" },
@@ -190,7 +1164,7 @@ export async function getRecentFeeEvents(limit = 20) {
 export async function getFeeEventsByToken(tokenId: number, options?: {
   limit?: number;
   offset?: number;
-  eventType?: "collect" | "withdraw" | "burn";
+  eventType?: FeeEventType;
 }) {
   return prisma.feeEvent.findMany({
     where: {
@@ -203,4 +1177,68 @@ export async function getFeeEventsByToken(tokenId: number, options?: {
   });
 }
 
+/**
+ * Count one request in a Postgres rate limit window (Node-side rate_limit_hit() caller)
+ */
+export async function hitRateLimitBucket(key: string, windowMs: number) {
+  const rows = await prisma.$queryRaw<{ count: number; reset_at: Date }[]>`
+    SELECT * FROM rate_limit_hit(${key}, ${windowMs}::integer)
+  `;
+  return { count: rows[0].count, resetAt: rows[0].reset_at };
+}
+
+/**
+ * Delete rate limit windows that have already reset
+ */
+export async function pruneExpiredRateLimitBuckets() {
+  return prisma.rateLimitBucket.deleteMany({
+    where: { resetAt: { lt: new Date() } },
+  });
+}
+
+// API key queries
+export async function createApiKey(data: {
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+  tier: string;
+  createdBy: string;
+}) {
+  return prisma.apiKey.create({ data });
+}
+
+/**
+ * All API keys with their usage counters, newest first
+ */
+export async function getApiKeys() {
+  return prisma.apiKey.findMany({
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Revoke an API key; revoking twice keeps the original time and reason
+ * Returns null if no key exists for the id
+ */
+export async function revokeApiKey(id: number, reason?: string) {
+  const key = await prisma.apiKey.findUnique({ where: { id } });
+  if (!key || key.revokedAt) return key;
+
+  return prisma.apiKey.update({
+    where: { id },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+/**
+ * Count one request against an unrevoked key (Node-side api_key_touch() caller)
+ * Returns null for unknown or revoked keys
+ */
+export async function touchApiKey(keyHash: string) {
+  const rows = await prisma.$queryRaw<{ id: number; tier: string }[]>`
+    SELECT * FROM api_key_touch(${keyHash})
+  `;
+  return rows[0] ?? null;
+}
+
 export default prisma;
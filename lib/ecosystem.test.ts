@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import type { ParsedTransactionWithMeta } from "@solana/web3.js";
+import {
+  extractEngineBurnLegs,
+  summarizeEngineTransaction,
+  calculateRootContribution,
+  getEngineInstructionType,
+  WSOL_MINT,
+} from "./ecosystem";
+
+const ROOT = "61V8vBaqAGMpgDQi4JcAwo1dmBGHsyhzodcPqnEVpump";
+const SECONDARY = "SecondaryMint1111111111111111111111111111111";
+
+const solTransfer = (lamports: number) => ({ parsed: { type: "transfer", info: { lamports } } });
+const wsolTransfer = (amount: number) => ({
+  parsed: { type: "transferChecked", info: { mint: WSOL_MINT, tokenAmount: { amount: String(amount) } } },
+});
+const burn = (mint: string, amount: number) => ({
+  parsed: { type: "burn", info: { mint, amount: String(amount) } },
+});
+
+function parsedTx(
+  instructions: unknown[],
+  innerInstructions: { index: number; instructions: unknown[] }[] = []
+): ParsedTransactionWithMeta {
+  return {
+    transaction: { message: { instructions } },
+    meta: { innerInstructions },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+describe("extractEngineBurnLegs", () => {
+  it("assigns SOL moved before each burn to that burn", () => {
+    const tx = parsedTx([{ programId: "engine" }], [
+      {
+        index: 0,
+        instructions: [
+          wsolTransfer(552_000),
+          burn(SECONDARY, 1_000),
+          wsolTransfer(448_000),
+          burn(ROOT, 20),
+          solTransfer(5_000), // After the last burn: not part of a leg
+        ],
+      },
+    ]);
+
+    expect(extractEngineBurnLegs(tx)).toEqual([
+      { mint: SECONDARY, amount: BigInt(1_000), lamports: BigInt(552_000) },
+      { mint: ROOT, amount: BigInt(20), lamports: BigInt(448_000) },
+    ]);
+  });
+
+  it("follows execution order across top-level and inner instructions", () => {
+    const tx = parsedTx(
+      [solTransfer(100), { programId: "swap" }, burn(ROOT, 5)],
+      [{ index: 1, instructions: [wsolTransfer(900)] }]
+    );
+
+    expect(extractEngineBurnLegs(tx)).toEqual([
+      { mint: ROOT, amount: BigInt(5), lamports: BigInt(1_000) },
+    ]);
+  });
+
+  it("merges consecutive burns of the same mint", () => {
+    const tx = parsedTx([wsolTransfer(10), burn(ROOT, 1), wsolTransfer(20), burn(ROOT, 2)]);
+
+    expect(extractEngineBurnLegs(tx)).toEqual([
+      { mint: ROOT, amount: BigInt(3), lamports: BigInt(30) },
+    ]);
+  });
+});
+
+describe("summarizeEngineTransaction", () => {
+  it("attributes root burns to the secondary that funded them", () => {
+    const result = summarizeEngineTransaction(
+      [
+        { mint: SECONDARY, amount: BigInt(1_000), lamports: BigInt(552) },
+        { mint: ROOT, amount: BigInt(20), lamports: BigInt(448) },
+      ],
+      ROOT
+    );
+
+    expect(result).toEqual({
+      tokenMint: SECONDARY,
+      tokenType: "secondary",
+      rootLamports: BigInt(448),
+      secondaryLamports: BigInt(552),
+      rootTokensBurned: BigInt(20),
+      secondaryTokensBurned: BigInt(1_000),
+    });
+  });
+
+  it("treats root-only cycles as root activity", () => {
+    const result = summarizeEngineTransaction(
+      [{ mint: ROOT, amount: BigInt(20), lamports: BigInt(448) }],
+      ROOT
+    );
+
+    expect(result?.tokenType).toBe("root");
+    expect(result?.tokenMint).toBe(ROOT);
+  });
+
+  it("returns null without burns", () => {
+    expect(summarizeEngineTransaction([], ROOT)).toBeNull();
+  });
+});
+
+describe("calculateRootContribution", () => {
+  it("returns the root share of fees", () => {
+    expect(calculateRootContribution(BigInt(448), BigInt(552))).toBe(44.8);
+  });
+
+  it("returns 0 when no SOL was attributed", () => {
+    expect(calculateRootContribution(BigInt(0), BigInt(0))).toBe(0);
+  });
+});
+
+describe("getEngineInstructionType", () => {
+  const PROGRAM = "ASDFc5hkEM2MF8mrAAtCPieV6x6h1B5BwjgztFt7Xbui";
+
+  it("reads the instruction logged after the engine invoke", () => {
+    const logs = [
+      "Program ComputeBudget111111111111111111111111111111 invoke [1]",
+      "Program log: Instruction: SetComputeUnitLimit",
+      `Program ${PROGRAM} invoke [1]`,
+      "Program log: Instruction: ExecuteCycle",
+      "Program log: Instruction: Burn",
+    ];
+
+    expect(getEngineInstructionType(logs, PROGRAM)).toBe("ExecuteCycle");
+  });
+
+  it("returns null when the engine did not log an instruction", () => {
+    expect(getEngineInstructionType([`Program ${PROGRAM} invoke [1]`], PROGRAM)).toBeNull();
+    expect(getEngineInstructionType(null, PROGRAM)).toBeNull();
+  });
+});
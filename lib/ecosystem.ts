@@ -0,0 +1,190 @@
+/**
+ * ASDF Ecosystem Accounting
+ * Splits burn-engine transactions into root and secondary burn legs
+ */
+
+import type { ParsedTransactionWithMeta } from "@solana/web3.js";
+
+// Wrapped SOL mint; swaps into burned tokens are paid in wSOL
+export const WSOL_MINT = "So11111111111111111111111111111111111111112";
+
+export type EcosystemTokenType = "root" | "secondary";
+
+// How engine activity was found: live log subscription or program signature history
+export type EngineActivitySource = "monitor" | "history";
+
+/**
+ * One burn of a mint and the SOL moved to buy it
+ */
+export interface EngineBurnLeg {
+  mint: string;
+  amount: bigint; // Base units burned
+  lamports: bigint; // SOL moved since the previous burn
+}
+
+/**
+ * What a single engine transaction contributed, from the secondary token's point of view
+ */
+export interface EngineContribution {
+  tokenMint: string; // The secondary mint, or the root mint for root-only cycles
+  tokenType: EcosystemTokenType;
+  rootLamports: bigint;
+  secondaryLamports: bigint;
+  rootTokensBurned: bigint;
+  secondaryTokensBurned: bigint;
+}
+
+interface ParsedIx {
+  type: string;
+  info: Record<string, unknown>;
+}
+
+/**
+ * Read the parsed type/info of an instruction, or null for unparsed ones
+ */
+function asParsed(ix: unknown): ParsedIx | null {
+  const parsed = (ix as { parsed?: unknown }).parsed;
+  if (!parsed || typeof parsed !== "object") return null;
+
+  const { type, info } = parsed as { type?: unknown; info?: unknown };
+  if (typeof type !== "string" || !info || typeof info !== "object") return null;
+
+  return { type, info: info as Record<string, unknown> };
+}
+
+function toBigInt(value: unknown): bigint {
+  if (typeof value === "string" || typeof value === "number") {
+    try {
+      return BigInt(value);
+    } catch {
+      return BigInt(0);
+    }
+  }
+  return BigInt(0);
+}
+
+/**
+ * Instructions in execution order: each top-level instruction followed by its inner ones
+ */
+function flattenInstructions(tx: ParsedTransactionWithMeta): unknown[] {
+  const inner = new Map<number, unknown[]>();
+  for (const group of tx.meta?.innerInstructions ?? []) {
+    inner.set(group.index, group.instructions);
+  }
+
+  return tx.transaction.message.instructions.flatMap((ix, index) => [
+    ix,
+    ...(inner.get(index) ?? []),
+  ]);
+}
+
+/**
+ * Split an engine transaction into burn legs
+ *
+ * SOL moved by system transfers and wSOL transfers is assigned to the next burn,
+ * so a cycle of swap → burn → swap → burn yields one leg per burned mint.
+ * SOL moved after the last burn is not part of any leg.
+ */
+export function extractEngineBurnLegs(tx: ParsedTransactionWithMeta): EngineBurnLeg[] {
+  const legs: EngineBurnLeg[] = [];
+  let pendingLamports = BigInt(0);
+
+  for (const ix of flattenInstructions(tx)) {
+    const parsed = asParsed(ix);
+    if (!parsed) continue;
+
+    const { type, info } = parsed;
+
+    if (type === "transfer" && info.lamports !== undefined) {
+      pendingLamports += toBigInt(info.lamports);
+      continue;
+    }
+
+    if (type === "transferChecked" && info.mint === WSOL_MINT) {
+      const tokenAmount = info.tokenAmount as { amount?: string } | undefined;
+      pendingLamports += toBigInt(tokenAmount?.amount);
+      continue;
+    }
+
+    if ((type === "burn" || type === "burnChecked") && typeof info.mint === "string") {
+      const tokenAmount = info.tokenAmount as { amount?: string } | undefined;
+      const amount = toBigInt(info.amount ?? tokenAmount?.amount);
+
+      const previous = legs[legs.length - 1];
+      if (previous && previous.mint === info.mint) {
+        previous.amount += amount;
+        previous.lamports += pendingLamports;
+      } else {
+        legs.push({ mint: info.mint, amount, lamports: pendingLamports });
+      }
+      pendingLamports = BigInt(0);
+    }
+  }
+
+  return legs;
+}
+
+/**
+ * Attribute burn legs to the secondary token that funded them
+ * Only the first secondary mint is counted; engine cycles serve one token at a time
+ */
+export function summarizeEngineTransaction(
+  legs: EngineBurnLeg[],
+  rootMint: string
+): EngineContribution | null {
+  if (legs.length === 0) return null;
+
+  const secondaryMint = legs.find((leg) => leg.mint !== rootMint)?.mint;
+  const contribution: EngineContribution = {
+    tokenMint: secondaryMint ?? rootMint,
+    tokenType: secondaryMint ? "secondary" : "root",
+    rootLamports: BigInt(0),
+    secondaryLamports: BigInt(0),
+    rootTokensBurned: BigInt(0),
+    secondaryTokensBurned: BigInt(0),
+  };
+
+  for (const leg of legs) {
+    if (leg.mint === rootMint) {
+      contribution.rootLamports += leg.lamports;
+      contribution.rootTokensBurned += leg.amount;
+    } else if (leg.mint === secondaryMint) {
+      contribution.secondaryLamports += leg.lamports;
+      contribution.secondaryTokensBurned += leg.amount;
+    }
+  }
+
+  return contribution;
+}
+
+/**
+ * Share of a secondary's burn-engine fees spent on the root token, to 2 decimal places
+ */
+export function calculateRootContribution(
+  rootLamports: bigint,
+  secondaryLamports: bigint
+): number {
+  const total = rootLamports + secondaryLamports;
+  if (total <= BigInt(0)) {
+    return 0;
+  }
+
+  return Number((rootLamports * BigInt(10000)) / total) / 100;
+}
+
+/**
+ * Name of the burn engine instruction from Anchor-style program logs
+ * Reads the "Instruction: <Name>" line right after the program's first invoke
+ */
+export function getEngineInstructionType(
+  logMessages: string[] | null | undefined,
+  programId: string
+): string | null {
+  if (!logMessages) return null;
+
+  const invoke = logMessages.findIndex((line) => line.startsWith(`Program ${programId} invoke`));
+  if (invoke < 0) return null;
+
+  const match = logMessages[invoke + 1]?.match(/^Program log: Instruction: (\w+)/);
+  return match ? match[1] : null;
+}
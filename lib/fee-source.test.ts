@@ -0,0 +1,139 @@
+/**
+ * Fee Source Tests
+ * Tests for per-source classification of batch-indexed transactions
+ */
+
+import { describe, it, expect } from "vitest";
+import type { EnrichedTransaction } from "./helius";
+import {
+  classifySourceTransaction,
+  classifyWalletTransaction,
+  getTransactionProgramIds,
+} from "./fee-source";
+
+const CREATOR_VAULT = "4NQ4yGprSPCqvRJmMNV7rnJ81BUcCrgPEq4TVQ1FthYi";
+const CREATOR_WALLET = "TSLvdd1pWpHVjahSpsvCXUbgwsL3JAcvokwaKt1eokM";
+const TOKEN_MINT = "61V8vBaqAGMpgDQi4JcAwo1dmBGHsyhzodcPqnEVpump";
+const OTHER_MINT = "2qEHjDLDLbuBgRYvsxhc5D6uDWAivNFZGan56P1tpump";
+const PUMP_PROGRAM = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
+const SYSTEM_PROGRAM = "11111111111111111111111111111111";
+const TRADER = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+
+function createTx(overrides: Partial<EnrichedTransaction> = {}): EnrichedTransaction {
+  return {
+    signature: "sig-" + Math.random().toString(36).slice(2),
+    slot: 123456789,
+    timestamp: 1735000000,
+    type: "UNKNOWN",
+    source: "SYSTEM_PROGRAM",
+    fee: 5000,
+    feePayer: TRADER,
+    accountData: [],
+    nativeTransfers: [],
+    tokenTransfers: [],
+    instructions: [],
+    ...overrides,
+  };
+}
+
+// Pump.fun trade paying the creator fee straight to the creator wallet
+function createWalletFeeTx(mint = TOKEN_MINT): EnrichedTransaction {
+  return createTx({
+    type: "SWAP",
+    source: "PUMP_FUN",
+    nativeTransfers: [{ fromUserAccount: TRADER, toUserAccount: CREATOR_WALLET, amount: 500000 }],
+    tokenTransfers: [
+      { fromUserAccount: TRADER, toUserAccount: TRADER, mint, tokenAmount: 1000 },
+    ],
+    instructions: [
+      {
+        programId: PUMP_PROGRAM,
+        accounts: [],
+        data: "",
+        innerInstructions: [{ programId: SYSTEM_PROGRAM, accounts: [], data: "" }],
+      },
+    ],
+  });
+}
+
+describe("getTransactionProgramIds", () => {
+  it("includes inner instruction programs without duplicates", () => {
+    const ids = getTransactionProgramIds(createWalletFeeTx());
+    expect(ids.sort()).toEqual([SYSTEM_PROGRAM, PUMP_PROGRAM].sort());
+  });
+});
+
+describe("classifyWalletTransaction", () => {
+  it("classifies a pump.fun fee payout to the creator wallet as collect", () => {
+    const event = classifyWalletTransaction(createWalletFeeTx(), CREATOR_WALLET, TOKEN_MINT);
+
+    expect(event?.type).toBe("collect");
+    expect(event?.amountLamports).toBe(BigInt(500000));
+  });
+
+  it("ignores payouts for the creator's other tokens", () => {
+    const event = classifyWalletTransaction(createWalletFeeTx(OTHER_MINT), CREATOR_WALLET, TOKEN_MINT);
+    expect(event).toBeNull();
+  });
+
+  it("ignores plain SOL received without pump.fun involvement", () => {
+    const tx = createTx({
+      nativeTransfers: [{ fromUserAccount: TRADER, toUserAccount: CREATOR_WALLET, amount: 500000 }],
+      tokenTransfers: [
+        { fromUserAccount: TRADER, toUserAccount: CREATOR_WALLET, mint: TOKEN_MINT, tokenAmount: 1 },
+      ],
+    });
+
+    expect(classifyWalletTransaction(tx, CREATOR_WALLET, TOKEN_MINT)).toBeNull();
+  });
+
+  it("does not turn personal wallet spending into withdrawals", () => {
+    const tx = createTx({
+      nativeTransfers: [{ fromUserAccount: CREATOR_WALLET, toUserAccount: TRADER, amount: 700000 }],
+      tokenTransfers: [
+        { fromUserAccount: CREATOR_WALLET, toUserAccount: TRADER, mint: TOKEN_MINT, tokenAmount: 5 },
+      ],
+    });
+
+    expect(classifyWalletTransaction(tx, CREATOR_WALLET, TOKEN_MINT)).toBeNull();
+  });
+
+  it("keeps buyback-and-burn from the creator wallet", () => {
+    const tx = createTx({
+      description: "swap on jupiter",
+      nativeTransfers: [{ fromUserAccount: CREATOR_WALLET, toUserAccount: TRADER, amount: 700000 }],
+      tokenTransfers: [
+        { fromUserAccount: CREATOR_WALLET, toUserAccount: "", mint: TOKEN_MINT, tokenAmount: 42, toTokenAccount: "" },
+      ],
+    });
+
+    const event = classifyWalletTransaction(tx, CREATOR_WALLET, TOKEN_MINT);
+    expect(event?.type).toBe("burn");
+  });
+});
+
+describe("classifySourceTransaction", () => {
+  it("uses the vault classifier for vault sources", () => {
+    const tx = createTx({
+      nativeTransfers: [{ fromUserAccount: CREATOR_VAULT, toUserAccount: CREATOR_WALLET, amount: 1000 }],
+    });
+
+    const event = classifySourceTransaction(
+      tx,
+      { type: "vault", address: CREATOR_VAULT },
+      CREATOR_WALLET,
+      TOKEN_MINT
+    );
+    expect(event?.type).toBe("withdraw");
+  });
+
+  it("applies the wallet heuristics for wallet sources", () => {
+    const event = classifySourceTransaction(
+      createWalletFeeTx(),
+      { type: "wallet", address: CREATOR_WALLET },
+      CREATOR_WALLET,
+      TOKEN_MINT
+    );
+    expect(event?.type).toBe("collect");
+  });
+});
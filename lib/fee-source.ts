@@ -9,7 +9,13 @@
  */
 
 import { Connection, PublicKey } from "@solana/web3.js";
-import { getHeliusRpcUrl, getTransactionHistory, PUMP_PROGRAM_ID } from "./helius";
+import {
+  getHeliusRpcUrl,
+  getTransactionHistory,
+  PUMP_PROGRAM_ID,
+  type EnrichedTransaction,
+} from "./helius";
+import { classifyTransaction, type ClassifiedEvent } from "./classifier";
 
 // =============================================================================
 // TYPES
@@ -465,6 +471,88 @@ export function analyzePumpFeeHeuristics(
   };
 }
 
+// =============================================================================
+// BATCH SOURCE CLASSIFICATION
+// =============================================================================
+
+/**
+ * Stored FeeEvent.source per fee source type
+ * Same labels the realtime daemon records (WebSocketTracker VaultType)
+ */
+export const FEE_SOURCE_LABELS: Record<FeeSourceType, "BC" | "WALLET"> = {
+  vault: "BC",
+  wallet: "WALLET",
+};
+
+/**
+ * Collect every program id invoked by an enriched transaction
+ */
+export function getTransactionProgramIds(tx: EnrichedTransaction): string[] {
+  const programIds = new Set<string>();
+
+  for (const ix of tx.instructions || []) {
+    programIds.add(ix.programId);
+    for (const inner of ix.innerInstructions || []) {
+      programIds.add(inner.programId);
+    }
+  }
+
+  return Array.from(programIds);
+}
+
+/**
+ * Classify a creator wallet transaction for one token
+ * Only pump.fun fee payouts (high-confidence heuristics) count as collects,
+ * and wallet outflows are personal spending rather than vault withdrawals
+ */
+export function classifyWalletTransaction(
+  tx: EnrichedTransaction,
+  creatorWallet: string,
+  tokenMint: string
+): ClassifiedEvent | null {
+  // A creator wallet sees activity for all of its tokens; keep this mint only
+  const touchesMint =
+    (tx.tokenTransfers || []).some((t) => t.mint === tokenMint) ||
+    (tx.accountData || []).some((a) => a.account === tokenMint);
+  if (!touchesMint) return null;
+
+  // The wallet acts as its own vault: inflows are collects, swap + burn is a burn
+  const event = classifyTransaction(tx, creatorWallet, creatorWallet, tokenMint);
+  if (!event) return null;
+
+  if (event.type === "burn") return event;
+  if (event.type !== "collect") return null;
+
+  const heuristics = analyzePumpFeeHeuristics(
+    {
+      programIds: getTransactionProgramIds(tx),
+      description: tx.description,
+      nativeTransfers: tx.nativeTransfers,
+    },
+    creatorWallet
+  );
+
+  if (heuristics.confidence !== "high") return null;
+
+  return { ...event, reasons: [...event.reasons, ...heuristics.indicators] };
+}
+
+/**
+ * Classify a transaction fetched from one of a token's fee sources
+ */
+export function classifySourceTransaction(
+  tx: EnrichedTransaction,
+  source: Pick<FeeSource, "type" | "address">,
+  creatorWallet: string,
+  tokenMint: string
+): ClassifiedEvent | null {
+  if (source.type === "wallet") {
+    return classifyWalletTransaction(tx, creatorWallet, tokenMint);
+  }
+
+  return classifyTransaction(tx, source.address, creatorWallet, tokenMint);
+}
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  decideFinality,
+  isPlaceholderSignature,
+  finalizableEventsWhere,
+  PLACEHOLDER_SIGNATURE_PREFIX,
+  DEFAULT_DROP_AFTER_MS,
+} from "./finality";
+
+const detectedAt = new Date("2026-01-01T00:00:00Z");
+const soon = new Date(detectedAt.getTime() + 30_000);
+const late = new Date(detectedAt.getTime() + DEFAULT_DROP_AFTER_MS + 1);
+
+describe("decideFinality", () => {
+  it("finalizes events whose transaction reached finalized commitment", () => {
+    expect(
+      decideFinality({ slot: 100, confirmationStatus: "finalized", err: null }, detectedAt, soon)
+    ).toBe("finalize");
+  });
+
+  it("keeps confirmed events pending", () => {
+    expect(
+      decideFinality({ slot: 100, confirmationStatus: "confirmed", err: null }, detectedAt, late)
+    ).toBe("pending");
+  });
+
+  it("drops failed transactions immediately", () => {
+    expect(
+      decideFinality({ slot: 100, confirmationStatus: "confirmed", err: { InstructionError: [0, "Custom"] } }, detectedAt, soon)
+    ).toBe("drop");
+  });
+
+  it("drops unknown signatures only after the deadline", () => {
+    expect(decideFinality(null, detectedAt, soon)).toBe("pending");
+    expect(decideFinality(null, detectedAt, late)).toBe("drop");
+  });
+});
+
+describe("isPlaceholderSignature", () => {
+  it("detects websocket placeholder signatures", () => {
+    expect(isPlaceholderSignature("ws-1735689600000")).toBe(true);
+    expect(isPlaceholderSignature("5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW")).toBe(false);
+  });
+});
+
+describe("finalizableEventsWhere", () => {
+  it("keeps placeholder and unresolved events out of the provisional window", () => {
+    // A backlog of unresolvable placeholders older than a real event must not fill the oldest-first page
+    const where = finalizableEventsWhere(7);
+
+    expect(where).toMatchObject({ tokenId: 7, provisional: true, unresolved: false });
+    expect(where.NOT.signature.startsWith).toBe(PLACEHOLDER_SIGNATURE_PREFIX);
+  });
+});
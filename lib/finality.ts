@@ -0,0 +1,69 @@
+/**
+ * Event Finality
+ * Decides whether a provisional (confirmed-commitment) event is final, dropped or still pending
+ */
+
+import { randomBytes } from "crypto";
+import type { SignatureStatusInfo } from "./helius";
+
+export type FinalityDecision = "finalize" | "drop" | "pending";
+
+// Finalization normally takes ~32 slots (~15s); anything unseen this long has been dropped
+export const DEFAULT_DROP_AFTER_MS = 5 * 60 * 1000;
+
+// Realtime events without a resolved signature use this placeholder prefix
+export const PLACEHOLDER_SIGNATURE_PREFIX = "ws-";
+
+/**
+ * Create a unique placeholder for an event whose signature is not yet known
+ */
+export function createPlaceholderSignature(now: Date = new Date()): string {
+  return `${PLACEHOLDER_SIGNATURE_PREFIX}${now.getTime()}-${randomBytes(4).toString("hex")}`;
+}
+
+/**
+ * Whether a stored signature is a placeholder that cannot be looked up on-chain
+ */
+export function isPlaceholderSignature(signature: string): boolean {
+  return signature.startsWith(PLACEHOLDER_SIGNATURE_PREFIX);
+}
+
+/**
+ * Query filter for provisional events the finalization pass can look up
+ * Placeholders have no on-chain signature and would otherwise fill the oldest-first
+ * window for good, starving the real events behind them
+ */
+export function finalizableEventsWhere(tokenId: number) {
+  return {
+    tokenId,
+    provisional: true,
+    unresolved: false,
+    NOT: { signature: { startsWith: PLACEHOLDER_SIGNATURE_PREFIX } },
+  };
+}
+
+/**
+ * Decide what to do with a provisional event given its signature status
+ * A failed transaction is dropped immediately; an unknown one only after dropAfterMs
+ */
+export function decideFinality(
+  status: SignatureStatusInfo | null,
+  detectedAt: Date,
+  now: Date = new Date(),
+  dropAfterMs: number = DEFAULT_DROP_AFTER_MS
+): FinalityDecision {
+  if (status?.err) {
+    return "drop";
+  }
+
+  if (status?.confirmationStatus === "finalized") {
+    return "finalize";
+  }
+
+  // Still confirmed/processed, or not yet visible to the RPC node
+  if (!status && now.getTime() - detectedAt.getTime() > dropAfterMs) {
+    return "drop";
+  }
+
+  return "pending";
+}
@@ -258,6 +258,15 @@ export interface SignatureInfo {
   blockTime: number | null;
 }
 
+/**
+ * Signature status (getSignatureStatuses response)
+ */
+export interface SignatureStatusInfo {
+  slot: number;
+  confirmationStatus: "processed" | "confirmed" | "finalized" | null;
+  err: unknown | null;
+}
+
 /**
  * Helius DAS API token metadata response
  */
@@ -289,6 +298,11 @@ export interface TokenMetadataResponse {
     print_current_supply: number;
     edition_nonce: number | null;
   };
+  token_info?: {
+    supply?: number; // Base units
+    decimals?: number;
+    token_program?: string;
+  };
   mutable: boolean;
   burnt: boolean;
 }
@@ -401,6 +415,7 @@ export async function getTransactionHistory(
   address: string,
   options?: {
     before?: string;
+    until?: string;
     limit?: number;
   }
 ): Promise<SignatureInfo[]> {
@@ -413,6 +428,7 @@ export async function getTransactionHistory(
           connection.getSignaturesForAddress(addressPubkey, {
             limit: options?.limit || 100,
             before: options?.before,
+            until: options?.until,
           }),
           REQUEST_TIMEOUT_MS,
           "getTransactionHistory"
@@ -431,6 +447,48 @@ export async function getTransactionHistory(
   );
 }
 
+/**
+ * Get confirmation status for a batch of signatures (max 256)
+ * Searches full history so old signatures are not reported as unknown
+ * Returns null for signatures the cluster has never seen
+ */
+export async function getSignatureStatuses(
+  signatures: string[]
+): Promise<(SignatureStatusInfo | null)[]> {
+  if (signatures.length === 0) {
+    return [];
+  }
+
+  return withRetry(
+    async () => {
+      try {
+        const response = await withTimeout(
+          connection.getSignatureStatuses(signatures, { searchTransactionHistory: true }),
+          REQUEST_TIMEOUT_MS,
+          "getSignatureStatuses"
+        );
+        return response.value.map((status) =>
+          status
+            ? {
+                slot: status.slot,
+                confirmationStatus: status.confirmationStatus ?? null,
+                err: status.err,
+              }
+            : null
+        );
+      } catch (error) {
+        if (error instanceof HeliusApiError) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new HeliusApiError(`Failed to fetch signature statuses: ${message}`);
+      }
+    },
+    `getSignatureStatuses(${signatures.length} sigs)`,
+    RETRY_CONFIGS.rpc
+  );
+}
+
 /**
  * Get parsed transactions with full details
  * Uses Helius REST API for enhanced transaction parsing
@@ -524,6 +582,26 @@ export async function getTokenMetadata(mintAddress: string): Promise<TokenMetada
   );
 }
 
+/**
+ * Get a mint's current supply (base units) and decimals from DAS metadata
+ * Returns null when the asset has no fungible token info
+ */
+export async function getTokenSupplyInfo(
+  mintAddress: string
+): Promise<{ supply: bigint; decimals: number } | null> {
+  const metadata = await getTokenMetadata(mintAddress);
+  const tokenInfo = metadata?.token_info;
+
+  if (tokenInfo?.supply === undefined || tokenInfo.decimals === undefined) {
+    return null;
+  }
+
+  return {
+    supply: BigInt(Math.round(tokenInfo.supply)),
+    decimals: tokenInfo.decimals,
+  };
+}
+
 /**
  * Get multiple token metadata at once
  * Uses helius-sdk v2
@@ -0,0 +1,146 @@
+/**
+ * Fee Source Indexing
+ * Incremental indexing shared by the indexer worker and /api/sync
+ */
+
+import { getTransactionHistory, getParsedTransactions, getTokenSupplyInfo } from "./helius";
+import { classifySourceTransaction, FEE_SOURCE_LABELS, type FeeSource } from "./fee-source";
+import {
+  prisma,
+  createFeeEvent,
+  getSyncCursor,
+  saveSyncCursor,
+  updateTokenSupply,
+  recalculateTokenAggregates,
+} from "./db";
+import { fetchCursorSignatures, planCursorUpdate } from "./sync-cursor";
+import { verifyStoredBurn } from "./burn-engine";
+import { sleep } from "./utils";
+
+const PARSE_BATCH_SIZE = 10;
+
+export interface IndexSourceOptions {
+  pageSize?: number;
+  maxPages?: number; // Per run once the source has a cursor; a first sync reads one page
+  batchDelayMs?: number; // Pause between parse batches (rate limiting)
+  log?: (message: string) => void;
+}
+
+/**
+ * Index new transactions from one fee source (vault PDA or creator wallet)
+ * Returns the number of fee events stored
+ */
+export async function indexSource(
+  tokenId: number,
+  mint: string,
+  creatorWallet: string,
+  source: FeeSource,
+  options: IndexSourceOptions = {}
+): Promise<number> {
+  const log = options.log ?? (() => {});
+
+  // Only fetch signatures the persisted cursor has not seen (new ones, then any gap)
+  const cursor = await getSyncCursor(tokenId, source.address);
+  log(
+    `Fetching transactions for ${source.label}: ${source.address}` +
+      (cursor?.lastSignature ? ` (since ${cursor.lastSignature.slice(0, 8)}...)` : "")
+  );
+  const history = await fetchCursorSignatures(
+    (page) => getTransactionHistory(source.address, page),
+    cursor,
+    { pageSize: options.pageSize, maxPages: cursor ? options.maxPages ?? 10 : 1 }
+  );
+  const saveCursor = () =>
+    saveSyncCursor(tokenId, source.address, source.type, planCursorUpdate(cursor, history.head, history.gap));
+
+  if (history.signatures.length === 0) {
+    log("No transactions found");
+    await saveCursor();
+    return 0;
+  }
+
+  log(`Found ${history.signatures.length} transactions`);
+
+  // Skip signatures that are already stored
+  const fetchedSignatures = history.signatures.map((s) => s.signature);
+  const existingEvents = await prisma.feeEvent.findMany({
+    where: { signature: { in: fetchedSignatures } },
+    select: { signature: true },
+  });
+  const existingSignatures = new Set(existingEvents.map((e: { signature: string }) => e.signature));
+  const newSignatures = fetchedSignatures.filter((sig) => !existingSignatures.has(sig));
+
+  if (newSignatures.length === 0) {
+    log("No new transactions to process");
+    await saveCursor();
+    return 0;
+  }
+
+  log(`Processing ${newSignatures.length} new transactions`);
+
+  let stored = 0;
+
+  for (let i = 0; i < newSignatures.length; i += PARSE_BATCH_SIZE) {
+    const batch = newSignatures.slice(i, i + PARSE_BATCH_SIZE);
+    const parsed = await getParsedTransactions(batch);
+
+    for (const tx of parsed) {
+      if (!tx) continue;
+
+      const event = classifySourceTransaction(tx, source, creatorWallet, mint);
+      if (!event) continue;
+
+      try {
+        const feeEvent = await createFeeEvent({
+          tokenId,
+          eventType: event.type,
+          amountLamports: event.amountLamports,
+          signature: event.signature,
+          blockTime: event.blockTime,
+          source: FEE_SOURCE_LABELS[source.type],
+          confidence: event.confidence,
+          reasons: event.reasons,
+          burnedTokenMint: event.burnedTokenMint,
+          burnedTokenAmount: event.burnedTokenAmount,
+        });
+
+        // Record burn type and verified flag from the burn engine
+        if (feeEvent.eventType === "burn") {
+          await verifyStoredBurn(feeEvent.id, feeEvent.signature);
+        }
+
+        stored++;
+      } catch (err) {
+        // Skip duplicates; anything else must stop the cursor from advancing past the event
+        if ((err as { code?: string })?.code !== "P2002") {
+          throw err;
+        }
+      }
+    }
+
+    if (options.batchDelayMs && i + PARSE_BATCH_SIZE < newSignatures.length) {
+      await sleep(options.batchDelayMs);
+    }
+  }
+
+  log(`Stored ${stored} events from ${source.label}`);
+
+  // Advance the cursor only once everything fetched has been stored
+  await saveCursor();
+
+  return stored;
+}
+
+/**
+ * Refresh a token's supply, then recompute its fee totals, badge, creator
+ * aggregates and burn accounting from its events
+ */
+export async function refreshTokenStats(tokenId: number, mint: string) {
+  // Supply shrinks as tokens burn, so refresh it before the supply share is recomputed
+  const supplyInfo = await getTokenSupplyInfo(mint);
+  if (supplyInfo) {
+    await updateTokenSupply(tokenId, supplyInfo.supply, supplyInfo.decimals);
+  }
+
+  return recalculateTokenAggregates(tokenId);
+}
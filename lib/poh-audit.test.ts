@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { auditPoHChain, getPoHAuditStatus, type AuditedFeeEvent } from "./poh-audit";
+import { buildPoHChain, createPoHRecord, type PoHEventInput } from "./poh-chain";
+
+const MINT = "Mint1111111111111111111111111111111111111111";
+
+const input = (signature: string, overrides: Partial<PoHEventInput> = {}): PoHEventInput => ({
+  eventType: "collect",
+  vault: "BC",
+  amountLamports: BigInt(1_000),
+  signature,
+  blockTime: new Date("2026-05-18T09:00:00Z"),
+  slot: 320_000_000,
+  ...overrides,
+});
+
+const feeEvent = (signature: string, overrides: Partial<AuditedFeeEvent> = {}): AuditedFeeEvent => ({
+  signature,
+  eventType: "collect",
+  amountLamports: BigInt(1_000),
+  blockTime: new Date("2026-05-18T09:00:00Z"),
+  provisional: false,
+  ...overrides,
+});
+
+describe("auditPoHChain", () => {
+  it("finds nothing when events and chain agree", () => {
+    const records = buildPoHChain(MINT, [input("a"), input("b", { slot: 320_000_001 })]);
+    const report = auditPoHChain([feeEvent("a"), feeEvent("b")], records);
+
+    expect(report).toMatchObject({ eventCount: 2, recordCount: 2, missing: [], extra: [], mismatched: [] });
+    expect(getPoHAuditStatus(report)).toBe("consistent");
+  });
+
+  it("reports missing events oldest first and records without events", () => {
+    const records = buildPoHChain(MINT, [input("a"), input("orphan", { slot: 320_000_001 })]);
+    const report = auditPoHChain(
+      [
+        feeEvent("a"),
+        feeEvent("late", { blockTime: new Date("2026-05-18T10:00:00Z") }),
+        feeEvent("early", { blockTime: new Date("2026-05-18T08:00:00Z") }),
+      ],
+      records
+    );
+
+    expect(report.missing.map((e) => e.signature)).toEqual(["early", "late"]);
+    expect(report.extra.map((r) => r.signature)).toEqual(["orphan"]);
+    expect(getPoHAuditStatus(report)).toBe("drifted");
+  });
+
+  it("reports amount and type mismatches", () => {
+    const records = buildPoHChain(MINT, [input("a"), input("b", { slot: 320_000_001 })]);
+    const report = auditPoHChain(
+      [feeEvent("a", { amountLamports: BigInt(2_000) }), feeEvent("b", { eventType: "burn" })],
+      records
+    );
+
+    expect(report.mismatched.map((m) => [m.signature, m.fields])).toEqual([
+      ["a", ["amount"]],
+      ["b", ["type"]],
+    ]);
+  });
+
+  it("treats reverted records as absent from the chain", () => {
+    const [original] = buildPoHChain(MINT, [input("dropped")]);
+    const revert = createPoHRecord(MINT, original, input("dropped", { eventType: "revert" }));
+
+    // The dropped event was deleted: consistent
+    expect(getPoHAuditStatus(auditPoHChain([], [original, revert]))).toBe("consistent");
+
+    // An event still stored for it is missing from the chain
+    const report = auditPoHChain([feeEvent("dropped")], [original, revert]);
+    expect(report.recordCount).toBe(0);
+    expect(report.missing.map((e) => e.signature)).toEqual(["dropped"]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * PoH Audit
+ * Cross-checks a token's fee events against its PoH chain
+ *
+ * Compares each signature's latest PoH record with its fee event; a signature
+ * whose latest record is a revert counts as absent from the chain.
+ */
+
+import type { PoHRecord } from "./poh-chain";
+
+export interface AuditedFeeEvent {
+  signature: string;
+  eventType: string;
+  amountLamports: bigint;
+  blockTime: Date;
+  provisional: boolean;
+}
+
+export interface PoHAuditMismatch {
+  signature: string;
+  fields: ("amount" | "type")[];
+  event: AuditedFeeEvent;
+  record: PoHRecord;
+}
+
+export interface PoHAuditReport {
+  eventCount: number;
+  recordCount: number; // Signatures the chain currently attests (reverts excluded)
+  missing: AuditedFeeEvent[]; // Events with no record, oldest first
+  extra: PoHRecord[]; // Records with no event, in chain order
+  mismatched: PoHAuditMismatch[];
+}
+
+export type PoHAuditStatus = "consistent" | "drifted";
+
+/**
+ * Audit fee events (collect, burn and withdraw with real signatures) against a chain
+ */
+export function auditPoHChain(events: AuditedFeeEvent[], records: PoHRecord[]): PoHAuditReport {
+  const latest = new Map<string, PoHRecord>();
+  for (const record of [...records].sort((a, b) => a.sequence - b.sequence)) {
+    latest.set(record.signature, record);
+  }
+  for (const [signature, record] of latest) {
+    if (record.eventType === "revert") latest.delete(signature);
+  }
+
+  const missing: AuditedFeeEvent[] = [];
+  const mismatched: PoHAuditMismatch[] = [];
+  const seen = new Set<string>();
+
+  for (const event of events) {
+    seen.add(event.signature);
+    const record = latest.get(event.signature);
+    if (!record) {
+      missing.push(event);
+      continue;
+    }
+
+    const fields: PoHAuditMismatch["fields"] = [];
+    if (record.amountLamports !== event.amountLamports) fields.push("amount");
+    if (record.eventType !== event.eventType) fields.push("type");
+    if (fields.length > 0) {
+      mismatched.push({ signature: event.signature, fields, event, record });
+    }
+  }
+
+  missing.sort(
+    (a, b) =>
+      a.blockTime.getTime() - b.blockTime.getTime() ||
+      (a.signature < b.signature ? -1 : a.signature > b.signature ? 1 : 0)
+  );
+
+  const extra = Array.from(latest.values())
+    .filter((record) => !seen.has(record.signature))
+    .sort((a, b) => a.sequence - b.sequence);
+
+  return {
+    eventCount: events.length,
+    recordCount: latest.size,
+    missing,
+    extra,
+    mismatched,
+  };
+}
+
+export function getPoHAuditStatus(report: PoHAuditReport): PoHAuditStatus {
+  return report.missing.length + report.extra.length + report.mismatched.length === 0
+    ? "consistent"
+    : "drifted";
+}
@@ -0,0 +1,289 @@
+import { createHash } from "crypto";
+import { describe, it, expect } from "vitest";
+import {
+  appendPoHEvent,
+  appendPoHRevert,
+  buildPoHChain,
+  generateHash,
+  toPoHVault,
+  verifyChain,
+  verifyRecordHash,
+  GENESIS_HASH,
+  type PoHAppendTransaction,
+  type PoHChainHead,
+  type PoHChainStore,
+  type PoHEventInput,
+  type PoHRecord,
+} from "./poh-chain";
+
+const MINT = "Mint1111111111111111111111111111111111111111";
+const BLOCK_TIME = new Date("2026-04-20T09:00:00Z");
+
+/**
+ * In-memory store with Postgres-like semantics: writes are staged until the
+ * transaction commits, and lockHead blocks other transactions on the same mint
+ */
+function createMemoryStore(options: { lock?: boolean; failInsertAt?: number } = {}) {
+  const records: PoHRecord[] = [];
+  const heads = new Map<string, PoHChainHead>();
+  const locks = new Map<string, Promise<void>>();
+  let inserts = 0;
+
+  const store: PoHChainStore = {
+    async transaction(fn) {
+      const staged: PoHRecord[] = [];
+      const stagedHeads = new Map<string, PoHChainHead>();
+      const releases: (() => void)[] = [];
+      const chain = (mint: string) =>
+        [...records, ...staged]
+          .filter((r) => r.tokenMint === mint)
+          .sort((a, b) => a.sequence - b.sequence);
+
+      const tx: PoHAppendTransaction = {
+        async lockHead(mint) {
+          if (options.lock === false) return;
+          const held = locks.get(mint) ?? Promise.resolve();
+          let release!: () => void;
+          const mine = new Promise<void>((resolve) => (release = resolve));
+          locks.set(mint, held.then(() => mine));
+          releases.push(release);
+          await held;
+        },
+        async getLastRecord(mint) {
+          return chain(mint).at(-1) ?? null;
+        },
+        async getLatestForSignature(mint, signature) {
+          return chain(mint).filter((r) => r.signature === signature).at(-1) ?? null;
+        },
+        async insertRecord(record) {
+          if (++inserts === options.failInsertAt) throw new Error("connection reset");
+          if (chain(record.tokenMint).some((r) => r.sequence === record.sequence)) {
+            throw new Error("unique constraint on (token_mint, sequence)");
+          }
+          staged.push(record);
+        },
+        async saveHead(mint, head) {
+          stagedHeads.set(mint, head);
+        },
+      };
+
+      try {
+        const result = await fn(tx);
+        records.push(...staged);
+        for (const [mint, head] of stagedHeads) heads.set(mint, head);
+        return result;
+      } finally {
+        releases.forEach((release) => release());
+      }
+    },
+  };
+
+  return { store, records, heads };
+}
+
+const event = (signature: string, overrides: Partial<PoHEventInput> = {}): PoHEventInput => ({
+  eventType: "collect",
+  vault: "BC",
+  amountLamports: BigInt(1_000),
+  signature,
+  blockTime: BLOCK_TIME,
+  slot: 300_000_000,
+  ...overrides,
+});
+
+describe("record formats", () => {
+  it("hashes v2 records from on-chain fields only", () => {
+    const [record] = buildPoHChain(MINT, [
+      event("sig1", { vault: "WALLET", blockTime: new Date("2026-04-20T09:00:00.750Z") }),
+    ]);
+
+    const fields = ["poh-v2", "1", GENESIS_HASH, "1776675600", "300000000"];
+    fields.push("collect", "WALLET", MINT, "1000", "sig1");
+    const expected = createHash("sha256").update(fields.join("|")).digest("hex");
+
+    expect(record.version).toBe(2);
+    expect(record.timestamp).toEqual(BLOCK_TIME);
+    expect(record.hash).toBe(expected);
+    expect(verifyRecordHash({ ...record, tokenSymbol: "RENAMED" })).toBe(true);
+  });
+
+  it("still verifies v1 records", () => {
+    const v1Data = {
+      sequence: 1,
+      prevHash: GENESIS_HASH,
+      timestamp: new Date("2025-01-01T00:00:00.123Z"),
+      eventType: "collect" as const,
+      vault: "UNKNOWN" as const,
+      tokenMint: MINT,
+      amountLamports: BigInt(1_000),
+      signature: "sig1",
+    };
+    const v1 = { ...v1Data, hash: generateHash(v1Data) };
+    const [v2] = buildPoHChain(MINT, [event("sig1")]);
+
+    expect(verifyRecordHash(v1)).toBe(true);
+    expect(verifyRecordHash({ ...v1, version: 1 })).toBe(true);
+    expect(verifyRecordHash({ ...v1, version: 2 })).toBe(false);
+    expect(v2.hash).not.toBe(v1.hash);
+  });
+
+  it("verifies chains that move from v1 to v2", async () => {
+    const { store, records } = createMemoryStore();
+    const v1Data = {
+      sequence: 1,
+      prevHash: GENESIS_HASH,
+      timestamp: new Date("2025-01-01T00:00:00.123Z"),
+      eventType: "collect" as const,
+      vault: "BC" as const,
+      tokenMint: MINT,
+      amountLamports: BigInt(1_000),
+      signature: "legacy",
+    };
+    records.push({ ...v1Data, version: 1, hash: generateHash(v1Data) });
+
+    await appendPoHEvent(store, MINT, event("sig1"));
+    expect(records.map((r) => r.version)).toEqual([1, 2]);
+    expect(verifyChain(records).valid).toBe(true);
+  });
+
+  it("derives the same chain regardless of event order", () => {
+    const events = [
+      event("b", { slot: 10 }),
+      event("a", { slot: 10 }),
+      event("c", { slot: 9, eventType: "withdraw" }),
+    ];
+
+    const chain = buildPoHChain(MINT, events);
+    expect(chain.map((r) => r.signature)).toEqual(["c", "a", "b"]);
+    expect(buildPoHChain(MINT, [...events].reverse())).toEqual(chain);
+    expect(verifyChain(chain).valid).toBe(true);
+  });
+
+  it("maps stored fee event sources to vaults", () => {
+    expect(toPoHVault("WALLET")).toBe("WALLET");
+    expect(toPoHVault("AMM")).toBe("AMM");
+    expect(toPoHVault(null)).toBe("UNKNOWN");
+  });
+});
+
+describe("appendPoHEvent", () => {
+  it("starts a new chain at the genesis hash", async () => {
+    const { store, heads } = createMemoryStore();
+    const { record, created } = await appendPoHEvent(store, MINT, event("sig1"));
+
+    expect(created).toBe(true);
+    expect(record.sequence).toBe(1);
+    expect(record.prevHash).toBe(GENESIS_HASH);
+    expect(heads.get(MINT)).toEqual({ lastSequence: 1, lastHash: record.hash });
+  });
+
+  it("serializes racing appends into one contiguous chain", async () => {
+    const { store, records } = createMemoryStore();
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => appendPoHEvent(store, MINT, event(`sig${i}`)))
+    );
+
+    expect(records.map((r) => r.sequence)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect(verifyChain(records).valid).toBe(true);
+  });
+
+  it("records an event once when two writers report the same signature", async () => {
+    const { store, records } = createMemoryStore();
+
+    const [first, second] = await Promise.all([
+      appendPoHEvent(store, MINT, event("sig1")),
+      appendPoHEvent(store, MINT, event("sig1")),
+    ]);
+
+    expect(records).toHaveLength(1);
+    expect([first.created, second.created].sort()).toEqual([false, true]);
+    expect(second.record.hash).toBe(first.record.hash);
+  });
+
+  it("keeps chains of different tokens independent", async () => {
+    const { store, heads } = createMemoryStore();
+
+    await Promise.all([
+      appendPoHEvent(store, MINT, event("sig1")),
+      appendPoHEvent(store, "OtherMint", event("sig2")),
+    ]);
+
+    expect(heads.get(MINT)?.lastSequence).toBe(1);
+    expect(heads.get("OtherMint")?.lastSequence).toBe(1);
+  });
+
+  it("leaves no partial state when a transaction fails and continues afterwards", async () => {
+    const { store, records, heads } = createMemoryStore({ failInsertAt: 2 });
+    await appendPoHEvent(store, MINT, event("sig1"));
+
+    await expect(appendPoHEvent(store, MINT, event("sig2"))).rejects.toThrow("connection reset");
+    expect(records).toHaveLength(1);
+    expect(heads.get(MINT)?.lastSequence).toBe(1);
+
+    const retried = await appendPoHEvent(store, MINT, event("sig2"));
+    expect(retried.record.sequence).toBe(2);
+    expect(verifyChain(records).valid).toBe(true);
+  });
+
+  it("recovers from a stale head by following the last stored record", async () => {
+    const { store, records, heads } = createMemoryStore();
+    await appendPoHEvent(store, MINT, event("sig1"));
+
+    // A writer that crashed between inserting and saving the head
+    const orphanData = { ...records[0], sequence: 2, prevHash: records[0].hash, signature: "sig2" };
+    records.push({ ...orphanData, hash: generateHash(orphanData) });
+    heads.set(MINT, { lastSequence: 1, lastHash: records[0].hash });
+
+    const { record } = await appendPoHEvent(store, MINT, event("sig3"));
+    expect(record.sequence).toBe(3);
+    expect(verifyChain(records).valid).toBe(true);
+  });
+
+  it("forks the chain without the head lock", async () => {
+    const { store, records } = createMemoryStore({ lock: false });
+
+    await Promise.all([
+      appendPoHEvent(store, MINT, event("sig1")),
+      appendPoHEvent(store, MINT, event("sig2")),
+    ]);
+
+    expect(records.map((r) => r.sequence)).toEqual([1, 1]);
+    expect(verifyChain(records).valid).toBe(false);
+  });
+});
+
+describe("appendPoHRevert", () => {
+  it("compensates an earlier record once", async () => {
+    const { store, records } = createMemoryStore();
+    await appendPoHEvent(store, MINT, event("sig1", { amountLamports: BigInt(5_000) }));
+
+    const [first, second] = await Promise.all([
+      appendPoHRevert(store, MINT, "sig1"),
+      appendPoHRevert(store, MINT, "sig1"),
+    ]);
+
+    expect([first, second].filter(Boolean)).toHaveLength(1);
+    expect(records.map((r) => r.eventType)).toEqual(["collect", "revert"]);
+    expect(records[1].amountLamports).toBe(BigInt(5_000));
+    expect(records[1].timestamp).toEqual(records[0].timestamp);
+    expect(verifyChain(records).valid).toBe(true);
+  });
+
+  it("returns null for unknown signatures", async () => {
+    const { store, records } = createMemoryStore();
+
+    expect(await appendPoHRevert(store, MINT, "missing")).toBeNull();
+    expect(records).toHaveLength(0);
+  });
+
+  it("records an event again after it was reverted", async () => {
+    const { store, records } = createMemoryStore();
+    await appendPoHEvent(store, MINT, event("sig1"));
+    await appendPoHRevert(store, MINT, "sig1");
+
+    const { created } = await appendPoHEvent(store, MINT, event("sig1"));
+    expect(created).toBe(true);
+    expect(records.map((r) => r.eventType)).toEqual(["collect", "revert", "collect"]);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Proof-of-History Chain
+ * Record formats, hashing, chain verification and the single-writer append protocol
+ *
+ * Storage-agnostic so it can be exercised without a database; the Prisma-backed
+ * store lives in lib/proof-of-history.ts.
+ */
+
+import { createHash } from "crypto";
+import { verifySignedHead, type PoHPublicKey, type PoHSignedHead } from "./poh-signing";
+
+// "revert" compensates an earlier record whose transaction never reached finality
+export type PoHEventType = "collect" | "burn" | "withdraw" | "revert";
+
+// v1 records map WALLET to UNKNOWN; v2 keeps the source the fee moved through
+export type PoHVault = "BC" | "AMM" | "WALLET" | "UNKNOWN";
+
+/**
+ * Map a stored fee event source (null for legacy rows) to a PoH vault
+ */
+export function toPoHVault(source: string | null | undefined): PoHVault {
+  return source === "BC" || source === "AMM" || source === "WALLET" ? source : "UNKNOWN";
+}
+
+/**
+ * Record format
+ * 1: hashes our own detection time; not reproducible from chain data
+ * 2: hashes only on-chain fields (block time, slot, source), so anyone with an
+ *    RPC node can rebuild the same hashes
+ */
+export type PoHVersion = 1 | 2;
+
+export const CURRENT_POH_VERSION: PoHVersion = 2;
+
+export interface PoHRecord {
+  version?: PoHVersion; // Absent on records exported before versioning (v1)
+  sequence: number;
+  hash: string;
+  prevHash: string;
+  timestamp: Date; // v2: the transaction's block time, whole seconds
+  slot?: number;
+  eventType: PoHEventType;
+  vault: PoHVault;
+  tokenMint: string;
+  tokenSymbol?: string; // Display only, never hashed
+  amountLamports: bigint;
+  signature: string;
+}
+
+/**
+ * An event to append; sequence, links and hash are assigned by the writer
+ */
+export interface PoHEventInput {
+  eventType: PoHEventType;
+  vault: PoHVault;
+  amountLamports: bigint;
+  signature: string;
+  blockTime: Date;
+  slot: number;
+  tokenSymbol?: string;
+}
+
+// Genesis hash for new chains
+export const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Fields hashed by each format, in order, joined with "|"
+ *
+ * v2: "poh-v2", sequence, prevHash, block time (unix seconds), slot, eventType,
+ * vault (BC | AMM | WALLET), tokenMint, amountLamports, signature
+ */
+function getHashFields(record: Omit<PoHRecord, "hash">): string[] {
+  if (record.version === 2) {
+    return [
+      "poh-v2",
+      record.sequence.toString(),
+      record.prevHash,
+      Math.floor(record.timestamp.getTime() / 1000).toString(),
+      (record.slot ?? 0).toString(),
+      record.eventType,
+      record.vault,
+      record.tokenMint,
+      record.amountLamports.toString(),
+      record.signature,
+    ];
+  }
+
+  return [
+    record.sequence.toString(),
+    record.prevHash,
+    record.timestamp.toISOString(),
+    record.slot?.toString() || "0",
+    record.eventType,
+    record.vault,
+    record.tokenMint,
+    record.amountLamports.toString(),
+    record.signature,
+  ];
+}
+
+/**
+ * Generate SHA-256 hash for a PoH record in its format version
+ */
+export function generateHash(record: Omit<PoHRecord, "hash">): string {
+  return createHash("sha256").update(getHashFields(record).join("|")).digest("hex");
+}
+
+/**
+ * Verify a single PoH record's hash (v1 or v2)
+ */
+export function verifyRecordHash(record: PoHRecord): boolean {
+  const { hash, ...data } = record;
+  return hash === generateHash(data);
+}
+
+/**
+ * Build a v2 record on top of the previous one
+ */
+export function createPoHRecord(
+  tokenMint: string,
+  previous: Pick<PoHRecord, "sequence" | "hash"> | null,
+  event: PoHEventInput
+): PoHRecord {
+  const recordData: Omit<PoHRecord, "hash"> = {
+    version: CURRENT_POH_VERSION,
+    sequence: (previous?.sequence ?? 0) + 1,
+    prevHash: previous?.hash ?? GENESIS_HASH,
+    // Sub-second precision is not on chain
+    timestamp: new Date(Math.floor(event.blockTime.getTime() / 1000) * 1000),
+    slot: event.slot,
+    eventType: event.eventType,
+    vault: event.vault,
+    tokenMint,
+    tokenSymbol: event.tokenSymbol,
+    amountLamports: event.amountLamports,
+    signature: event.signature,
+  };
+
+  return { ...recordData, hash: generateHash(recordData) };
+}
+
+/**
+ * Canonical event order: slot, then signature
+ */
+export function comparePoHEvents(a: PoHEventInput, b: PoHEventInput): number {
+  if (a.slot !== b.slot) return a.slot - b.slot;
+  return a.signature < b.signature ? -1 : a.signature > b.signature ? 1 : 0;
+}
+
+/**
+ * Derive a token's complete v2 chain from its finalized events
+ * Events are taken in canonical order, so the result depends only on chain data
+ */
+export function buildPoHChain(tokenMint: string, events: PoHEventInput[]): PoHRecord[] {
+  const sorted = [...events].sort(comparePoHEvents);
+
+  const records: PoHRecord[] = [];
+  for (const event of sorted) {
+    records.push(createPoHRecord(tokenMint, records[records.length - 1] ?? null, event));
+  }
+  return records;
+}
+
+export interface PoHChainVerification {
+  valid: boolean;
+  invalidAt?: number;
+  error?: string;
+  signedThrough?: number; // Highest sequence matched by a valid signed head
+  unverifiedHeads?: number; // Signed heads whose key is not among the given keys
+}
+
+/**
+ * Verify an entire PoH chain
+ * With signed heads, each one from a given key must carry a valid signature and match
+ * the record at its sequence, so a rewritten chain fails even with valid links; heads
+ * from other keys cannot be checked and are only counted
+ */
+export function verifyChain(
+  records: PoHRecord[],
+  signatures?: { heads: PoHSignedHead[]; keys: PoHPublicKey[] }
+): PoHChainVerification {
+  if (records.length === 0) {
+    return { valid: true };
+  }
+
+  // Sort by sequence
+  const sorted = [...records].sort((a, b) => a.sequence - b.sequence);
+
+  // First record should link to genesis
+  if (sorted[0].prevHash !== GENESIS_HASH && sorted[0].sequence === 1) {
+    return {
+      valid: false,
+      invalidAt: 0,
+      error: "First record does not link to genesis hash",
+    };
+  }
+
+  for (let i = 0; i < sorted.length; i++) {
+    const record = sorted[i];
+
+    // Verify hash
+    if (!verifyRecordHash(record)) {
+      return {
+        valid: false,
+        invalidAt: i,
+        error: `Record ${record.sequence}: Hash mismatch`,
+      };
+    }
+
+    // Verify chain link (except first)
+    if (i > 0) {
+      const prevRecord = sorted[i - 1];
+      if (record.prevHash !== prevRecord.hash) {
+        return {
+          valid: false,
+          invalidAt: i,
+          error: `Record ${record.sequence}: Chain link broken`,
+        };
+      }
+    }
+
+    // Verify sequence
+    if (i > 0 && record.sequence !== sorted[i - 1].sequence + 1) {
+      return {
+        valid: false,
+        invalidAt: i,
+        error: `Record ${record.sequence}: Sequence gap detected`,
+      };
+    }
+  }
+
+  if (!signatures) {
+    return { valid: true };
+  }
+
+  let signedThrough: number | undefined;
+  let unverifiedHeads = 0;
+  for (const head of signatures.heads) {
+    if (!signatures.keys.some((k) => k.keyId === head.keyId)) {
+      unverifiedHeads++;
+      continue;
+    }
+
+    const index = sorted.findIndex(
+      (r) => r.sequence === head.sequence && r.tokenMint === head.tokenMint
+    );
+
+    if (!verifySignedHead(head, signatures.keys)) {
+      return {
+        valid: false,
+        invalidAt: index >= 0 ? index : undefined,
+        error: `Signed head ${head.sequence}: Invalid signature`,
+      };
+    }
+
+    // Heads outside the supplied range cannot be checked against it
+    if (index < 0) continue;
+
+    if (sorted[index].hash !== head.hash) {
+      return {
+        valid: false,
+        invalidAt: index,
+        error: `Record ${head.sequence}: Does not match signed head`,
+      };
+    }
+    signedThrough = Math.max(signedThrough ?? 0, head.sequence);
+  }
+
+  return { valid: true, signedThrough, unverifiedHeads };
+}
+
+// =============================================================================
+// SINGLE-WRITER APPEND
+// =============================================================================
+
+export interface PoHChainHead {
+  lastSequence: number;
+  lastHash: string;
+}
+
+/**
+ * Operations available while a chain's head is locked
+ * Everything runs in one transaction: either the record and the head move together or neither does
+ */
+export interface PoHAppendTransaction {
+  // Lock the chain head row (creating it if missing) until the transaction ends
+  lockHead(tokenMint: string): Promise<void>;
+  getLastRecord(tokenMint: string): Promise<PoHRecord | null>;
+  getLatestForSignature(tokenMint: string, signature: string): Promise<PoHRecord | null>;
+  insertRecord(record: PoHRecord): Promise<void>;
+  saveHead(tokenMint: string, head: PoHChainHead): Promise<void>;
+}
+
+export interface PoHChainStore {
+  transaction<T>(fn: (tx: PoHAppendTransaction) => Promise<T>): Promise<T>;
+}
+
+export interface PoHAppendResult {
+  record: PoHRecord;
+  created: boolean; // False when the signature already had this record
+}
+
+/**
+ * Append under the head lock; `build` sees the signature's latest record and
+ * returns the event to append, an existing record to return instead, or null
+ *
+ * The head is re-derived from the last stored record every time, so a writer that
+ * crashed after inserting (or a stale cached head) can never fork the chain.
+ */
+async function appendUnderLock(
+  store: PoHChainStore,
+  tokenMint: string,
+  signature: string,
+  build: (latest: PoHRecord | null) => PoHEventInput | PoHRecord | null
+): Promise<PoHAppendResult | null> {
+  return store.transaction(async (tx) => {
+    await tx.lockHead(tokenMint);
+
+    const latest = await tx.getLatestForSignature(tokenMint, signature);
+    const next = build(latest);
+    if (!next) return null;
+    if ("hash" in next) return { record: next, created: false };
+
+    const record = createPoHRecord(tokenMint, await tx.getLastRecord(tokenMint), next);
+    await tx.insertRecord(record);
+    await tx.saveHead(tokenMint, { lastSequence: record.sequence, lastHash: record.hash });
+
+    return { record, created: true };
+  });
+}
+
+/**
+ * Append an event to a token's chain
+ * Idempotent per signature: if the signature's latest record already has this
+ * event type, that record is returned instead of appending a duplicate
+ */
+export async function appendPoHEvent(
+  store: PoHChainStore,
+  tokenMint: string,
+  event: PoHEventInput
+): Promise<PoHAppendResult> {
+  const result = await appendUnderLock(store, tokenMint, event.signature, (latest) =>
+    latest && latest.eventType === event.eventType ? latest : event
+  );
+  return result!;
+}
+
+/**
+ * Append a compensating record for an event whose transaction was dropped
+ * Returns null if the signature has no record in this chain or is already reverted
+ *
+ * The revert repeats the original's block time and slot so it stays reproducible.
+ */
+export async function appendPoHRevert(
+  store: PoHChainStore,
+  tokenMint: string,
+  signature: string
+): Promise<PoHAppendResult | null> {
+  return appendUnderLock(store, tokenMint, signature, (latest) =>
+    latest && latest.eventType !== "revert"
+      ? {
+          eventType: "revert",
+          vault: latest.vault,
+          amountLamports: latest.amountLamports,
+          signature,
+          blockTime: latest.timestamp,
+          slot: latest.slot ?? 0,
+          tokenSymbol: latest.tokenSymbol,
+        }
+      : null
+  );
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { buildPoHChain, type PoHEventInput } from "./poh-chain";
+import {
+  buildCheckpoint,
+  buildInclusionProof,
+  computeMerkleRoot,
+  getCheckpointRanges,
+  verifyInclusionProof,
+} from "./poh-merkle";
+
+const MINT = "Mint1111111111111111111111111111111111111111";
+
+const chain = (length: number) =>
+  buildPoHChain(
+    MINT,
+    Array.from(
+      { length },
+      (_, i): PoHEventInput => ({
+        eventType: "burn",
+        vault: "AMM",
+        amountLamports: BigInt(1_000 + i),
+        signature: `sig${i.toString().padStart(4, "0")}`,
+        blockTime: new Date(1_776_675_600_000 + i * 1_000),
+        slot: 300_000_000 + i,
+      })
+    )
+  );
+
+describe("inclusion proofs", () => {
+  it("prove every record for even and odd range sizes", () => {
+    for (const length of [1, 2, 3, 7, 16]) {
+      const records = chain(length);
+      const { root } = buildCheckpoint(records);
+      const hashes = records.map((r) => r.hash);
+
+      records.forEach((record, i) => {
+        expect(verifyInclusionProof(record, buildInclusionProof(hashes, i), root)).toBe(true);
+      });
+    }
+  });
+
+  it("reject a proof for a different record or root", () => {
+    const records = chain(5);
+    const hashes = records.map((r) => r.hash);
+    const root = computeMerkleRoot(hashes);
+    const proof = buildInclusionProof(hashes, 2);
+
+    expect(verifyInclusionProof(records[3], proof, root)).toBe(false);
+    expect(verifyInclusionProof(records[2], proof, computeMerkleRoot(hashes.slice(1)))).toBe(false);
+  });
+
+  it("reject a record whose contents were altered", () => {
+    const records = chain(4);
+    const hashes = records.map((r) => r.hash);
+    const proof = buildInclusionProof(hashes, 1);
+
+    const forged = { ...records[1], amountLamports: BigInt(1) };
+    expect(verifyInclusionProof(forged, proof, computeMerkleRoot(hashes))).toBe(false);
+  });
+});
+
+describe("getCheckpointRanges", () => {
+  it("covers only complete ranges", () => {
+    expect(getCheckpointRanges(9, 4)).toEqual([
+      { fromSequence: 1, toSequence: 4 },
+      { fromSequence: 5, toSequence: 8 },
+    ]);
+    expect(getCheckpointRanges(3, 4)).toEqual([]);
+  });
+});
+
+describe("buildCheckpoint", () => {
+  it("ties the root to the range's last record", () => {
+    const records = chain(4);
+    const checkpoint = buildCheckpoint([...records].reverse());
+
+    expect(checkpoint).toMatchObject({ fromSequence: 1, toSequence: 4, lastHash: records[3].hash });
+  });
+
+  it("rejects ranges with gaps", () => {
+    const records = chain(4);
+    expect(() => buildCheckpoint([records[0], records[2]])).toThrow("contiguous");
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * PoH Merkle Checkpoints
+ * Merkle roots over fixed ranges of a chain, and inclusion proofs against them
+ *
+ * Leaves are record hashes. Leaf and inner nodes are hashed with distinct prefixes
+ * (0x00 / 0x01) so an inner node can never be passed off as a record, and an odd
+ * node at the end of a level is carried up unchanged rather than duplicated.
+ */
+
+import { createHash } from "crypto";
+import { verifyRecordHash, type PoHRecord } from "./poh-chain";
+
+// Records per checkpoint; checkpoint n covers sequences (n - 1) * size + 1 .. n * size
+export const POH_CHECKPOINT_SIZE = 256;
+
+export interface PoHCheckpointRange {
+  fromSequence: number;
+  toSequence: number;
+}
+
+export interface PoHCheckpoint extends PoHCheckpointRange {
+  root: string;
+  lastHash: string; // Hash of the record at toSequence, tying the root to the chain
+}
+
+export interface PoHProofStep {
+  position: "left" | "right"; // Side the sibling sits on
+  hash: string;
+}
+
+export interface PoHInclusionProof {
+  leafIndex: number; // Position of the record within its checkpoint range
+  siblings: PoHProofStep[]; // Leaf level first
+}
+
+function hashLeaf(recordHash: string): string {
+  return createHash("sha256")
+    .update(Buffer.concat([Buffer.from([0]), Buffer.from(recordHash, "hex")]))
+    .digest("hex");
+}
+
+function hashNode(left: string, right: string): string {
+  return createHash("sha256")
+    .update(Buffer.concat([Buffer.from([1]), Buffer.from(left, "hex"), Buffer.from(right, "hex")]))
+    .digest("hex");
+}
+
+function nextLevel(level: string[]): string[] {
+  const next: string[] = [];
+  for (let i = 0; i < level.length; i += 2) {
+    next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+  }
+  return next;
+}
+
+/**
+ * Merkle root over record hashes, in sequence order
+ */
+export function computeMerkleRoot(recordHashes: string[]): string {
+  if (recordHashes.length === 0) {
+    throw new Error("Cannot compute a Merkle root over no records");
+  }
+
+  let level = recordHashes.map(hashLeaf);
+  while (level.length > 1) {
+    level = nextLevel(level);
+  }
+  return level[0];
+}
+
+/**
+ * Inclusion proof for the record at leafIndex among record hashes, in sequence order
+ */
+export function buildInclusionProof(recordHashes: string[], leafIndex: number): PoHInclusionProof {
+  if (leafIndex < 0 || leafIndex >= recordHashes.length) {
+    throw new Error(`Leaf index ${leafIndex} out of range`);
+  }
+
+  const siblings: PoHProofStep[] = [];
+  let level = recordHashes.map(hashLeaf);
+  let index = leafIndex;
+
+  while (level.length > 1) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    // A carried-up odd node has no sibling at this level
+    if (siblingIndex < level.length) {
+      siblings.push({
+        position: index % 2 === 0 ? "right" : "left",
+        hash: level[siblingIndex],
+      });
+    }
+    level = nextLevel(level);
+    index = Math.floor(index / 2);
+  }
+
+  return { leafIndex, siblings };
+}
+
+/**
+ * Check that a record is intact and included under a checkpoint root
+ */
+export function verifyInclusionProof(
+  record: PoHRecord,
+  proof: PoHInclusionProof,
+  root: string
+): boolean {
+  if (!verifyRecordHash(record)) return false;
+
+  let node = hashLeaf(record.hash);
+  for (const step of proof.siblings) {
+    node = step.position === "left" ? hashNode(step.hash, node) : hashNode(node, step.hash);
+  }
+  return node === root;
+}
+
+/**
+ * Complete checkpoint ranges for a chain of the given length, in order
+ * The trailing partial range is left for a later checkpoint
+ */
+export function getCheckpointRanges(
+  chainLength: number,
+  size: number = POH_CHECKPOINT_SIZE
+): PoHCheckpointRange[] {
+  const ranges: PoHCheckpointRange[] = [];
+  for (let to = size; to <= chainLength; to += size) {
+    ranges.push({ fromSequence: to - size + 1, toSequence: to });
+  }
+  return ranges;
+}
+
+/**
+ * Build the checkpoint for a contiguous range of records
+ */
+export function buildCheckpoint(records: PoHRecord[]): PoHCheckpoint {
+  const sorted = [...records].sort((a, b) => a.sequence - b.sequence);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  if (!first || last.sequence - first.sequence + 1 !== sorted.length) {
+    throw new Error("Checkpoint records must be a contiguous, non-empty range");
+  }
+
+  return {
+    fromSequence: first.sequence,
+    toSequence: last.sequence,
+    root: computeMerkleRoot(sorted.map((r) => r.hash)),
+    lastHash: last.hash,
+  };
+}
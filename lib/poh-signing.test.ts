@@ -0,0 +1,162 @@
+import { generateKeyPairSync } from "crypto";
+import { describe, it, expect } from "vitest";
+import { buildPoHChain, generateHash, verifyChain, type PoHEventInput } from "./poh-chain";
+import {
+  getPublicKeyId,
+  loadSigningKey,
+  parseTrustedKeys,
+  signHead,
+  verifySignedHead,
+} from "./poh-signing";
+
+const MINT = "Mint1111111111111111111111111111111111111111";
+const NOW = new Date("2026-05-11T09:00:00.500Z");
+
+const newKey = () =>
+  loadSigningKey(
+    generateKeyPairSync("ed25519").privateKey.export({ format: "pem", type: "pkcs8" }) as string
+  );
+
+const chain = (length: number) =>
+  buildPoHChain(
+    MINT,
+    Array.from(
+      { length },
+      (_, i): PoHEventInput => ({
+        eventType: "collect",
+        vault: "BC",
+        amountLamports: BigInt(1_000 + i),
+        signature: `sig${i}`,
+        blockTime: new Date(1_778_490_000_000 + i * 1_000),
+        slot: 310_000_000 + i,
+      })
+    )
+  );
+
+describe("loadSigningKey", () => {
+  it("accepts PEM with escaped newlines and derives the key id", () => {
+    const pem = generateKeyPairSync("ed25519")
+      .privateKey.export({ format: "pem", type: "pkcs8" })
+      .toString();
+    const key = loadSigningKey(pem.replace(/\n/g, "\\n"));
+
+    expect(Buffer.from(key.publicKey, "base64")).toHaveLength(32);
+    expect(key.keyId).toBe(getPublicKeyId(key.publicKey));
+    expect(key.keyId).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("rejects non-ed25519 keys", () => {
+    const pem = generateKeyPairSync("ec", { namedCurve: "P-256" })
+      .privateKey.export({ format: "pem", type: "pkcs8" })
+      .toString();
+
+    expect(() => loadSigningKey(pem)).toThrow("ed25519");
+  });
+});
+
+describe("parseTrustedKeys", () => {
+  it("derives key ids from a comma-separated list", () => {
+    const a = newKey();
+    const b = newKey();
+
+    expect(parseTrustedKeys(` ${a.publicKey}, ${b.publicKey},`)).toEqual([
+      { keyId: a.keyId, publicKey: a.publicKey },
+      { keyId: b.keyId, publicKey: b.publicKey },
+    ]);
+    expect(parseTrustedKeys("")).toEqual([]);
+  });
+
+  it("rejects values that are not raw ed25519 keys", () => {
+    expect(() => parseTrustedKeys("not-a-key")).toThrow("32-byte");
+  });
+});
+
+describe("signHead", () => {
+  it("produces heads that verify with the published key only", () => {
+    const key = newKey();
+    const other = newKey();
+    const head = signHead({ tokenMint: MINT, sequence: 3, hash: "ab".repeat(32) }, key, NOW);
+
+    expect(head.signedAt).toEqual(new Date("2026-05-11T09:00:00Z"));
+    expect(verifySignedHead(head, [key])).toBe(true);
+    expect(verifySignedHead(head, [other])).toBe(false);
+    expect(verifySignedHead({ ...head, sequence: 4 }, [key])).toBe(false);
+  });
+
+  it("ignores a published key whose id does not match it", () => {
+    const key = newKey();
+    const head = signHead({ tokenMint: MINT, sequence: 1, hash: "ab".repeat(32) }, key, NOW);
+
+    expect(verifySignedHead(head, [{ keyId: key.keyId, publicKey: newKey().publicKey }])).toBe(false);
+  });
+});
+
+describe("verifyChain with signed heads", () => {
+  it("reports how far the chain is covered by signatures", () => {
+    const key = newKey();
+    const records = chain(5);
+    const heads = [signHead(records[2], key, NOW)];
+
+    const result = verifyChain(records, { heads, keys: [key] });
+    expect(result).toEqual({ valid: true, signedThrough: 3, unverifiedHeads: 0 });
+  });
+
+  it("catches a chain rewritten with recomputed links", () => {
+    const key = newKey();
+    const records = chain(4);
+    const heads = [signHead(records[3], key, NOW)];
+
+    // Change an amount and re-hash everything from there, as a database owner could
+    const rewritten = [...records];
+    for (let i = 1; i < rewritten.length; i++) {
+      const { hash: _hash, ...data } = rewritten[i];
+      const next = {
+        ...data,
+        prevHash: rewritten[i - 1].hash,
+        amountLamports: i === 1 ? BigInt(1) : data.amountLamports,
+      };
+      rewritten[i] = { ...next, hash: generateHash(next) };
+    }
+
+    expect(verifyChain(rewritten).valid).toBe(true);
+    expect(verifyChain(rewritten, { heads, keys: [key] })).toMatchObject({
+      valid: false,
+      invalidAt: 3,
+      error: "Record 4: Does not match signed head",
+    });
+  });
+
+  it("rejects forged signatures", () => {
+    const key = newKey();
+    const records = chain(2);
+    const forged = { ...signHead(records[1], newKey(), NOW), keyId: key.keyId };
+
+    expect(verifyChain(records, { heads: [forged], keys: [key] })).toMatchObject({
+      valid: false,
+      error: "Signed head 2: Invalid signature",
+    });
+  });
+
+  it("counts heads from unconfigured keys as unverified instead of invalid", () => {
+    const key = newKey();
+    const records = chain(3);
+    const heads = [signHead(records[0], newKey(), NOW), signHead(records[2], key, NOW)];
+
+    expect(verifyChain(records, { heads, keys: [key] })).toEqual({
+      valid: true,
+      signedThrough: 3,
+      unverifiedHeads: 1,
+    });
+    expect(verifyChain(records, { heads, keys: [] })).toEqual({ valid: true, unverifiedHeads: 2 });
+  });
+
+  it("keeps heads signed before a key rotation verifiable", () => {
+    const oldKey = newKey();
+    const newerKey = newKey();
+    const records = chain(6);
+    const heads = [signHead(records[1], oldKey, NOW), signHead(records[5], newerKey, NOW)];
+
+    const result = verifyChain(records, { heads, keys: [newerKey, oldKey] });
+    expect(result).toEqual({ valid: true, signedThrough: 6, unverifiedHeads: 0 });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * PoH Head Signing
+ * Ed25519 signatures over chain heads, so a rewritten chain no longer matches
+ * what we published even if every hash link is recomputed
+ *
+ * Signed message (UTF-8): "poh-head-v1|tokenMint|sequence|hash|signedAt"
+ * with signedAt in unix seconds. Public keys are published with a key id
+ * (first 16 hex chars of SHA-256 over the raw 32-byte key); retired keys stay
+ * published so heads signed before a rotation keep verifying.
+ *
+ * Verification only trusts keys from configuration (POH_SIGNING_KEY, POH_TRUSTED_KEYS),
+ * never the published list: whoever controls the database could add a key to it.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from "crypto";
+
+export interface PoHHead {
+  tokenMint: string;
+  sequence: number;
+  hash: string;
+}
+
+export interface PoHSignedHead extends PoHHead {
+  signedAt: Date; // Whole seconds
+  keyId: string;
+  signature: string; // Base64
+}
+
+/**
+ * A published verification key
+ */
+export interface PoHPublicKey {
+  keyId: string;
+  publicKey: string; // Base64, raw 32 bytes
+}
+
+export interface PoHSigningKey extends PoHPublicKey {
+  privateKey: KeyObject;
+}
+
+let envSigningKey: PoHSigningKey | null | undefined;
+let envTrustedKeys: PoHPublicKey[] | undefined;
+
+/**
+ * Key id for a base64 raw public key
+ */
+export function getPublicKeyId(publicKey: string): string {
+  return createHash("sha256").update(Buffer.from(publicKey, "base64")).digest("hex").slice(0, 16);
+}
+
+/**
+ * Load an Ed25519 private key from PKCS#8 PEM (e.g. `openssl genpkey -algorithm ed25519`)
+ * Escaped newlines ("\n") are accepted so the key fits in one environment variable
+ */
+export function loadSigningKey(pem: string): PoHSigningKey {
+  const privateKey = createPrivateKey(pem.replace(/\\n/g, "\n"));
+  if (privateKey.asymmetricKeyType !== "ed25519") {
+    throw new Error(`PoH signing key must be ed25519, got ${privateKey.asymmetricKeyType}`);
+  }
+
+  const jwk = createPublicKey(privateKey).export({ format: "jwk" });
+  const publicKey = Buffer.from(jwk.x as string, "base64url").toString("base64");
+
+  return { keyId: getPublicKeyId(publicKey), publicKey, privateKey };
+}
+
+/**
+ * The configured signing key (POH_SIGNING_KEY), or null when heads are not signed
+ */
+export function getSigningKey(): PoHSigningKey | null {
+  if (envSigningKey === undefined) {
+    const pem = process.env.POH_SIGNING_KEY;
+    envSigningKey = pem ? loadSigningKey(pem) : null;
+  }
+  return envSigningKey;
+}
+
+/**
+ * Parse a comma-separated list of base64 raw Ed25519 public keys
+ */
+export function parseTrustedKeys(value: string): PoHPublicKey[] {
+  return value
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map((publicKey) => {
+      if (Buffer.from(publicKey, "base64").length !== 32) {
+        throw new Error(`PoH trusted key is not a base64 32-byte ed25519 key: ${publicKey}`);
+      }
+      return { keyId: getPublicKeyId(publicKey), publicKey };
+    });
+}
+
+/**
+ * Keys signed heads are verified with: the configured signing key's public key plus
+ * POH_TRUSTED_KEYS (retired keys, or every key on a host that does not sign)
+ */
+export function getTrustedKeys(): PoHPublicKey[] {
+  if (envTrustedKeys === undefined) {
+    const keys = parseTrustedKeys(process.env.POH_TRUSTED_KEYS ?? "");
+    const signingKey = getSigningKey();
+    if (signingKey && !keys.some((k) => k.keyId === signingKey.keyId)) {
+      keys.unshift({ keyId: signingKey.keyId, publicKey: signingKey.publicKey });
+    }
+    envTrustedKeys = keys;
+  }
+  return envTrustedKeys;
+}
+
+function getSignedMessage(head: PoHHead, signedAt: Date): Buffer {
+  const seconds = Math.floor(signedAt.getTime() / 1000);
+  return Buffer.from(`poh-head-v1|${head.tokenMint}|${head.sequence}|${head.hash}|${seconds}`);
+}
+
+/**
+ * Sign a chain head
+ */
+export function signHead(
+  head: PoHHead,
+  key: PoHSigningKey,
+  now: Date = new Date()
+): PoHSignedHead {
+  const signedAt = new Date(Math.floor(now.getTime() / 1000) * 1000);
+
+  return {
+    tokenMint: head.tokenMint,
+    sequence: head.sequence,
+    hash: head.hash,
+    signedAt,
+    keyId: key.keyId,
+    signature: sign(null, getSignedMessage(head, signedAt), key.privateKey).toString("base64"),
+  };
+}
+
+/**
+ * Check a signed head against the published keys
+ */
+export function verifySignedHead(head: PoHSignedHead, keys: PoHPublicKey[]): boolean {
+  const key = keys.find((k) => k.keyId === head.keyId);
+  if (!key || getPublicKeyId(key.publicKey) !== key.keyId) return false;
+
+  try {
+    const publicKey = createPublicKey({
+      key: { kty: "OKP", crv: "Ed25519", x: Buffer.from(key.publicKey, "base64").toString("base64url") },
+      format: "jwk",
+    });
+    return verify(
+      null,
+      getSignedMessage(head, head.signedAt),
+      publicKey,
+      Buffer.from(head.signature, "base64")
+    );
+  } catch {
+    return false;
+  }
+}
@@ -4,22 +4,73 @@
  * Compatible with asdf-validator PoH format
  */
 
-import { createHash } from "crypto";
+import type { Prisma } from "@prisma/client";
 import { prisma } from "./db";
-
-export interface PoHRecord {
-  sequence: number;
-  hash: string;
-  prevHash: string;
-  timestamp: Date;
-  slot?: number;
-  eventType: "collect" | "burn" | "withdraw";
-  vault: "BC" | "AMM" | "UNKNOWN";
-  tokenMint: string;
-  tokenSymbol?: string;
-  amountLamports: bigint;
-  signature: string;
-}
+import { getParsedTransactions } from "./helius";
+import { isPlaceholderSignature } from "./finality";
+import { chunk } from "./utils";
+import {
+  appendPoHEvent,
+  appendPoHRevert,
+  comparePoHEvents,
+  verifyChain,
+  GENESIS_HASH,
+  toPoHVault,
+  type PoHAppendTransaction,
+  type PoHChainStore,
+  type PoHChainVerification,
+  type PoHEventInput,
+  type PoHEventType,
+  type PoHRecord,
+  type PoHVault,
+  type PoHVersion,
+} from "./poh-chain";
+import {
+  getSigningKey,
+  getTrustedKeys,
+  signHead,
+  type PoHPublicKey,
+  type PoHSignedHead,
+  type PoHSigningKey,
+} from "./poh-signing";
+import {
+  buildCheckpoint,
+  buildInclusionProof,
+  getCheckpointRanges,
+  POH_CHECKPOINT_SIZE,
+  type PoHCheckpoint,
+  type PoHInclusionProof,
+} from "./poh-merkle";
+import {
+  auditPoHChain,
+  getPoHAuditStatus,
+  type AuditedFeeEvent,
+  type PoHAuditReport,
+} from "./poh-audit";
+
+export {
+  buildPoHChain,
+  generateHash,
+  verifyRecordHash,
+  verifyChain,
+  GENESIS_HASH,
+  CURRENT_POH_VERSION,
+  toPoHVault,
+  type PoHChainVerification,
+  type PoHEventInput,
+  type PoHEventType,
+  type PoHRecord,
+  type PoHVault,
+  type PoHVersion,
+} from "./poh-chain";
+export {
+  verifyInclusionProof,
+  POH_CHECKPOINT_SIZE,
+  type PoHCheckpoint,
+  type PoHInclusionProof,
+} from "./poh-merkle";
+export { verifySignedHead, type PoHPublicKey, type PoHSignedHead } from "./poh-signing";
+export { getPoHAuditStatus, type PoHAuditReport, type PoHAuditStatus } from "./poh-audit";
 
 export interface PoHChainState {
   lastSequence: number;
@@ -29,34 +80,44 @@ export interface PoHChainState {
   lastUpdated: Date;
 }
 
-// Genesis hash for new chains
-const GENESIS_HASH = "0".repeat(64);
+// Type for Prisma PoHRecord result
+type PrismaPoHRecord = {
+  version: number;
+  sequence: number;
+  hash: string;
+  prevHash: string;
+  timestamp: Date;
+  slot: number | null;
+  eventType: string;
+  vault: string;
+  tokenMint: string;
+  tokenSymbol: string | null;
+  amountLamports: bigint;
+  signature: string;
+};
 
-/**
- * Generate SHA-256 hash for a PoH record
- */
-function generateHash(record: Omit<PoHRecord, "hash">): string {
-  const data = [
-    record.sequence.toString(),
-    record.prevHash,
-    record.timestamp.toISOString(),
-    record.slot?.toString() || "0",
-    record.eventType,
-    record.vault,
-    record.tokenMint,
-    record.amountLamports.toString(),
-    record.signature,
-  ].join("|");
-
-  return createHash("sha256").update(data).digest("hex");
+function fromPrismaRecord(r: PrismaPoHRecord): PoHRecord {
+  return {
+    version: r.version as PoHVersion,
+    sequence: r.sequence,
+    hash: r.hash,
+    prevHash: r.prevHash,
+    timestamp: r.timestamp,
+    slot: r.slot || undefined,
+    eventType: r.eventType as PoHEventType,
+    vault: r.vault as PoHVault,
+    tokenMint: r.tokenMint,
+    tokenSymbol: r.tokenSymbol || undefined,
+    amountLamports: r.amountLamports,
+    signature: r.signature,
+  };
 }
 
-/**
- * Verify a single PoH record's hash
- */
-export function verifyRecordHash(record: PoHRecord): boolean {
-  const expectedHash = generateHash({
+function toPrismaRecord(record: PoHRecord): Prisma.PoHRecordCreateManyInput {
+  return {
+    version: record.version ?? 1,
     sequence: record.sequence,
+    hash: record.hash,
     prevHash: record.prevHash,
     timestamp: record.timestamp,
     slot: record.slot,
@@ -66,82 +127,489 @@ export function verifyRecordHash(record: PoHRecord): boolean {
     tokenSymbol: record.tokenSymbol,
     amountLamports: record.amountLamports,
     signature: record.signature,
-  });
+  };
+}
 
-  return record.hash === expectedHash;
+/**
+ * Append operations inside a Prisma transaction
+ * The head lock is a row lock on poh_chain_heads, so concurrent writers in any
+ * process queue behind each other per token
+ */
+function prismaAppendTransaction(tx: Prisma.TransactionClient): PoHAppendTransaction {
+  return {
+    async lockHead(tokenMint) {
+      await tx.$executeRaw`
+        INSERT INTO poh_chain_heads (token_mint, last_sequence, last_hash, updated_at)
+        VALUES (${tokenMint}, 0, ${GENESIS_HASH}, NOW())
+        ON CONFLICT (token_mint) DO NOTHING
+      `;
+      await tx.$queryRaw`
+        SELECT token_mint FROM poh_chain_heads WHERE token_mint = ${tokenMint} FOR UPDATE
+      `;
+    },
+
+    async getLastRecord(tokenMint) {
+      const record = await tx.poHRecord.findFirst({
+        where: { tokenMint },
+        orderBy: { sequence: "desc" },
+      });
+      return record ? fromPrismaRecord(record) : null;
+    },
+
+    async getLatestForSignature(tokenMint, signature) {
+      const record = await tx.poHRecord.findFirst({
+        where: { tokenMint, signature },
+        orderBy: { sequence: "desc" },
+      });
+      return record ? fromPrismaRecord(record) : null;
+    },
+
+    async insertRecord(record) {
+      await tx.poHRecord.create({ data: toPrismaRecord(record) });
+    },
+
+    async saveHead(tokenMint, head) {
+      await tx.poHChainHead.update({
+        where: { tokenMint },
+        data: { lastSequence: head.lastSequence, lastHash: head.lastHash },
+      });
+    },
+  };
 }
 
 /**
- * Verify an entire PoH chain
+ * The PoH store every writer shares
  */
-export function verifyChain(records: PoHRecord[]): {
-  valid: boolean;
-  invalidAt?: number;
-  error?: string;
-} {
-  if (records.length === 0) {
-    return { valid: true };
+export const prismaPoHChainStore: PoHChainStore = {
+  transaction: (fn) => prisma.$transaction((tx) => fn(prismaAppendTransaction(tx))),
+};
+
+const PARSE_BATCH_SIZE = 100;
+
+/**
+ * Turn stored fee events into PoH inputs, taking slot and block time from the cluster
+ * Signatures the cluster no longer returns are reported rather than guessed
+ */
+export async function resolvePoHEvents(
+  feeEvents: { signature: string; eventType: string; amountLamports: bigint; source: string | null }[],
+  tokenSymbol: string | null
+): Promise<{ events: PoHEventInput[]; missing: string[] }> {
+  const events: PoHEventInput[] = [];
+  const missing: string[] = [];
+
+  for (const batch of chunk(feeEvents, PARSE_BATCH_SIZE)) {
+    const transactions = await getParsedTransactions(batch.map((e) => e.signature));
+    const bySignature = new Map(transactions.map((tx) => [tx.signature, tx]));
+
+    for (const feeEvent of batch) {
+      const tx = bySignature.get(feeEvent.signature);
+      if (!tx) {
+        missing.push(feeEvent.signature);
+        continue;
+      }
+
+      events.push({
+        eventType: feeEvent.eventType as PoHEventType,
+        vault: toPoHVault(feeEvent.source),
+        amountLamports: feeEvent.amountLamports,
+        signature: feeEvent.signature,
+        blockTime: new Date(tx.timestamp * 1000),
+        slot: tx.slot,
+        tokenSymbol: tokenSymbol ?? undefined,
+      });
+    }
   }
 
-  // Sort by sequence
-  const sorted = [...records].sort((a, b) => a.sequence - b.sequence);
+  return { events, missing };
+}
 
-  // First record should link to genesis
-  if (sorted[0].prevHash !== GENESIS_HASH && sorted[0].sequence === 1) {
-    return {
-      valid: false,
-      invalidAt: 0,
-      error: "First record does not link to genesis hash",
-    };
+/**
+ * Replace a token's chain (e.g. with one rebuilt in the v2 format) under the head lock
+ * `basedOn` is the last record the replacement was built against: if anything was appended
+ * since, nothing is replaced and false is returned, so a rebuild never wipes newer records
+ */
+export async function replacePoHChain(
+  tokenMint: string,
+  records: PoHRecord[],
+  basedOn: PoHRecord | null
+): Promise<boolean> {
+  return prisma.$transaction(
+    async (tx) => {
+      const chain = prismaAppendTransaction(tx);
+      await chain.lockHead(tokenMint);
+
+      const current = await chain.getLastRecord(tokenMint);
+      if ((current?.hash ?? null) !== (basedOn?.hash ?? null)) return false;
+
+      await tx.poHRecord.deleteMany({ where: { tokenMint } });
+      await tx.poHCheckpoint.deleteMany({ where: { tokenMint } });
+
+      // Heads signed over the old chain no longer match it, but stay published as superseded
+      await tx.$executeRaw`
+        INSERT INTO poh_superseded_heads (token_mint, sequence, hash, key_id, signature, signed_at)
+        SELECT token_mint, sequence, hash, key_id, signature, signed_at
+        FROM poh_signed_heads WHERE token_mint = ${tokenMint}
+      `;
+      await tx.poHSignedHead.deleteMany({ where: { tokenMint } });
+      // The rebuilt chain is in slot order again, so earlier repairs no longer apply
+      await tx.poHRepair.deleteMany({ where: { tokenMint } });
+      await tx.poHRecord.createMany({ data: records.map(toPrismaRecord) });
+
+      const last = records[records.length - 1];
+      await chain.saveHead(tokenMint, {
+        lastSequence: last?.sequence ?? 0,
+        lastHash: last?.hash ?? GENESIS_HASH,
+      });
+      return true;
+    },
+    { timeout: 120_000 }
+  );
+}
+
+/**
+ * Checkpoint every complete range of a token's chain that has none yet
+ * Safe to run repeatedly or concurrently; returns the number of checkpoints created
+ */
+export async function createPoHCheckpoints(tokenMint: string): Promise<number> {
+  const [chainLength, latest] = await Promise.all([
+    prisma.poHRecord.count({ where: { tokenMint } }),
+    prisma.poHCheckpoint.findFirst({
+      where: { tokenMint },
+      orderBy: { toSequence: "desc" },
+    }),
+  ]);
+
+  const pending = getCheckpointRanges(chainLength).filter(
+    (range) => range.toSequence > (latest?.toSequence ?? 0)
+  );
+
+  let created = 0;
+  for (const range of pending) {
+    const records = await prisma.poHRecord.findMany({
+      where: { tokenMint, sequence: { gte: range.fromSequence, lte: range.toSequence } },
+      orderBy: { sequence: "asc" },
+    });
+
+    const checkpoint = buildCheckpoint(records.map(fromPrismaRecord));
+    const result = await prisma.poHCheckpoint.createMany({
+      data: [{ tokenMint, ...checkpoint }],
+      skipDuplicates: true,
+    });
+    created += result.count;
   }
 
-  for (let i = 0; i < sorted.length; i++) {
-    const record = sorted[i];
+  return created;
+}
 
-    // Verify hash
-    if (!verifyRecordHash(record)) {
-      return {
-        valid: false,
-        invalidAt: i,
-        error: `Record ${record.sequence}: Hash mismatch`,
-      };
-    }
+/**
+ * A token's checkpoints, oldest first
+ */
+export async function getPoHCheckpoints(tokenMint: string) {
+  return prisma.poHCheckpoint.findMany({
+    where: { tokenMint },
+    orderBy: { fromSequence: "asc" },
+  });
+}
 
-    // Verify chain link (except first)
-    if (i > 0) {
-      const prevRecord = sorted[i - 1];
-      if (record.prevHash !== prevRecord.hash) {
-        return {
-          valid: false,
-          invalidAt: i,
-          error: `Record ${record.sequence}: Chain link broken`,
-        };
-      }
+/**
+ * Inclusion proof for a signature's latest record in a token's chain
+ * Returns null if the signature has no record; checkpoint and proof are null
+ * until the record's range has been checkpointed
+ */
+export async function getPoHInclusionProof(
+  tokenMint: string,
+  signature: string
+): Promise<{
+  record: PoHRecord;
+  checkpoint: (PoHCheckpoint & { createdAt: Date }) | null;
+  proof: PoHInclusionProof | null;
+} | null> {
+  const record = await prisma.poHRecord.findFirst({
+    where: { tokenMint, signature },
+    orderBy: { sequence: "desc" },
+  });
+  if (!record) return null;
+
+  const checkpoint = await prisma.poHCheckpoint.findFirst({
+    where: {
+      tokenMint,
+      fromSequence: { lte: record.sequence },
+      toSequence: { gte: record.sequence },
+    },
+  });
+  if (!checkpoint) {
+    return { record: fromPrismaRecord(record), checkpoint: null, proof: null };
+  }
+
+  const range = await prisma.poHRecord.findMany({
+    where: {
+      tokenMint,
+      sequence: { gte: checkpoint.fromSequence, lte: checkpoint.toSequence },
+    },
+    orderBy: { sequence: "asc" },
+    select: { hash: true },
+  });
+
+  return {
+    record: fromPrismaRecord(record),
+    checkpoint: {
+      fromSequence: checkpoint.fromSequence,
+      toSequence: checkpoint.toSequence,
+      root: checkpoint.root,
+      lastHash: checkpoint.lastHash,
+      createdAt: checkpoint.createdAt,
+    },
+    proof: buildInclusionProof(
+      range.map((r: { hash: string }) => r.hash),
+      record.sequence - checkpoint.fromSequence
+    ),
+  };
+}
+
+/**
+ * Publish the signing key and retire any other active key
+ */
+async function registerSigningKey(key: PoHSigningKey): Promise<void> {
+  await prisma.$transaction([
+    prisma.poHSigningKey.upsert({
+      where: { keyId: key.keyId },
+      create: { keyId: key.keyId, publicKey: key.publicKey },
+      update: { retiredAt: null },
+    }),
+    prisma.poHSigningKey.updateMany({
+      where: { keyId: { not: key.keyId }, retiredAt: null },
+      data: { retiredAt: new Date() },
+    }),
+  ]);
+}
+
+/**
+ * Sign every chain head that moved since its last signature
+ * Returns the number of heads signed; 0 when no signing key is configured
+ */
+export async function signPoHHeads(
+  key: PoHSigningKey | null = getSigningKey(),
+  tokenMint?: string
+): Promise<number> {
+  if (!key) return 0;
+  await registerSigningKey(key);
+
+  const heads = await prisma.poHChainHead.findMany({
+    where: { lastSequence: { gt: 0 }, ...(tokenMint ? { tokenMint } : {}) },
+  });
+
+  let signed = 0;
+  for (const head of heads) {
+    const latest = await prisma.poHSignedHead.findFirst({
+      where: { tokenMint: head.tokenMint },
+      orderBy: { sequence: "desc" },
+    });
+    if (latest && latest.sequence >= head.lastSequence) continue;
+
+    const signedHead = signHead(
+      { tokenMint: head.tokenMint, sequence: head.lastSequence, hash: head.lastHash },
+      key
+    );
+    const result = await prisma.poHSignedHead.createMany({
+      data: [signedHead],
+      skipDuplicates: true,
+    });
+    signed += result.count;
+  }
+
+  return signed;
+}
+
+/**
+ * Every key that has signed heads, newest first, flagged by whether this host trusts it
+ * The table is a publishing history only; verification uses the configured keys
+ */
+export async function getPoHSigningKeys() {
+  const trusted = new Set(getTrustedKeys().map((k) => k.keyId));
+  const keys = await prisma.poHSigningKey.findMany({ orderBy: { createdAt: "desc" } });
+  return keys.map((key) => ({ ...key, trusted: trusted.has(key.keyId) }));
+}
+
+/**
+ * A token's signed heads and the configured keys to check them with
+ */
+export async function getPoHSignatures(
+  tokenMint: string
+): Promise<{ heads: PoHSignedHead[]; keys: PoHPublicKey[] }> {
+  const heads = await prisma.poHSignedHead.findMany({
+    where: { tokenMint },
+    orderBy: { sequence: "asc" },
+  });
+  const keys = getTrustedKeys();
+
+  return {
+    heads: heads.map((h) => ({
+      tokenMint: h.tokenMint,
+      sequence: h.sequence,
+      hash: h.hash,
+      signedAt: h.signedAt,
+      keyId: h.keyId,
+      signature: h.signature,
+    })),
+    keys,
+  };
+}
+
+/**
+ * Heads signed over a token's replaced chains, oldest first
+ */
+export async function getPoHSupersededHeads(tokenMint: string) {
+  return prisma.poHSupersededHead.findMany({
+    where: { tokenMint },
+    orderBy: [{ supersededAt: "asc" }, { sequence: "asc" }],
+  });
+}
+
+// Findings of each kind kept with the stored audit
+const AUDIT_DETAIL_LIMIT = 50;
+
+function serializeAuditReport(report: PoHAuditReport) {
+  const event = (e: AuditedFeeEvent) => ({
+    signature: e.signature,
+    eventType: e.eventType,
+    amountLamports: e.amountLamports.toString(),
+    blockTime: e.blockTime.toISOString(),
+    provisional: e.provisional,
+  });
+  const record = (r: PoHRecord) => ({
+    sequence: r.sequence,
+    signature: r.signature,
+    eventType: r.eventType,
+    amountLamports: r.amountLamports.toString(),
+  });
+
+  return {
+    missing: report.missing.slice(0, AUDIT_DETAIL_LIMIT).map(event),
+    extra: report.extra.slice(0, AUDIT_DETAIL_LIMIT).map(record),
+    mismatched: report.mismatched.slice(0, AUDIT_DETAIL_LIMIT).map((m) => ({
+      signature: m.signature,
+      fields: m.fields,
+      event: event(m.event),
+      record: record(m.record),
+    })),
+  };
+}
+
+/**
+ * Audit a token's fee events against its PoH chain and store the result
+ * With repair, finalized events missing from the chain are appended first, in slot order;
+ * provisional ones are left to the daemon, which records and reverts them itself.
+ * Appended records land after later events, so the chain is in append order rather than
+ * buildPoHChain's canonical order; each repair's range is recorded in poh_repairs
+ */
+export async function runPoHAudit(
+  token: { id: number; mint: string; symbol: string | null },
+  options: { repair?: boolean } = {}
+): Promise<{ report: PoHAuditReport; appended: number; unresolvable: string[] }> {
+  const manager = new PoHChainManager(token.mint);
+
+  const loadEvents = async (): Promise<AuditedFeeEvent[]> => {
+    const events = await prisma.feeEvent.findMany({
+      where: {
+        tokenId: token.id,
+        unresolved: false,
+        eventType: { in: ["collect", "burn", "withdraw"] },
+      },
+      select: {
+        signature: true,
+        eventType: true,
+        amountLamports: true,
+        blockTime: true,
+        provisional: true,
+      },
+    });
+    return events.filter((e) => !isPlaceholderSignature(e.signature));
+  };
+
+  let report = auditPoHChain(await loadEvents(), await manager.getFullChain());
+  let appended = 0;
+  let unresolvable: string[] = [];
+
+  const toAppend = options.repair ? report.missing.filter((e) => !e.provisional) : [];
+  if (toAppend.length > 0) {
+    const sources = await prisma.feeEvent.findMany({
+      where: { signature: { in: toAppend.map((e) => e.signature) } },
+      select: { signature: true, eventType: true, amountLamports: true, source: true },
+    });
+    const resolved = await resolvePoHEvents(sources, token.symbol);
+    unresolvable = resolved.missing;
+
+    const sequences: number[] = [];
+    for (const event of resolved.events.sort(comparePoHEvents)) {
+      sequences.push((await manager.addEvent(event)).sequence);
+      appended++;
     }
 
-    // Verify sequence
-    if (i > 0 && record.sequence !== sorted[i - 1].sequence + 1) {
-      return {
-        valid: false,
-        invalidAt: i,
-        error: `Record ${record.sequence}: Sequence gap detected`,
-      };
+    if (sequences.length > 0) {
+      await prisma.poHRepair.create({
+        data: {
+          tokenMint: token.mint,
+          fromSequence: Math.min(...sequences),
+          toSequence: Math.max(...sequences),
+          appendedCount: appended,
+        },
+      });
     }
+
+    report = auditPoHChain(await loadEvents(), await manager.getFullChain());
   }
 
-  return { valid: true };
+  const status = getPoHAuditStatus(report);
+  const audit = {
+    status,
+    eventCount: report.eventCount,
+    recordCount: report.recordCount,
+    missingCount: report.missing.length,
+    extraCount: report.extra.length,
+    mismatchCount: report.mismatched.length,
+    appendedCount: appended,
+    details: serializeAuditReport(report),
+    checkedAt: new Date(),
+  };
+  await prisma.poHAudit.upsert({
+    where: { tokenId: token.id },
+    create: { tokenId: token.id, ...audit },
+    update: audit,
+  });
+
+  return { report, appended, unresolvable };
+}
+
+/**
+ * Ranges the auditor appended to a token's chain out of slot order, oldest first
+ */
+export async function getPoHRepairs(tokenMint: string) {
+  return prisma.poHRepair.findMany({
+    where: { tokenMint },
+    orderBy: { fromSequence: "asc" },
+  });
+}
+
+/**
+ * A token's latest stored audit, or null if it was never audited
+ */
+export async function getPoHAudit(tokenId: number) {
+  return prisma.poHAudit.findUnique({ where: { tokenId } });
 }
 
 /**
  * PoH Chain Manager for a specific token
+ * Holds no authority over the chain: every append locks the head in Postgres
  */
 export class PoHChainManager {
   private tokenMint: string;
+  private store: PoHChainStore;
   private lastHash: string = GENESIS_HASH;
   private lastSequence: number = 0;
 
-  constructor(tokenMint: string) {
+  constructor(tokenMint: string, store: PoHChainStore = prismaPoHChainStore) {
     this.tokenMint = tokenMint;
+    this.store = store;
   }
 
   /**
@@ -162,60 +630,49 @@ export class PoHChainManager {
 
   /**
    * Add a new event to the PoH chain
+   * Goes through the locked single writer; re-adding a signature returns its existing record
    */
-  async addEvent(event: {
-    eventType: "collect" | "burn" | "withdraw";
-    vault: "BC" | "AMM" | "UNKNOWN";
-    amountLamports: bigint;
-    signature: string;
-    tokenSymbol?: string;
-    slot?: number;
-  }): Promise<PoHRecord> {
-    const sequence = this.lastSequence + 1;
-    const timestamp = new Date();
-
-    const recordData: Omit<PoHRecord, "hash"> = {
-      sequence,
-      prevHash: this.lastHash,
-      timestamp,
-      slot: event.slot,
-      eventType: event.eventType,
-      vault: event.vault,
-      tokenMint: this.tokenMint,
-      tokenSymbol: event.tokenSymbol,
-      amountLamports: event.amountLamports,
-      signature: event.signature,
-    };
+  async addEvent(event: PoHEventInput): Promise<PoHRecord> {
+    const { record, created } = await appendPoHEvent(this.store, this.tokenMint, event);
+    this.track(record);
+    if (created) await this.checkpointIfDue(record);
+    return record;
+  }
 
-    const hash = generateHash(recordData);
+  /**
+   * Append a compensating record for an event whose transaction was dropped
+   * Returns null if the signature has no record in this chain or is already reverted
+   */
+  async addRevert(signature: string): Promise<PoHRecord | null> {
+    const result = await appendPoHRevert(this.store, this.tokenMint, signature);
+    if (!result) return null;
 
-    const record: PoHRecord = {
-      ...recordData,
-      hash,
-    };
+    this.track(result.record);
+    await this.checkpointIfDue(result.record);
+    return result.record;
+  }
 
-    // Save to database
-    await prisma.poHRecord.create({
-      data: {
-        sequence: record.sequence,
-        hash: record.hash,
-        prevHash: record.prevHash,
-        timestamp: record.timestamp,
-        slot: record.slot,
-        eventType: record.eventType,
-        vault: record.vault,
-        tokenMint: record.tokenMint,
-        tokenSymbol: record.tokenSymbol,
-        amountLamports: record.amountLamports,
-        signature: record.signature,
-      },
-    });
+  /**
+   * Checkpoint once a record completes a range; a failure is retried by the next one
+   */
+  private async checkpointIfDue(record: PoHRecord): Promise<void> {
+    if (record.sequence % POH_CHECKPOINT_SIZE !== 0) return;
 
-    // Update state
-    this.lastHash = hash;
-    this.lastSequence = sequence;
+    try {
+      await createPoHCheckpoints(this.tokenMint);
+    } catch (error) {
+      console.error(`[PoH] Failed to checkpoint ${this.tokenMint}:`, error);
+    }
+  }
 
-    return record;
+  /**
+   * Keep the cached head for status reporting; other writers may be further ahead
+   */
+  private track(record: PoHRecord): void {
+    if (record.sequence > this.lastSequence) {
+      this.lastHash = record.hash;
+      this.lastSequence = record.sequence;
+    }
   }
 
   /**
@@ -238,47 +695,18 @@ export class PoHChainManager {
       orderBy: { sequence: "asc" },
     });
 
-    // Type for Prisma PoHRecord result
-    type PrismaPoHRecord = {
-      sequence: number;
-      hash: string;
-      prevHash: string;
-      timestamp: Date;
-      slot: number | null;
-      eventType: string;
-      vault: string;
-      tokenMint: string;
-      tokenSymbol: string | null;
-      amountLamports: bigint;
-      signature: string;
-    };
-
-    return records.map((r: PrismaPoHRecord) => ({
-      sequence: r.sequence,
-      hash: r.hash,
-      prevHash: r.prevHash,
-      timestamp: r.timestamp,
-      slot: r.slot || undefined,
-      eventType: r.eventType as "collect" | "burn" | "withdraw",
-      vault: r.vault as "BC" | "AMM" | "UNKNOWN",
-      tokenMint: r.tokenMint,
-      tokenSymbol: r.tokenSymbol || undefined,
-      amountLamports: r.amountLamports,
-      signature: r.signature,
-    }));
+    return records.map(fromPrismaRecord);
   }
 
   /**
    * Verify the token's entire PoH chain
    */
-  async verifyFullChain(): Promise<{
-    valid: boolean;
-    chainLength: number;
-    invalidAt?: number;
-    error?: string;
-  }> {
-    const chain = await this.getFullChain();
-    const result = verifyChain(chain);
+  async verifyFullChain(): Promise<PoHChainVerification & { chainLength: number }> {
+    const [chain, signatures] = await Promise.all([
+      this.getFullChain(),
+      getPoHSignatures(this.tokenMint),
+    ]);
+    const result = verifyChain(chain, signatures);
     return {
       ...result,
       chainLength: chain.length,
@@ -306,19 +734,21 @@ export function exportChainToJSON(records: PoHRecord[]): string {
  */
 export function importChainFromJSON(json: string): PoHRecord[] {
   const data = JSON.parse(json) as Array<{
+    version?: PoHVersion;
     sequence: number;
     hash: string;
     prevHash: string;
     timestamp: string;
     slot?: number;
-    eventType: "collect" | "burn" | "withdraw";
-    vault: "BC" | "AMM" | "UNKNOWN";
+    eventType: PoHEventType;
+    vault: PoHVault;
     tokenMint: string;
     tokenSymbol?: string;
     amountLamports: string;
     signature: string;
   }>;
   return data.map((r) => ({
+    version: r.version,
     sequence: r.sequence,
     hash: r.hash,
     prevHash: r.prevHash,
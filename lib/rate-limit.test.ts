@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkRateLimit,
+  createMemoryStore,
+  createPostgresStore,
+  createSupabaseRpcHit,
+  getRateLimitHeaders,
+  getRateLimitConfig,
+  getRateLimitPolicy,
+  RATE_LIMIT_PRESETS,
+  type PostgresRateLimitHit,
+} from "./rate-limit";
+
+const CONFIG = { windowMs: 60_000, maxRequests: 2 };
+
+describe("getRateLimitPolicy", () => {
+  it("matches the most specific route first", () => {
+    expect(getRateLimitPolicy("/api/sync", "GET")?.preset).toBe("sync");
+    expect(getRateLimitPolicy("/api/admin/events/abc/override", "POST")?.name).toBe("admin");
+    expect(getRateLimitPolicy("/api/tokens/top", "GET")?.name).toBe("api");
+  });
+
+  it("applies method-specific policies only to those methods", () => {
+    expect(getRateLimitPolicy("/api/poh/mint", "POST")?.name).toBe("poh-verify");
+    expect(getRateLimitPolicy("/api/poh/mint", "GET")?.name).toBe("api");
+  });
+
+  it("does not match prefixes inside longer path segments", () => {
+    expect(getRateLimitPolicy("/api/syncing", "GET")?.name).toBe("api");
+    expect(getRateLimitPolicy("/token/abc", "GET")).toBeNull();
+  });
+});
+
+describe("getRateLimitConfig", () => {
+  const api = getRateLimitPolicy("/api/tokens", "GET")!;
+  const exports = getRateLimitPolicy("/api/export/mint", "GET")!;
+  const sync = getRateLimitPolicy("/api/sync", "GET")!;
+
+  it("gives anonymous callers the policy preset", () => {
+    expect(getRateLimitConfig(api, null)).toBe(RATE_LIMIT_PRESETS.standard);
+    expect(getRateLimitConfig(exports, null)).toBe(RATE_LIMIT_PRESETS.strict);
+  });
+
+  it("gives key holders their tier's regular or heavy preset", () => {
+    const partner = { id: 1, tier: "partner" as const };
+    expect(getRateLimitConfig(api, partner)).toBe(RATE_LIMIT_PRESETS.partner);
+    expect(getRateLimitConfig(exports, partner)).toBe(RATE_LIMIT_PRESETS.standard);
+    expect(getRateLimitConfig(api, { id: 2, tier: "developer" })).toBe(RATE_LIMIT_PRESETS.lenient);
+  });
+
+  it("keeps fixed presets on routes without tiers", () => {
+    expect(getRateLimitConfig(sync, { id: 1, tier: "partner" })).toBe(RATE_LIMIT_PRESETS.sync);
+  });
+});
+
+describe("createMemoryStore", () => {
+  it("blocks once the window is used up and resets afterwards", async () => {
+    let now = 1_000;
+    const store = createMemoryStore(() => now);
+
+    expect((await store.hit("a", CONFIG)).remaining).toBe(1);
+    expect((await store.hit("a", CONFIG)).remaining).toBe(0);
+
+    const blocked = await store.hit("a", CONFIG);
+    expect(blocked.success).toBe(false);
+    expect(blocked.retryAfter).toBe(60);
+
+    now += CONFIG.windowMs;
+    expect((await store.hit("a", CONFIG)).success).toBe(true);
+  });
+
+  it("counts keys separately", async () => {
+    const store = createMemoryStore();
+    await store.hit("a", CONFIG);
+    await store.hit("a", CONFIG);
+
+    expect((await store.hit("b", CONFIG)).success).toBe(true);
+  });
+});
+
+describe("createPostgresStore", () => {
+  it("derives the result from the window count", async () => {
+    const resetAt = new Date(31_000);
+    let count = 0;
+    const hit: PostgresRateLimitHit = async () => ({ count: ++count, resetAt });
+    const store = createPostgresStore(hit, () => 1_000);
+
+    expect(await store.hit("a", CONFIG)).toEqual({
+      success: true,
+      limit: 2,
+      remaining: 1,
+      resetTime: 31_000,
+      retryAfter: undefined,
+    });
+    await store.hit("a", CONFIG);
+
+    const blocked = await store.hit("a", CONFIG);
+    expect(blocked.success).toBe(false);
+    expect(blocked.remaining).toBe(0);
+    expect(blocked.retryAfter).toBe(30);
+  });
+});
+
+describe("createSupabaseRpcHit", () => {
+  it("calls rate_limit_hit through PostgREST", async () => {
+    const calls: { url: string; init?: RequestInit }[] = [];
+    const fetchImpl = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return new Response(JSON.stringify([{ count: 3, reset_at: "2026-04-06T09:01:00+00:00" }]));
+    }) as typeof fetch;
+
+    const hit = createSupabaseRpcHit("https://db.example.co/", "service-key", fetchImpl);
+
+    expect(await hit("api:ip:1.2.3.4", 60_000)).toEqual({
+      count: 3,
+      resetAt: new Date("2026-04-06T09:01:00Z"),
+    });
+    expect(calls[0].url).toBe("https://db.example.co/rest/v1/rpc/rate_limit_hit");
+    expect(JSON.parse(String(calls[0].init?.body))).toEqual({
+      p_key: "api:ip:1.2.3.4",
+      p_window_ms: 60_000,
+    });
+  });
+
+  it("throws on error responses", async () => {
+    const fetchImpl = (async () => new Response("", { status: 500 })) as typeof fetch;
+    const hit = createSupabaseRpcHit("https://db.example.co", "service-key", fetchImpl);
+
+    await expect(hit("key", 1_000)).rejects.toThrow("status 500");
+  });
+});
+
+describe("checkRateLimit", () => {
+  const request = (path: string, headers: Record<string, string> = {}) =>
+    new Request(`https://fees.example.com${path}`, { headers });
+
+  it("counts anonymous callers per IP under the route's preset", async () => {
+    const store = createMemoryStore();
+    const check = await checkRateLimit(request("/api/stats", { "x-forwarded-for": "1.2.3.4" }), {
+      store,
+    });
+
+    expect(check?.policy.name).toBe("api");
+    expect(check?.config).toBe(RATE_LIMIT_PRESETS.standard);
+    expect(check?.result.remaining).toBe(99);
+  });
+
+  it("counts API key holders per key under their tier", async () => {
+    const keys: string[] = [];
+    const store = createMemoryStore();
+    const recording = {
+      backend: store.backend,
+      hit: (key: string, config: typeof CONFIG) => {
+        keys.push(key);
+        return store.hit(key, config);
+      },
+    };
+
+    const check = await checkRateLimit(request("/api/stats"), {
+      store: recording,
+      apiKey: { id: 7, tier: "developer" },
+    });
+
+    expect(check?.config).toBe(RATE_LIMIT_PRESETS.lenient);
+    expect(keys).toEqual(["api:key:7"]);
+  });
+
+  it("fails open to memory when the store errors", async () => {
+    const broken = {
+      backend: "postgres" as const,
+      hit: async () => {
+        throw new Error("connection refused");
+      },
+    };
+
+    const check = await checkRateLimit(request("/api/stats"), { store: broken });
+    expect(check?.result.success).toBe(true);
+  });
+
+  it("returns null outside the API", async () => {
+    expect(await checkRateLimit(request("/leaderboard"))).toBeNull();
+  });
+});
+
+describe("getRateLimitHeaders", () => {
+  it("emits RateLimit-* headers with the reset in seconds", () => {
+    const headers = getRateLimitHeaders(
+      { success: true, limit: 100, remaining: 42, resetTime: 31_000 },
+      RATE_LIMIT_PRESETS.standard,
+      1_000
+    );
+
+    expect(headers).toEqual({
+      "RateLimit-Limit": "100",
+      "RateLimit-Remaining": "42",
+      "RateLimit-Reset": "30",
+      "RateLimit-Policy": "100;w=60",
+    });
+  });
+
+  it("adds Retry-After when blocked", () => {
+    const headers = getRateLimitHeaders(
+      { success: false, limit: 5, remaining: 0, resetTime: 61_000, retryAfter: 60 },
+      RATE_LIMIT_PRESETS.sync,
+      1_000
+    );
+
+    expect(headers["Retry-After"]).toBe("60");
+  });
+});
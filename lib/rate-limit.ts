@@ -1,13 +1,18 @@
 /**
- * Rate Limiter with Upstash Redis backend
- * Falls back to in-memory for development without Redis
+ * Rate Limiter with pluggable stores
+ * Shared by the Edge middleware (every /api route) and Node scripts
  *
- * PRODUCTION: Uses @upstash/ratelimit for distributed rate limiting
- * DEVELOPMENT: Falls back to in-memory store if UPSTASH_* not configured
+ * Stores, picked by RATE_LIMIT_STORE (default: upstash when configured, else memory):
+ * - memory: per-instance fixed window, resets on cold start
+ * - upstash: sliding window in Upstash Redis
+ * - postgres: fixed window in the rate_limit_buckets table, via the rate_limit_hit() function
+ *
+ * Everything here must stay Edge-safe: no Node built-ins and no Prisma.
  */
 
 import { Ratelimit } from "@upstash/ratelimit";
 import { Redis } from "@upstash/redis";
+import { API_KEY_TIERS, type ResolvedApiKey } from "./api-keys";
 
 // =============================================================================
 // CONFIGURATION
@@ -17,13 +22,9 @@ const UPSTASH_URL = process.env.UPSTASH_REDIS_REST_URL;
 const UPSTASH_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN;
 const USE_UPSTASH = !!(UPSTASH_URL && UPSTASH_TOKEN);
 
-// Log configuration status at startup
-if (process.env.NODE_ENV === "production" && !USE_UPSTASH) {
-  console.warn(
-    "⚠️ UPSTASH_REDIS_REST_URL/TOKEN not configured - using in-memory rate limiting. " +
-    "This will reset on each deployment. Configure Upstash for production."
-  );
-}
+// PostgREST endpoint of the Supabase project that owns the rate_limit_buckets table
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
 // =============================================================================
 // TYPES
@@ -36,52 +37,119 @@ export interface RateLimitConfig {
 
 export interface RateLimitResult {
   success: boolean;
+  limit: number;
   remaining: number;
-  resetTime: number;
-  retryAfter?: number;
+  resetTime: number; // Epoch ms when the window resets
+  retryAfter?: number; // Seconds, only when blocked
+}
+
+export type RateLimitBackend = "upstash" | "postgres" | "memory";
+
+/**
+ * Counts one request against a key and reports whether it is allowed
+ */
+export interface RateLimitStore {
+  backend: RateLimitBackend;
+  hit(key: string, config: RateLimitConfig): Promise<RateLimitResult>;
 }
 
+/**
+ * Atomically count one hit in a Postgres fixed window (the rate_limit_hit() function)
+ */
+export type PostgresRateLimitHit = (
+  key: string,
+  windowMs: number
+) => Promise<{ count: number; resetAt: Date }>;
+
 // =============================================================================
-// UPSTASH RATE LIMITERS (Production)
+// PRESET CONFIGURATIONS
 // =============================================================================
 
-let redis: Redis | null = null;
-let rateLimiters: Map<string, Ratelimit> | null = null;
+export const RATE_LIMIT_PRESETS = {
+  // Standard API - 100 requests per minute
+  standard: {
+    windowMs: 60 * 1000,
+    maxRequests: 100,
+  },
+  // Strict - 20 requests per minute (for expensive operations)
+  strict: {
+    windowMs: 60 * 1000,
+    maxRequests: 20,
+  },
+  // Lenient - 300 requests per minute (for lightweight reads)
+  lenient: {
+    windowMs: 60 * 1000,
+    maxRequests: 300,
+  },
+  // Sync endpoint - 5 requests per 5 minutes
+  sync: {
+    windowMs: 5 * 60 * 1000,
+    maxRequests: 5,
+  },
+  // Partner API keys - 1000 requests per minute
+  partner: {
+    windowMs: 60 * 1000,
+    maxRequests: 1000,
+  },
+} as const;
 
-function getUpstashRedis(): Redis {
-  if (!redis && USE_UPSTASH) {
-    redis = new Redis({
-      url: UPSTASH_URL!,
-      token: UPSTASH_TOKEN!,
-    });
-  }
-  return redis!;
+export type RateLimitPresetName = keyof typeof RATE_LIMIT_PRESETS;
+
+/**
+ * Which preset applies to a route; the first matching policy wins
+ * The policy name scopes the counter, so routes sharing a preset do not share a budget
+ */
+export interface RateLimitPolicy {
+  name: string;
+  prefix: string;
+  methods?: string[]; // Any method when omitted
+  preset: RateLimitPresetName; // Anonymous callers
+  keyed?: "regular" | "heavy"; // Tier preset API key holders get instead; none when omitted
 }
 
-function getUpstashRateLimiter(config: RateLimitConfig): Ratelimit {
-  if (!rateLimiters) {
-    rateLimiters = new Map();
-  }
+export const RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  { name: "sync", prefix: "/api/sync", preset: "sync" },
+  { name: "admin", prefix: "/api/admin", preset: "strict" },
+  { name: "export", prefix: "/api/export", preset: "strict", keyed: "heavy" },
+  { name: "poh-verify", prefix: "/api/poh", methods: ["POST"], preset: "strict", keyed: "heavy" },
+  { name: "health", prefix: "/api/health", preset: "lenient" },
+  { name: "api", prefix: "/api", preset: "standard", keyed: "regular" },
+];
 
-  // Create unique key for this config
-  const configKey = `${config.windowMs}:${config.maxRequests}`;
+/**
+ * Find the policy for a request, or null for routes that are not rate limited
+ */
+export function getRateLimitPolicy(
+  pathname: string,
+  method: string,
+  policies: RateLimitPolicy[] = RATE_LIMIT_POLICIES
+): RateLimitPolicy | null {
+  return (
+    policies.find(
+      (policy) =>
+        (pathname === policy.prefix || pathname.startsWith(`${policy.prefix}/`)) &&
+        (!policy.methods || policy.methods.includes(method.toUpperCase()))
+    ) ?? null
+  );
+}
 
-  if (!rateLimiters.has(configKey)) {
-    const windowSec = Math.ceil(config.windowMs / 1000);
-    const limiter = new Ratelimit({
-      redis: getUpstashRedis(),
-      limiter: Ratelimit.slidingWindow(config.maxRequests, `${windowSec} s`),
-      analytics: true,
-      prefix: "fee-tracker:ratelimit",
-    });
-    rateLimiters.set(configKey, limiter);
+/**
+ * Preset for a caller under a policy: the key's tier preset on keyed routes, else the policy's
+ */
+export function getRateLimitConfig(
+  policy: RateLimitPolicy,
+  apiKey: ResolvedApiKey | null
+): RateLimitConfig {
+  if (!apiKey || !policy.keyed) {
+    return RATE_LIMIT_PRESETS[policy.preset];
   }
 
-  return rateLimiters.get(configKey)!;
+  const tier = API_KEY_TIERS[apiKey.tier];
+  return RATE_LIMIT_PRESETS[policy.keyed === "heavy" ? tier.heavyPreset : tier.preset];
 }
 
 // =============================================================================
-// IN-MEMORY FALLBACK (Development / No Redis)
+// STORES
 // =============================================================================
 
 interface RateLimitEntry {
@@ -89,115 +157,218 @@ interface RateLimitEntry {
   resetTime: number;
 }
 
-const rateLimitStore = new Map<string, RateLimitEntry>();
+// Expired in-memory windows are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
 
-const CLEANUP_INTERVAL = 60 * 1000;
-let cleanupInterval: ReturnType<typeof setInterval> | null = null;
+/**
+ * Per-instance fixed-window store; the fallback when nothing else is configured
+ */
+export function createMemoryStore(now: () => number = Date.now): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>();
+  let lastSweep = now();
+
+  return {
+    backend: "memory",
+    async hit(key, config) {
+      const time = now();
+
+      if (time - lastSweep >= SWEEP_INTERVAL_MS) {
+        for (const [entryKey, entry] of entries) {
+          if (entry.resetTime <= time) entries.delete(entryKey);
+        }
+        lastSweep = time;
+      }
 
-function startCleanup() {
-  if (cleanupInterval) return;
+      let entry = entries.get(key);
+      if (!entry || entry.resetTime <= time) {
+        entry = { count: 0, resetTime: time + config.windowMs };
+        entries.set(key, entry);
+      }
 
-  cleanupInterval = setInterval(() => {
-    const now = Date.now();
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (entry.resetTime < now) {
-        rateLimitStore.delete(key);
+      if (entry.count >= config.maxRequests) {
+        return {
+          success: false,
+          limit: config.maxRequests,
+          remaining: 0,
+          resetTime: entry.resetTime,
+          retryAfter: Math.ceil((entry.resetTime - time) / 1000),
+        };
       }
+
+      entry.count++;
+      return {
+        success: true,
+        limit: config.maxRequests,
+        remaining: config.maxRequests - entry.count,
+        resetTime: entry.resetTime,
+      };
+    },
+  };
+}
+
+/**
+ * Sliding-window store in Upstash Redis, one limiter per window/limit pair
+ */
+export function createUpstashStore(redis: Redis): RateLimitStore {
+  const limiters = new Map<string, Ratelimit>();
+
+  function getLimiter(config: RateLimitConfig): Ratelimit {
+    const configKey = `${config.windowMs}:${config.maxRequests}`;
+    let limiter = limiters.get(configKey);
+
+    if (!limiter) {
+      const windowSec = Math.ceil(config.windowMs / 1000);
+      limiter = new Ratelimit({
+        redis,
+        limiter: Ratelimit.slidingWindow(config.maxRequests, `${windowSec} s`),
+        analytics: true,
+        prefix: "fee-tracker:ratelimit",
+      });
+      limiters.set(configKey, limiter);
     }
-  }, CLEANUP_INTERVAL);
 
-  if (cleanupInterval.unref) {
-    cleanupInterval.unref();
+    return limiter;
   }
-}
 
-function checkRateLimitInMemory(
-  identifier: string,
-  config: RateLimitConfig
-): RateLimitResult {
-  startCleanup();
+  return {
+    backend: "upstash",
+    async hit(key, config) {
+      const result = await getLimiter(config).limit(key);
+
+      return {
+        success: result.success,
+        limit: result.limit,
+        remaining: result.remaining,
+        resetTime: result.reset,
+        retryAfter: result.success
+          ? undefined
+          : Math.max(1, Math.ceil((result.reset - Date.now()) / 1000)),
+      };
+    },
+  };
+}
 
-  const now = Date.now();
-  const entry = rateLimitStore.get(identifier);
+/**
+ * Fixed-window store in Postgres
+ * `hit` is either PostgREST (Edge) or Prisma (Node, see hitRateLimitBucket in lib/db.ts)
+ */
+export function createPostgresStore(
+  hit: PostgresRateLimitHit,
+  now: () => number = Date.now
+): RateLimitStore {
+  return {
+    backend: "postgres",
+    async hit(key, config) {
+      const { count, resetAt } = await hit(key, config.windowMs);
+      const resetTime = resetAt.getTime();
+      const success = count <= config.maxRequests;
+
+      return {
+        success,
+        limit: config.maxRequests,
+        remaining: Math.max(0, config.maxRequests - count),
+        resetTime,
+        retryAfter: success ? undefined : Math.max(1, Math.ceil((resetTime - now()) / 1000)),
+      };
+    },
+  };
+}
 
-  if (!entry || entry.resetTime < now) {
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetTime: now + config.windowMs,
+/**
+ * Call rate_limit_hit() through Supabase's PostgREST API, which works on the Edge runtime
+ */
+export function createSupabaseRpcHit(
+  url: string,
+  serviceRoleKey: string,
+  fetchImpl: typeof fetch = fetch
+): PostgresRateLimitHit {
+  const endpoint = `${url.replace(/\/$/, "")}/rest/v1/rpc/rate_limit_hit`;
+
+  return async (key, windowMs) => {
+    const response = await fetchImpl(endpoint, {
+      method: "POST",
+      headers: {
+        apikey: serviceRoleKey,
+        Authorization: `Bearer ${serviceRoleKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ p_key: key, p_window_ms: windowMs }),
+      cache: "no-store",
     });
-    return {
-      success: true,
-      remaining: config.maxRequests - 1,
-      resetTime: now + config.windowMs,
-    };
-  }
 
-  if (entry.count >= config.maxRequests) {
-    return {
-      success: false,
-      remaining: 0,
-      resetTime: entry.resetTime,
-      retryAfter: Math.ceil((entry.resetTime - now) / 1000),
-    };
-  }
+    if (!response.ok) {
+      throw new Error(`rate_limit_hit failed with status ${response.status}`);
+    }
 
-  entry.count++;
-  return {
-    success: true,
-    remaining: config.maxRequests - entry.count,
-    resetTime: entry.resetTime,
+    const rows = (await response.json()) as { count: number; reset_at: string }[];
+    if (rows.length === 0) {
+      throw new Error("rate_limit_hit returned no row");
+    }
+
+    return { count: rows[0].count, resetAt: new Date(rows[0].reset_at) };
   };
 }
 
 // =============================================================================
-// PUBLIC API
+// STORE SELECTION
 // =============================================================================
 
 /**
- * Check if a request should be rate limited
- * Uses Upstash Redis in production, in-memory in development
- *
- * @param identifier - Unique identifier (IP, API key, etc.)
- * @param config - Rate limit configuration
- * @returns Rate limit result
+ * Backend named by RATE_LIMIT_STORE, falling back to whatever is configured
  */
-export async function checkRateLimitAsync(
-  identifier: string,
-  config: RateLimitConfig
-): Promise<RateLimitResult> {
-  if (!USE_UPSTASH) {
-    return checkRateLimitInMemory(identifier, config);
+function getConfiguredBackend(): RateLimitBackend {
+  const requested = process.env.RATE_LIMIT_STORE;
+
+  if (requested === "postgres") {
+    if (SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY) return "postgres";
+    console.warn(
+      "⚠️ RATE_LIMIT_STORE=postgres needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY"
+    );
+  } else if (requested === "upstash" && !USE_UPSTASH) {
+    console.warn("⚠️ RATE_LIMIT_STORE=upstash needs UPSTASH_REDIS_REST_URL/TOKEN");
+  } else if (requested === "memory") {
+    return "memory";
   }
 
-  try {
-    const limiter = getUpstashRateLimiter(config);
-    const result = await limiter.limit(identifier);
-
-    return {
-      success: result.success,
-      remaining: result.remaining,
-      resetTime: result.reset,
-      retryAfter: result.success ? undefined : Math.ceil((result.reset - Date.now()) / 1000),
-    };
-  } catch (error) {
-    // Fallback to in-memory on Redis errors (fail open)
-    console.error("Upstash rate limit error, falling back to in-memory:", error);
-    return checkRateLimitInMemory(identifier, config);
-  }
+  return USE_UPSTASH ? "upstash" : "memory";
 }
 
+const memoryStore = createMemoryStore();
+let configuredStore: RateLimitStore | null = null;
+
 /**
- * Synchronous rate limit check (in-memory only)
- * Use this for Edge Runtime middleware where async isn't ideal
- * For full production support, use checkRateLimitAsync
+ * The store every caller shares, created on first use
  */
-export function checkRateLimit(
-  identifier: string,
-  config: RateLimitConfig
-): RateLimitResult {
-  return checkRateLimitInMemory(identifier, config);
+export function getRateLimitStore(): RateLimitStore {
+  if (configuredStore) return configuredStore;
+
+  const backend = getConfiguredBackend();
+
+  if (backend === "upstash") {
+    configuredStore = createUpstashStore(
+      new Redis({ url: UPSTASH_URL!, token: UPSTASH_TOKEN! })
+    );
+  } else if (backend === "postgres") {
+    configuredStore = createPostgresStore(
+      createSupabaseRpcHit(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+    );
+  } else {
+    if (process.env.NODE_ENV === "production") {
+      console.warn(
+        "⚠️ No shared rate limit store configured - using in-memory rate limiting. " +
+        "This will reset on each deployment. Configure Upstash or Postgres for production."
+      );
+    }
+    configuredStore = memoryStore;
+  }
+
+  return configuredStore;
 }
 
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
 /**
  * Get client identifier from request
  * Uses X-Forwarded-For header if behind proxy, falls back to IP
@@ -215,32 +386,61 @@ export function getClientIdentifier(request: Request): string {
   return "unknown";
 }
 
-// =============================================================================
-// PRESET CONFIGURATIONS
-// =============================================================================
+export interface RateLimitCheck {
+  policy: RateLimitPolicy;
+  config: RateLimitConfig;
+  result: RateLimitResult;
+}
 
-export const RATE_LIMIT_PRESETS = {
-  // Standard API - 100 requests per minute
-  standard: {
-    windowMs: 60 * 1000,
-    maxRequests: 100,
-  },
-  // Strict - 20 requests per minute (for expensive operations)
-  strict: {
-    windowMs: 60 * 1000,
-    maxRequests: 20,
-  },
-  // Lenient - 300 requests per minute (for lightweight reads)
-  lenient: {
-    windowMs: 60 * 1000,
-    maxRequests: 300,
-  },
-  // Sync endpoint - 5 requests per 5 minutes
-  sync: {
-    windowMs: 5 * 60 * 1000,
-    maxRequests: 5,
-  },
-} as const;
+/**
+ * Count a request against its route's policy
+ * Callers with a verified API key are counted per key under their tier's preset;
+ * everyone else per client IP. Returns null for routes without a policy.
+ * Store errors fail open to the in-memory store.
+ */
+export async function checkRateLimit(
+  request: Request,
+  options: { store?: RateLimitStore; apiKey?: ResolvedApiKey | null } = {}
+): Promise<RateLimitCheck | null> {
+  const { pathname } = new URL(request.url);
+  const policy = getRateLimitPolicy(pathname, request.method);
+  if (!policy) return null;
+
+  const apiKey = options.apiKey ?? null;
+  const subject = apiKey ? `key:${apiKey.id}` : `ip:${getClientIdentifier(request)}`;
+  const config = getRateLimitConfig(policy, apiKey);
+  const key = `${policy.name}:${subject}`;
+  const store = options.store ?? getRateLimitStore();
+
+  try {
+    return { policy, config, result: await store.hit(key, config) };
+  } catch (error) {
+    console.error(`${store.backend} rate limit error, falling back to in-memory:`, error);
+    return { policy, config, result: await memoryStore.hit(key, config) };
+  }
+}
+
+/**
+ * Standard RateLimit-* headers (IETF draft), plus Retry-After when blocked
+ */
+export function getRateLimitHeaders(
+  result: RateLimitResult,
+  config: RateLimitConfig,
+  now: number = Date.now()
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(Math.max(0, result.remaining)),
+    "RateLimit-Reset": String(Math.max(0, Math.ceil((result.resetTime - now) / 1000))),
+    "RateLimit-Policy": `${config.maxRequests};w=${Math.ceil(config.windowMs / 1000)}`,
+  };
+
+  if (!result.success && result.retryAfter !== undefined) {
+    headers["Retry-After"] = String(result.retryAfter);
+  }
+
+  return headers;
+}
 
 // =============================================================================
 // DIAGNOSTICS
@@ -250,11 +450,12 @@ export const RATE_LIMIT_PRESETS = {
  * Get rate limiter configuration status
  */
 export function getRateLimiterStatus(): {
-  backend: "upstash" | "memory";
+  backend: RateLimitBackend;
   configured: boolean;
 } {
+  const backend = getConfiguredBackend();
   return {
-    backend: USE_UPSTASH ? "upstash" : "memory",
-    configured: USE_UPSTASH,
+    backend,
+    configured: backend !== "memory",
   };
 }
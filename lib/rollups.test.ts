@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { floorToHour, floorToDay, getRollupIncrement } from "./rollups";
+
+describe("floorToHour", () => {
+  it("truncates to the start of the UTC hour", () => {
+    expect(floorToHour(new Date("2026-03-23T14:59:59.999Z")).toISOString()).toBe(
+      "2026-03-23T14:00:00.000Z"
+    );
+  });
+
+  it("keeps dates already on the hour", () => {
+    expect(floorToHour(new Date("2026-03-23T14:00:00.000Z")).toISOString()).toBe(
+      "2026-03-23T14:00:00.000Z"
+    );
+  });
+
+  it("does not mutate its input", () => {
+    const date = new Date("2026-03-23T14:30:00.000Z");
+    floorToHour(date);
+    expect(date.toISOString()).toBe("2026-03-23T14:30:00.000Z");
+  });
+});
+
+describe("floorToDay", () => {
+  it("truncates to UTC midnight", () => {
+    expect(floorToDay(new Date("2026-03-23T23:59:59.999Z")).toISOString()).toBe(
+      "2026-03-23T00:00:00.000Z"
+    );
+  });
+});
+
+describe("getRollupIncrement", () => {
+  it("adds an event to its type's sum and count", () => {
+    expect(getRollupIncrement("burn", BigInt(5_000), 1)).toEqual({
+      collectedLamports: BigInt(0),
+      burnedLamports: BigInt(5_000),
+      withdrawnLamports: BigInt(0),
+      collectCount: 0,
+      burnCount: 1,
+      withdrawCount: 0,
+      eventCount: 1,
+    });
+  });
+
+  it("negates everything when removing an event", () => {
+    const increment = getRollupIncrement("withdraw", BigInt(7_000), -1);
+
+    expect(increment?.withdrawnLamports).toBe(BigInt(-7_000));
+    expect(increment?.withdrawCount).toBe(-1);
+    expect(increment?.eventCount).toBe(-1);
+  });
+
+  it("ignores event types that are not rolled up", () => {
+    expect(getRollupIncrement("protocol_fee", BigInt(1_000), 1)).toBeNull();
+  });
+});
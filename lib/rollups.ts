@@ -0,0 +1,64 @@
+/**
+ * Fee Rollups
+ * Time bucketing and increments for precomputed per-token and global fee totals
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only these event types are summed; protocol fees never pass through the creator
+export const ROLLUP_EVENT_TYPES = ["collect", "burn", "withdraw"] as const;
+
+/**
+ * Signed change to apply to one hourly and one daily bucket
+ */
+export interface RollupIncrement {
+  collectedLamports: bigint;
+  burnedLamports: bigint;
+  withdrawnLamports: bigint;
+  collectCount: number;
+  burnCount: number;
+  withdrawCount: number;
+  eventCount: number;
+}
+
+/**
+ * Start of the UTC hour containing a date (the hourly rollup bucket)
+ */
+export function floorToHour(date: Date): Date {
+  const bucket = new Date(date);
+  bucket.setUTCMinutes(0, 0, 0);
+  return bucket;
+}
+
+/**
+ * Start of the UTC day containing a date (the daily rollup bucket)
+ */
+export function floorToDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Rollup change for adding (sign 1) or removing (sign -1) one fee event
+ * Returns null for event types that are not rolled up
+ */
+export function getRollupIncrement(
+  eventType: string,
+  amountLamports: bigint,
+  sign: 1 | -1
+): RollupIncrement | null {
+  if (!(ROLLUP_EVENT_TYPES as readonly string[]).includes(eventType)) {
+    return null;
+  }
+
+  const amount = sign === 1 ? amountLamports : -amountLamports;
+
+  return {
+    collectedLamports: eventType === "collect" ? amount : BigInt(0),
+    burnedLamports: eventType === "burn" ? amount : BigInt(0),
+    withdrawnLamports: eventType === "withdraw" ? amount : BigInt(0),
+    collectCount: eventType === "collect" ? sign : 0,
+    burnCount: eventType === "burn" ? sign : 0,
+    withdrawCount: eventType === "withdraw" ? sign : 0,
+    eventCount: sign,
+  };
+}
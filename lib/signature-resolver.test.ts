@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  findResolvingTransaction,
+  findStoredDuplicate,
+  MAX_SLOT_DISTANCE,
+} from "./signature-resolver";
+
+const pending = { slot: BigInt(1_000), deltaLamports: BigInt(-5_000) };
+
+describe("findResolvingTransaction", () => {
+  it("matches the closest transaction with the exact lamport delta", () => {
+    const match = findResolvingTransaction(
+      pending,
+      [
+        { signature: "far", slot: 990, delta: BigInt(-5_000) },
+        { signature: "near", slot: 999, delta: BigInt(-5_000) },
+        { signature: "wrong-amount", slot: 1_000, delta: BigInt(-4_999) },
+      ],
+      new Set()
+    );
+
+    expect(match?.signature).toBe("near");
+  });
+
+  it("skips transactions already used by another event", () => {
+    const match = findResolvingTransaction(
+      pending,
+      [{ signature: "taken", slot: 1_000, delta: BigInt(-5_000) }],
+      new Set(["taken"])
+    );
+
+    expect(match).toBeNull();
+  });
+
+  it("ignores transactions after the notification or too far before it", () => {
+    const match = findResolvingTransaction(
+      pending,
+      [
+        { signature: "later", slot: 1_001, delta: BigInt(-5_000) },
+        { signature: "stale", slot: 1_000 - MAX_SLOT_DISTANCE - 1, delta: BigInt(-5_000) },
+      ],
+      new Set()
+    );
+
+    expect(match).toBeNull();
+  });
+});
+
+describe("findStoredDuplicate", () => {
+  it("finds the stored transaction when it is the only exact match", () => {
+    const duplicate = findStoredDuplicate(
+      pending,
+      [
+        { signature: "indexed", slot: 998, delta: BigInt(-5_000) },
+        { signature: "other", slot: 999, delta: BigInt(-1_000) },
+      ],
+      new Set(["indexed"])
+    );
+
+    expect(duplicate?.signature).toBe("indexed");
+  });
+
+  it("defers to an unstored match that can still resolve the placeholder", () => {
+    const duplicate = findStoredDuplicate(
+      pending,
+      [
+        { signature: "indexed", slot: 999, delta: BigInt(-5_000) },
+        { signature: "free", slot: 995, delta: BigInt(-5_000) },
+      ],
+      new Set(["indexed"])
+    );
+
+    expect(duplicate).toBeNull();
+  });
+
+  it("ignores stored transactions with another amount", () => {
+    const duplicate = findStoredDuplicate(
+      pending,
+      [{ signature: "indexed", slot: 999, delta: BigInt(-4_000) }],
+      new Set(["indexed"])
+    );
+
+    expect(duplicate).toBeNull();
+  });
+});
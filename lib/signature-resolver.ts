@@ -0,0 +1,127 @@
+/**
+ * Signature Resolver
+ * Matches signature-less realtime events to real transactions by slot and amount
+ */
+
+import { getTransactionHistory, connection } from "./helius";
+import { getAccountLamportDelta, type AddressTransaction } from "./balance-attribution";
+
+// How long a placeholder may wait for its transaction before it is flagged
+export const DEFAULT_RESOLUTION_DEADLINE_MS = 30 * 60 * 1000;
+
+// A notification lands at or shortly after its transaction's slot
+export const MAX_SLOT_DISTANCE = 150;
+
+export interface PendingResolution {
+  slot: bigint; // Slot of the balance change notification
+  deltaLamports: bigint; // Signed lamport change of the tracked address
+}
+
+/**
+ * Closest candidate at or before the notification slot with the exact lamport delta
+ */
+function findClosestMatch(
+  pending: PendingResolution,
+  candidates: AddressTransaction[]
+): AddressTransaction | null {
+  const slot = Number(pending.slot);
+  let best: AddressTransaction | null = null;
+
+  for (const candidate of candidates) {
+    if (candidate.delta !== pending.deltaLamports) continue;
+
+    const distance = slot - candidate.slot;
+    if (distance < 0 || distance > MAX_SLOT_DISTANCE) continue;
+
+    if (!best || distance < slot - best.slot) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick the transaction that produced a pending balance change
+ * Requires an exact lamport match at or before the notification slot; the closest slot wins
+ */
+export function findResolvingTransaction(
+  pending: PendingResolution,
+  candidates: AddressTransaction[],
+  taken: Set<string>
+): AddressTransaction | null {
+  return findClosestMatch(
+    pending,
+    candidates.filter((c) => !taken.has(c.signature))
+  );
+}
+
+/**
+ * Find the already-stored transaction a pending balance change duplicates
+ * Only when every exact match is taken, e.g. the indexer or /api/sync stored the
+ * transaction before the placeholder resolved
+ */
+export function findStoredDuplicate(
+  pending: PendingResolution,
+  candidates: AddressTransaction[],
+  taken: Set<string>
+): AddressTransaction | null {
+  if (findResolvingTransaction(pending, candidates, taken)) return null;
+  return findClosestMatch(
+    pending,
+    candidates.filter((c) => taken.has(c.signature))
+  );
+}
+
+/**
+ * Fetch an address's transactions within MAX_SLOT_DISTANCE below a slot, with lamport deltas
+ */
+export async function fetchAddressTransactionsNearSlot(
+  address: string,
+  slot: number,
+  maxPages = 3
+): Promise<AddressTransaction[]> {
+  const lowestSlot = slot - MAX_SLOT_DISTANCE;
+  const signatures: { signature: string; slot: number }[] = [];
+  let before: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const batch = await getTransactionHistory(address, { before, limit: 100 });
+    signatures.push(...batch.filter((s) => s.slot <= slot && s.slot >= lowestSlot));
+
+    // Newest first: stop once the page reaches below the window
+    if (batch.length < 100 || batch[batch.length - 1].slot < lowestSlot) break;
+    before = batch[batch.length - 1].signature;
+  }
+
+  if (signatures.length === 0) return [];
+
+  const transactions = await connection.getParsedTransactions(
+    signatures.map((s) => s.signature),
+    { maxSupportedTransactionVersion: 0, commitment: "confirmed" }
+  );
+
+  const candidates: AddressTransaction[] = [];
+  transactions.forEach((tx, i) => {
+    if (!tx?.meta) return;
+
+    const delta = getAccountLamportDelta(
+      {
+        accountKeys: tx.transaction.message.accountKeys.map((k) => k.pubkey.toBase58()),
+        preBalances: tx.meta.preBalances,
+        postBalances: tx.meta.postBalances,
+      },
+      address
+    );
+    if (delta === null) return;
+
+    candidates.push({
+      signature: signatures[i].signature,
+      slot: signatures[i].slot,
+      blockTime: tx.blockTime,
+      delta,
+    });
+  });
+
+  return candidates;
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import type { SignatureInfo } from "./helius";
+import {
+  advanceBackfill,
+  fetchCursorSignatures,
+  fetchSignaturesSince,
+  planCursorUpdate,
+  type BackfillProgress,
+  type SignaturePageFetcher,
+  type SyncCursorState,
+} from "./sync-cursor";
+
+// Chain of signatures, newest first: sig-9 ... sig-0
+const chain: SignatureInfo[] = Array.from({ length: 10 }, (_, i) => ({
+  signature: `sig-${9 - i}`,
+  slot: 1000 + (9 - i),
+  err: null,
+  memo: null,
+  blockTime: null,
+}));
+
+function makeFetcher(calls: unknown[]): SignaturePageFetcher {
+  return async ({ before, until, limit }) => {
+    calls.push({ before, until, limit });
+    let start = before ? chain.findIndex((s) => s.signature === before) + 1 : 0;
+    const results: SignatureInfo[] = [];
+    while (results.length < limit && start < chain.length) {
+      if (chain[start].signature === until) break;
+      results.push(chain[start++]);
+    }
+    return results;
+  };
+}
+
+describe("fetchSignaturesSince", () => {
+  it("pages until the cursor signature is reached", async () => {
+    const calls: unknown[] = [];
+    const result = await fetchSignaturesSince(makeFetcher(calls), "sig-3", { pageSize: 2 });
+
+    expect(result.signatures.map((s) => s.signature)).toEqual([
+      "sig-9", "sig-8", "sig-7", "sig-6", "sig-5", "sig-4",
+    ]);
+    expect(result.reachedCursor).toBe(true);
+    expect(calls).toHaveLength(4);
+  });
+
+  it("stops at maxPages and reports the gap", async () => {
+    const result = await fetchSignaturesSince(makeFetcher([]), "sig-0", { pageSize: 2, maxPages: 2 });
+
+    expect(result.signatures.map((s) => s.signature)).toEqual(["sig-9", "sig-8", "sig-7", "sig-6"]);
+    expect(result.reachedCursor).toBe(false);
+  });
+
+  it("returns nothing when already at the head", async () => {
+    const result = await fetchSignaturesSince(makeFetcher([]), "sig-9", { pageSize: 2 });
+
+    expect(result.signatures).toEqual([]);
+    expect(result.reachedCursor).toBe(true);
+  });
+});
+
+describe("fetchCursorSignatures", () => {
+  it("fills a recorded gap once caught up with the head", async () => {
+    const calls: unknown[] = [];
+    const cursor: SyncCursorState = {
+      lastSignature: "sig-9",
+      lastSlot: BigInt(1009),
+      backfillSignature: "sig-0",
+      backfillSlot: BigInt(1000),
+      backfillComplete: true,
+      gapBeforeSignature: "sig-6",
+      gapUntilSignature: "sig-2",
+    };
+    const result = await fetchCursorSignatures(makeFetcher(calls), cursor, { pageSize: 2 });
+
+    expect(result.signatures.map((s) => s.signature)).toEqual(["sig-5", "sig-4", "sig-3"]);
+    expect(result.gap?.reachedCursor).toBe(true);
+    expect(calls[1]).toEqual({ before: "sig-6", until: "sig-2", limit: 2 });
+  });
+
+  it("leaves the gap for later while new signatures are still behind", async () => {
+    const cursor: SyncCursorState = {
+      lastSignature: "sig-3",
+      lastSlot: BigInt(1003),
+      backfillSignature: "sig-0",
+      backfillSlot: BigInt(1000),
+      backfillComplete: true,
+      gapBeforeSignature: "sig-2",
+      gapUntilSignature: "sig-0",
+    };
+    const result = await fetchCursorSignatures(makeFetcher([]), cursor, { pageSize: 2, maxPages: 1 });
+
+    expect(result.signatures.map((s) => s.signature)).toEqual(["sig-9", "sig-8"]);
+    expect(result.gap).toBeNull();
+  });
+});
+
+describe("planCursorUpdate", () => {
+  const existing: SyncCursorState = {
+    lastSignature: "sig-3",
+    lastSlot: BigInt(1003),
+    backfillSignature: "sig-0",
+    backfillSlot: BigInt(1000),
+    backfillComplete: true,
+    gapBeforeSignature: null,
+    gapUntilSignature: null,
+  };
+
+  it("advances the head and keeps the backfill position", () => {
+    const update = planCursorUpdate(existing, {
+      signatures: chain.slice(0, 6),
+      reachedCursor: true,
+    });
+
+    expect(update.lastSignature).toBe("sig-9");
+    expect(update.lastSlot).toBe(BigInt(1009));
+    expect(update.backfillSignature).toBe("sig-0");
+    expect(update.backfillComplete).toBe(true);
+  });
+
+  it("records a gap down to the previous head and keeps the backfill state", () => {
+    const update = planCursorUpdate(existing, {
+      signatures: chain.slice(0, 4),
+      reachedCursor: false,
+    });
+
+    expect(update.lastSignature).toBe("sig-9");
+    expect(update.gapBeforeSignature).toBe("sig-6");
+    expect(update.gapUntilSignature).toBe("sig-3");
+    expect(update.backfillSignature).toBe("sig-0");
+    expect(update.backfillComplete).toBe(true);
+  });
+
+  it("merges a new gap with an unfilled one", () => {
+    const update = planCursorUpdate(
+      { ...existing, lastSignature: "sig-5", gapBeforeSignature: "sig-4", gapUntilSignature: "sig-1" },
+      { signatures: chain.slice(0, 2), reachedCursor: false }
+    );
+
+    expect(update.gapBeforeSignature).toBe("sig-8");
+    expect(update.gapUntilSignature).toBe("sig-1");
+  });
+
+  it("moves or clears the gap as it is filled", () => {
+    const withGap = { ...existing, lastSignature: "sig-9", gapBeforeSignature: "sig-6", gapUntilSignature: "sig-1" };
+    const head = { signatures: [], reachedCursor: true };
+
+    const partial = planCursorUpdate(withGap, head, { signatures: chain.slice(4, 6), reachedCursor: false });
+    expect(partial.gapBeforeSignature).toBe("sig-4");
+    expect(partial.gapUntilSignature).toBe("sig-1");
+
+    const filled = planCursorUpdate(withGap, head, { signatures: chain.slice(4, 8), reachedCursor: true });
+    expect(filled.gapBeforeSignature).toBeNull();
+    expect(filled.gapUntilSignature).toBeNull();
+    expect(filled.lastSignature).toBe("sig-9");
+  });
+
+  it("seeds the backfill position on first sync", () => {
+    const partial = planCursorUpdate(null, { signatures: chain.slice(0, 4), reachedCursor: false });
+    expect(partial.backfillSignature).toBe("sig-6");
+    expect(partial.backfillComplete).toBe(false);
+
+    const full = planCursorUpdate(null, { signatures: chain, reachedCursor: true });
+    expect(full.backfillSignature).toBe("sig-0");
+    expect(full.backfillComplete).toBe(true);
+  });
+
+  it("leaves the cursor untouched when nothing is new", () => {
+    expect(planCursorUpdate(existing, { signatures: [], reachedCursor: true })).toEqual(existing);
+  });
+});
+
+describe("advanceBackfill", () => {
+  const start: BackfillProgress = {
+    backfillSignature: "sig-9",
+    backfillSlot: BigInt(1009),
+    backfillComplete: false,
+    backfillScanned: 1,
+    backfillEvents: 0,
+    backfillOldestTime: null,
+  };
+  const page = chain.slice(1, 4).map((s, i) => ({ ...s, blockTime: 1_700_000_000 - i * 60 }));
+
+  it("moves the checkpoint to the oldest signature of a full page", () => {
+    const next = advanceBackfill(start, page, 2, 3);
+
+    expect(next.backfillSignature).toBe("sig-6");
+    expect(next.backfillSlot).toBe(BigInt(1006));
+    expect(next.backfillScanned).toBe(4);
+    expect(next.backfillEvents).toBe(2);
+    expect(next.backfillOldestTime?.getTime()).toBe((1_700_000_000 - 120) * 1000);
+    expect(next.backfillComplete).toBe(false);
+  });
+
+  it("marks the backfill complete on a short or empty page", () => {
+    expect(advanceBackfill(start, page, 0, 100).backfillComplete).toBe(true);
+
+    const empty = advanceBackfill(start, [], 0, 100);
+    expect(empty.backfillComplete).toBe(true);
+    expect(empty.backfillSignature).toBe("sig-9");
+  });
+});
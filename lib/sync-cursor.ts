@@ -0,0 +1,198 @@
+/**
+ * Sync Cursors
+ * Incremental signature paging against a persisted per-address cursor
+ */
+
+import type { SignatureInfo } from "./helius";
+
+export type CursorAddressType = "vault" | "amm_vault" | "wallet";
+
+export interface SyncCursorState {
+  lastSignature: string | null;
+  lastSlot: bigint | null;
+  backfillSignature: string | null;
+  backfillSlot: bigint | null;
+  backfillComplete: boolean;
+  gapBeforeSignature: string | null; // Unfetched signatures below this one...
+  gapUntilSignature: string | null; // ...down to this earlier head
+}
+
+export type SignaturePageFetcher = (options: {
+  before?: string;
+  until?: string;
+  limit: number;
+}) => Promise<SignatureInfo[]>;
+
+export interface SignaturesSinceResult {
+  signatures: SignatureInfo[]; // Newest first
+  reachedCursor: boolean; // False when maxPages ran out before the cursor (or genesis)
+}
+
+export interface CursorSignatures {
+  signatures: SignatureInfo[]; // New signatures, then the gap's, newest first
+  head: SignaturesSinceResult;
+  gap: SignaturesSinceResult | null; // Only fetched once the head has caught up
+}
+
+export interface CursorUpdate {
+  lastSignature: string | null;
+  lastSlot: bigint | null;
+  backfillSignature: string | null;
+  backfillSlot: bigint | null;
+  backfillComplete: boolean;
+  gapBeforeSignature: string | null;
+  gapUntilSignature: string | null;
+}
+
+/**
+ * Page signatures newer than the cursor, newest first
+ * Without a cursor this reads back from the newest signature
+ */
+export async function fetchSignaturesSince(
+  fetchPage: SignaturePageFetcher,
+  untilSignature: string | null,
+  options?: { pageSize?: number; maxPages?: number; before?: string }
+): Promise<SignaturesSinceResult> {
+  const pageSize = options?.pageSize ?? 100;
+  const maxPages = options?.maxPages ?? 10;
+  const signatures: SignatureInfo[] = [];
+  let before = options?.before;
+
+  for (let page = 0; page < maxPages; page++) {
+    const batch = await fetchPage({
+      before,
+      until: untilSignature ?? undefined,
+      limit: pageSize,
+    });
+    signatures.push(...batch);
+
+    // A short page means the RPC stopped at the cursor (or at genesis)
+    if (batch.length < pageSize) {
+      return { signatures, reachedCursor: true };
+    }
+
+    before = batch[batch.length - 1].signature;
+  }
+
+  return { signatures, reachedCursor: false };
+}
+
+/**
+ * Page the signatures a cursor has not seen: new ones above its head, then
+ * (once caught up) a gap an earlier run left between two heads
+ */
+export async function fetchCursorSignatures(
+  fetchPage: SignaturePageFetcher,
+  cursor: SyncCursorState | null,
+  options?: { pageSize?: number; maxPages?: number }
+): Promise<CursorSignatures> {
+  const head = await fetchSignaturesSince(fetchPage, cursor?.lastSignature ?? null, options);
+
+  let gap: SignaturesSinceResult | null = null;
+  if (head.reachedCursor && cursor?.gapBeforeSignature) {
+    gap = await fetchSignaturesSince(fetchPage, cursor.gapUntilSignature, {
+      ...options,
+      before: cursor.gapBeforeSignature,
+    });
+  }
+
+  return { signatures: [...head.signatures, ...(gap?.signatures ?? [])], head, gap };
+}
+
+/**
+ * Compute the cursor to persist once every fetched signature has been processed
+ * A gap left by maxPages is recorded between the oldest fetched signature and the
+ * previous head, and filled by later runs; the backfill position is left alone
+ */
+export function planCursorUpdate(
+  cursor: SyncCursorState | null,
+  result: SignaturesSinceResult,
+  gap: SignaturesSinceResult | null = null
+): CursorUpdate {
+  const current: SyncCursorState = cursor ?? {
+    lastSignature: null,
+    lastSlot: null,
+    backfillSignature: null,
+    backfillSlot: null,
+    backfillComplete: false,
+    gapBeforeSignature: null,
+    gapUntilSignature: null,
+  };
+  const update: CursorUpdate = { ...current };
+
+  if (gap) {
+    if (gap.reachedCursor) {
+      update.gapBeforeSignature = null;
+      update.gapUntilSignature = null;
+    } else if (gap.signatures.length > 0) {
+      update.gapBeforeSignature = gap.signatures[gap.signatures.length - 1].signature;
+    }
+  }
+
+  if (result.signatures.length === 0) {
+    // An address with no history at all has nothing left to backfill
+    update.backfillComplete = current.backfillComplete || (!current.lastSignature && result.reachedCursor);
+    return update;
+  }
+
+  const newest = result.signatures[0];
+  const oldest = result.signatures[result.signatures.length - 1];
+  update.lastSignature = newest.signature;
+  update.lastSlot = BigInt(newest.slot);
+
+  if (!current.lastSignature) {
+    // First sync: the backfill resumes below the oldest page we read
+    update.backfillSignature = oldest.signature;
+    update.backfillSlot = BigInt(oldest.slot);
+    update.backfillComplete = result.reachedCursor;
+  } else if (!result.reachedCursor) {
+    // An unfilled gap further down is merged into this one
+    update.gapBeforeSignature = oldest.signature;
+    update.gapUntilSignature = current.gapUntilSignature ?? current.lastSignature;
+  }
+
+  return update;
+}
+
+export interface BackfillProgress {
+  backfillSignature: string | null;
+  backfillSlot: bigint | null;
+  backfillComplete: boolean;
+  backfillScanned: number;
+  backfillEvents: number;
+  backfillOldestTime: Date | null;
+}
+
+/**
+ * Fold one `before=` page (newest first) into the backfill checkpoint
+ * A short page means the address has been walked back to genesis
+ */
+export function advanceBackfill(
+  progress: BackfillProgress,
+  page: SignatureInfo[],
+  eventsFound: number,
+  pageSize: number
+): BackfillProgress {
+  const next: BackfillProgress = {
+    ...progress,
+    backfillScanned: progress.backfillScanned + page.length,
+    backfillEvents: progress.backfillEvents + eventsFound,
+    backfillComplete: page.length < pageSize,
+  };
+
+  if (page.length > 0) {
+    const oldest = page[page.length - 1];
+    next.backfillSignature = oldest.signature;
+    next.backfillSlot = BigInt(oldest.slot);
+  }
+
+  for (const sig of page) {
+    if (sig.blockTime === null) continue;
+    const time = new Date(sig.blockTime * 1000);
+    if (!next.backfillOldestTime || time < next.backfillOldestTime) {
+      next.backfillOldestTime = time;
+    }
+  }
+
+  return next;
+}
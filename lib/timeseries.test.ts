@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { bucketRollups, getBucketStart } from "./timeseries";
+
+describe("getBucketStart", () => {
+  const date = new Date("2025-12-24T15:42:10Z"); // Wednesday
+
+  it("truncates to the hour", () => {
+    expect(getBucketStart(date, "hour").toISOString()).toBe("2025-12-24T15:00:00.000Z");
+  });
+
+  it("truncates to the day", () => {
+    expect(getBucketStart(date, "day").toISOString()).toBe("2025-12-24T00:00:00.000Z");
+  });
+
+  it("truncates to the Monday of the week", () => {
+    expect(getBucketStart(date, "week").toISOString()).toBe("2025-12-22T00:00:00.000Z");
+    expect(getBucketStart(new Date("2025-12-28T23:00:00Z"), "week").toISOString()).toBe(
+      "2025-12-22T00:00:00.000Z"
+    );
+  });
+});
+
+describe("bucketRollups", () => {
+  const rollup = (bucket: string, collected: number, burned: number, eventCount = 1) => ({
+    bucket: new Date(bucket),
+    collectedLamports: BigInt(collected),
+    burnedLamports: BigInt(burned),
+    withdrawnLamports: BigInt(0),
+    eventCount,
+  });
+
+  it("merges daily rollups into weeks", () => {
+    const buckets = bucketRollups(
+      [
+        rollup("2025-12-22T00:00:00Z", 1000, 0), // Monday
+        rollup("2025-12-28T00:00:00Z", 0, 500), // Sunday, same week
+        rollup("2025-12-29T00:00:00Z", 1000, 0, 2), // Next Monday
+      ],
+      "week"
+    );
+
+    expect(buckets).toHaveLength(2);
+    expect(buckets[0].burned).toBe(BigInt(500));
+    expect(buckets[0].eventCount).toBe(2);
+    expect(buckets[1].cumulativeBurnPercentage).toBe(25);
+  });
+
+  it("skips rollups emptied by removed events", () => {
+    expect(bucketRollups([rollup("2025-12-22T00:00:00Z", 0, 0, 0)], "day")).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Fee Time-Series
+ * Buckets rollup rows by hour, day or week for charting
+ */
+
+import { calculateBurnPercentage } from "./badges";
+
+export type TimeseriesInterval = "hour" | "day" | "week";
+
+export interface TimeseriesRollup {
+  bucket: Date; // Start of an hourly or daily rollup bucket
+  collectedLamports: bigint;
+  burnedLamports: bigint;
+  withdrawnLamports: bigint;
+  eventCount: number;
+}
+
+export interface TimeseriesBucket {
+  bucketStart: Date;
+  collected: bigint;
+  burned: bigint;
+  withdrawn: bigint;
+  eventCount: number;
+  cumulativeCollected: bigint;
+  cumulativeBurned: bigint;
+  cumulativeBurnPercentage: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Truncate a date to the start of its bucket (UTC)
+ * Weeks start on Monday
+ */
+export function getBucketStart(date: Date, interval: TimeseriesInterval): Date {
+  const time = date.getTime();
+
+  switch (interval) {
+    case "hour":
+      return new Date(Math.floor(time / HOUR_MS) * HOUR_MS);
+    case "day":
+      return new Date(Math.floor(time / DAY_MS) * DAY_MS);
+    case "week": {
+      const dayStart = Math.floor(time / DAY_MS) * DAY_MS;
+      const daysSinceMonday = (new Date(dayStart).getUTCDay() + 6) % 7;
+      return new Date(dayStart - daysSinceMonday * DAY_MS);
+    }
+  }
+}
+
+function emptyBucket(bucketStart: Date): TimeseriesBucket {
+  return {
+    bucketStart,
+    collected: BigInt(0),
+    burned: BigInt(0),
+    withdrawn: BigInt(0),
+    eventCount: 0,
+    cumulativeCollected: BigInt(0),
+    cumulativeBurned: BigInt(0),
+    cumulativeBurnPercentage: 0,
+  };
+}
+
+/**
+ * Sort buckets oldest first and fill in the running totals
+ */
+function withCumulativeTotals(buckets: Map<number, TimeseriesBucket>): TimeseriesBucket[] {
+  const sorted = Array.from(buckets.values()).sort(
+    (a, b) => a.bucketStart.getTime() - b.bucketStart.getTime()
+  );
+
+  let cumulativeCollected = BigInt(0);
+  let cumulativeBurned = BigInt(0);
+
+  for (const bucket of sorted) {
+    cumulativeCollected += bucket.collected;
+    cumulativeBurned += bucket.burned;
+    bucket.cumulativeCollected = cumulativeCollected;
+    bucket.cumulativeBurned = cumulativeBurned;
+    bucket.cumulativeBurnPercentage = calculateBurnPercentage(
+      cumulativeCollected,
+      cumulativeBurned
+    );
+  }
+
+  return sorted;
+}
+
+/**
+ * Merge hourly or daily rollup rows into chart buckets, oldest first
+ * Rows must be at least as fine as the interval (hourly for "hour", daily or hourly otherwise)
+ */
+export function bucketRollups(
+  rows: TimeseriesRollup[],
+  interval: TimeseriesInterval
+): TimeseriesBucket[] {
+  const buckets = new Map<number, TimeseriesBucket>();
+
+  for (const row of rows) {
+    if (row.eventCount === 0) continue;
+
+    const start = getBucketStart(row.bucket, interval);
+    const key = start.getTime();
+
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = emptyBucket(start);
+      buckets.set(key, bucket);
+    }
+
+    bucket.collected += row.collectedLamports;
+    bucket.burned += row.burnedLamports;
+    bucket.withdrawn += row.withdrawnLamports;
+    bucket.eventCount += row.eventCount;
+  }
+
+  return withCumulativeTotals(buckets);
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import {
+  toCsv,
   lamportsToSol,
   solToLamports,
   formatSol,
@@ -118,3 +119,11 @@ describe("chunk", () => {
     expect(chunk([1, 2], 5)).toEqual([[1, 2]]);
   });
 });
+
+describe("toCsv", () => {
+  it("quotes fields with separators and escapes quotes", () => {
+    expect(toCsv(["a", "b"], [["plain", 'say "hi", then go'], [1, null]])).toBe(
+      'a,b\r\nplain,"say ""hi"", then go"\r\n1,\r\n'
+    );
+  });
+});
@@ -187,3 +187,18 @@ export function getTimeframeDate(timeframe: "24h" | "7d" | "30d" | "all"): Date
 export function cn(...classes: (string | undefined | null | false)[]): string {
   return classes.filter(Boolean).join(" ");
 }
+
+/**
+ * Render rows as RFC 4180 CSV; fields containing commas, quotes or newlines are quoted
+ */
+export function toCsv(
+  columns: string[],
+  rows: (string | number | boolean | null | undefined)[][]
+): string {
+  const escape = (value: string | number | boolean | null | undefined) => {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [columns, ...rows].map((row) => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
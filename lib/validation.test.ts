@@ -6,6 +6,10 @@ import {
   TimeframeSchema,
   validateSolanaAddress,
   safeParseBigInt,
+  EventOverrideSchema,
+  BurnEngineQuerySchema,
+  ApiKeyCreateSchema,
+  ExportQuerySchema,
 } from "./validation";
 
 describe("SolanaAddressSchema", () => {
@@ -62,6 +66,7 @@ describe("TokenListQuerySchema", () => {
   it("validates sort options", () => {
     expect(TokenListQuerySchema.safeParse({ sort: "burnPercentage" }).success).toBe(true);
     expect(TokenListQuerySchema.safeParse({ sort: "totalFeesBurned" }).success).toBe(true);
+    expect(TokenListQuerySchema.safeParse({ sort: "supplyBurnedPercentage" }).success).toBe(true);
     expect(TokenListQuerySchema.safeParse({ sort: "invalidSort" }).success).toBe(false);
   });
 
@@ -70,6 +75,12 @@ describe("TokenListQuerySchema", () => {
     expect(TokenListQuerySchema.safeParse({ filter: "extractors" }).success).toBe(true);
     expect(TokenListQuerySchema.safeParse({ filter: "invalid" }).success).toBe(false);
   });
+
+  it("defaults timeframe to all and validates options", () => {
+    expect(TokenListQuerySchema.parse({}).timeframe).toBe("all");
+    expect(TokenListQuerySchema.parse({ timeframe: "7d" }).timeframe).toBe("7d");
+    expect(TokenListQuerySchema.safeParse({ timeframe: "1y" }).success).toBe(false);
+  });
 });
 
 describe("TimeframeSchema", () => {
@@ -87,6 +98,17 @@ describe("TimeframeSchema", () => {
   });
 });
 
+describe("BurnEngineQuerySchema", () => {
+  it("defaults the feed limit", () => {
+    expect(BurnEngineQuerySchema.parse({})).toEqual({ limit: 20 });
+  });
+
+  it("rejects oversized limits and invalid mints", () => {
+    expect(BurnEngineQuerySchema.safeParse({ limit: "500" }).success).toBe(false);
+    expect(BurnEngineQuerySchema.safeParse({ mint: "not-a-mint" }).success).toBe(false);
+  });
+});
+
 describe("validateSolanaAddress", () => {
   it("returns address for valid input", () => {
     const addr = "61V8vBaqAGMpgDQi4JcAwo1dmBGHsyhzodcPqnEVpump";
@@ -121,3 +143,43 @@ describe("safeParseBigInt", () => {
     expect(safeParseBigInt(undefined)).toBeNull();
   });
 });
+
+describe("EventOverrideSchema", () => {
+  it("accepts a known event type with a reason", () => {
+    const result = EventOverrideSchema.safeParse({
+      eventType: "withdraw",
+      reason: "  Transfer to creator's exchange deposit  ",
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.reason).toBe("Transfer to creator's exchange deposit");
+    }
+  });
+
+  it("rejects unknown event types and missing or short reasons", () => {
+    expect(EventOverrideSchema.safeParse({ eventType: "swap", reason: "A valid long reason" }).success).toBe(false);
+    expect(EventOverrideSchema.safeParse({ eventType: "burn" }).success).toBe(false);
+    expect(EventOverrideSchema.safeParse({ eventType: "burn", reason: "   short   " }).success).toBe(false);
+  });
+});
+
+describe("ApiKeyCreateSchema", () => {
+  it("accepts a named key on a known tier", () => {
+    expect(ApiKeyCreateSchema.parse({ name: "  Partner dashboard ", tier: "partner" })).toEqual({
+      name: "Partner dashboard",
+      tier: "partner",
+    });
+  });
+
+  it("rejects unknown tiers and short names", () => {
+    expect(ApiKeyCreateSchema.safeParse({ name: "Bot", tier: "unlimited" }).success).toBe(false);
+    expect(ApiKeyCreateSchema.safeParse({ name: " x ", tier: "developer" }).success).toBe(false);
+  });
+});
+
+describe("ExportQuerySchema", () => {
+  it("defaults to JSON and rejects unknown formats", () => {
+    expect(ExportQuerySchema.parse({})).toEqual({ format: "json" });
+    expect(ExportQuerySchema.safeParse({ format: "xml" }).success).toBe(false);
+  });
+});
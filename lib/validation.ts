@@ -25,6 +25,11 @@ export const PaginationSchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(20),
 });
 
+/**
+ * Timeframe enum for stats
+ */
+export const TimeframeSchema = z.enum(["24h", "7d", "30d", "all"]).default("all");
+
 /**
  * Token list query parameters
  */
@@ -35,16 +40,26 @@ export const TokenListQuerySchema = z.object({
       "totalFeesCollected",
       "totalFeesBurned",
       "totalFeesWithdrawn",
+      "supplyBurnedPercentage",
       "updatedAt",
     ])
     .default("burnPercentage"),
   order: z.enum(["asc", "desc"]).default("desc"),
   filter: z.enum(["burners", "extractors"]).optional(),
   search: z.string().max(100).optional(),
+  timeframe: TimeframeSchema,
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(20),
 });
 
+/**
+ * Windowed top burners / extractors query parameters
+ */
+export const TopTokensQuerySchema = z.object({
+  timeframe: z.enum(["24h", "7d", "30d", "all"]).default("24h"),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
 /**
  * Token detail query parameters
  */
@@ -53,6 +68,29 @@ export const TokenDetailQuerySchema = z.object({
   eventsOffset: z.coerce.number().int().min(0).default(0),
 });
 
+/**
+ * Token fee time-series query parameters
+ */
+export const TimeseriesQuerySchema = z.object({
+  interval: z.enum(["hour", "day", "week"]).default("day"),
+  timeframe: TimeframeSchema,
+});
+
+/**
+ * Burn engine feed query parameters
+ */
+export const BurnEngineQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  mint: SolanaAddressSchema.optional(),
+});
+
+/**
+ * Fee history export query parameters
+ */
+export const ExportQuerySchema = z.object({
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
 /**
  * Sync endpoint parameters
  */
@@ -70,33 +108,89 @@ export const SyncQuerySchema = z.object({
     ),
 });
 
-/**
- * Timeframe enum for stats
- */
-export const TimeframeSchema = z.enum(["24h", "7d", "30d", "all"]).default("all");
-
 /**
  * PoH Record schema for POST verification
  */
 export const PoHRecordSchema = z.object({
+  version: z.union([z.literal(1), z.literal(2)]).optional(),
   sequence: z.number().int().min(0),
   hash: z.string().min(1).max(128),
   prevHash: z.string().min(1).max(128),
   timestamp: z.string().datetime({ message: "Invalid ISO 8601 timestamp" }),
   slot: z.number().int().min(0).optional(),
-  eventType: z.enum(["collect", "burn", "withdraw"]),
-  vault: z.enum(["BC", "AMM", "UNKNOWN"]),
+  eventType: z.enum(["collect", "burn", "withdraw", "revert"]),
+  vault: z.enum(["BC", "AMM", "WALLET", "UNKNOWN"]),
   tokenMint: SolanaAddressSchema,
   tokenSymbol: z.string().max(20).optional(),
   amountLamports: z.string().regex(/^\d+$/, "Must be a numeric string"),
   signature: z.string().min(32).max(128),
 });
 
+/**
+ * Signed PoH head schema for POST verification
+ */
+export const PoHSignedHeadSchema = z.object({
+  tokenMint: SolanaAddressSchema,
+  sequence: z.number().int().min(1),
+  hash: z.string().regex(/^[0-9a-f]{64}$/, "Must be a SHA-256 hex digest"),
+  signedAt: z.string().datetime({ message: "Invalid ISO 8601 timestamp" }),
+  keyId: z.string().regex(/^[0-9a-f]{16}$/, "Invalid key id"),
+  signature: z.string().min(1).max(128),
+});
+
 /**
  * PoH verification request body schema
+ * Without signedHeads, the records are checked against our stored signed heads
  */
 export const PoHVerifyRequestSchema = z.object({
   records: z.array(PoHRecordSchema).min(1).max(1000, "Maximum 1000 records allowed"),
+  signedHeads: z.array(PoHSignedHeadSchema).max(1000).optional(),
+});
+
+/**
+ * Transaction signature validation schema (Base58, 64-byte signature)
+ */
+export const TransactionSignatureSchema = z
+  .string()
+  .min(64, "Signature too short")
+  .max(88, "Signature too long")
+  .regex(/^[1-9A-HJ-NP-Za-km-z]+$/, "Invalid signature format");
+
+/**
+ * PoH inclusion proof query params schema
+ */
+export const PoHProofQuerySchema = z.object({
+  signature: TransactionSignatureSchema,
+});
+
+/**
+ * Admin PoH audit request body schema
+ */
+export const PoHAuditRequestSchema = z.object({
+  repair: z.boolean().default(false),
+});
+
+/**
+ * Admin event classification override request body schema
+ */
+export const EventOverrideSchema = z.object({
+  eventType: z.enum(["collect", "burn", "withdraw", "protocol_fee"]),
+  reason: z.string().trim().min(10, "Reason must be at least 10 characters").max(500),
+});
+
+/**
+ * Admin API key creation request body schema
+ */
+export const ApiKeyCreateSchema = z.object({
+  name: z.string().trim().min(3, "Name must be at least 3 characters").max(100),
+  tier: z.enum(["developer", "partner"]),
+});
+
+/**
+ * Admin API key revocation request body schema
+ */
+export const ApiKeyRevokeSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
 });
 
 /**
@@ -12,6 +12,11 @@
 import { Connection, PublicKey, AccountChangeCallback } from "@solana/web3.js";
 import { getHeliusRpcUrl, NETWORK_INFO, getTransactionHistory } from "./helius";
 import { PoHChainManager, type PoHRecord } from "./proof-of-history";
+import {
+  attributeBalanceChange,
+  getAccountLamportDelta,
+  type AddressTransaction,
+} from "./balance-attribution";
 import {
   type FeeModel,
   type FeeSourceType,
@@ -43,12 +48,14 @@ export interface FeeDetectedEvent {
   tokenSymbol?: string;
   eventType: "collect" | "burn" | "withdraw";
   vault: VaultType;
+  address?: string; // Tracked account whose balance changed
   amountLamports: bigint;
   signature?: string;
   slot: number;
-  timestamp: Date;
+  timestamp: Date; // Block time when the transaction is known, otherwise detection time
   pohRecord?: PoHRecord;
   recoveredFromGap?: boolean; // True if this event was recovered after reconnection
+  reconciliation?: boolean; // True if no transaction accounts for this balance change
   sourceType?: FeeSourceType; // "vault" or "wallet" for dual-track
   feeModel?: FeeModel; // Detected fee model
 }
@@ -121,6 +128,11 @@ export interface TrackerStats {
 // DEFAULT CONFIGURATION
 // =============================================================================
 
+// Signature attribution limits
+const MAX_ATTRIBUTION_SIGNATURES = 100;
+const ATTRIBUTION_RETRY_DELAY_MS = 1000;
+const RECENT_SIGNATURES_LIMIT = 1000;
+
 const DEFAULT_RECONNECT_CONFIG: ReconnectConfig = {
   maxRetries: 10,
   baseDelayMs: 1000,
@@ -165,7 +177,10 @@ export class WebSocketTracker {
   // Dual-track state
   private detectedFeeModel: FeeModel = "unknown";
   private sourcesTracked: VaultType[] = [];
-  private recentSignatures: Set<string> = new Set(); // Deduplication
+  private recentSignatures: Set<string> = new Set(); // Cross-source deduplication
+
+  // Balance changes are attributed one at a time so each transaction is claimed once
+  private attributionQueue: Promise<void> = Promise.resolve();
 
   // Connection state
   private connectionState: ConnectionState = "disconnected";
@@ -770,12 +785,12 @@ export class WebSocketTracker {
   /**
    * Handle account balance change for any source type
    */
-  private async handleAccountChange(
+  private handleAccountChange(
     vault: VaultType,
     vaultAddress: string,
     newLamports: number,
     slot: number
-  ): Promise<void> {
+  ): void {
     // Update tracking state
     this.lastSlotSeen = Math.max(this.lastSlotSeen, slot);
     this.lastEventTime = new Date();
@@ -823,28 +838,128 @@ export class WebSocketTracker {
     // Notify balance change
     this.config.onBalanceChange?.(balanceChange);
 
-    // Classify the event based on source type
-    const eventType = this.classifyBalanceChange(change, vault);
+    this.attributionQueue = this.attributionQueue
+      .then(() => this.attributeBalanceChange(balanceChange))
+      .catch((error) => {
+        console.error("[WebSocket] Error attributing balance change:", error);
+        this.config.onError?.(error as Error);
+      });
+  }
+
+  /**
+   * Match a balance change to the transactions that produced it and emit one event each
+   * Whatever no transaction accounts for is emitted as a reconciliation event
+   */
+  private async attributeBalanceChange(balanceChange: BalanceChange): Promise<void> {
+    const { vaultAddress, change, slot } = balanceChange;
+
+    let candidates = await this.fetchCandidateTransactions(vaultAddress, slot);
+    if (candidates.length === 0) {
+      // The signature index can lag the account notification slightly
+      await new Promise((resolve) => setTimeout(resolve, ATTRIBUTION_RETRY_DELAY_MS));
+      candidates = await this.fetchCandidateTransactions(vaultAddress, slot);
+    }
+
+    const attribution = attributeBalanceChange(change, candidates);
 
-    // Fetch transaction signature (async, best effort)
-    const signature = await this.fetchRecentSignature(vaultAddress);
+    // Advance the watermark past every transaction this change consumed
+    const consumed = new Set(
+      (attribution.unmatchedDelta === BigInt(0) ? attribution.matched : candidates).map(
+        (c) => c.signature
+      )
+    );
+    const newestConsumed = candidates.find((c) => consumed.has(c.signature));
+    if (newestConsumed) {
+      this.lastSignatureSeen.set(vaultAddress, newestConsumed.signature);
+    }
+
+    for (const tx of attribution.matched) {
+      await this.emitFeeEvent(balanceChange, tx.delta, tx.slot, tx.signature, tx.blockTime);
+    }
+
+    if (attribution.unmatchedDelta !== BigInt(0)) {
+      console.warn(
+        `[WebSocket] [${balanceChange.vault}] ${attribution.unmatchedDelta} lamports at slot ${slot} ` +
+          `matched no transaction (${candidates.length} candidates), emitting reconciliation event`
+      );
+      await this.emitFeeEvent(balanceChange, attribution.unmatchedDelta, slot);
+    }
+  }
 
-    // Deduplication for dual-track
+  /**
+   * Fetch unattributed transactions for an address up to a slot, with their lamport deltas
+   * Newest first, bounded below by the last attributed signature
+   */
+  private async fetchCandidateTransactions(
+    address: string,
+    slot: number
+  ): Promise<AddressTransaction[]> {
+    const signatures = (
+      await this.connection.getSignaturesForAddress(new PublicKey(address), {
+        until: this.lastSignatureSeen.get(address),
+        limit: MAX_ATTRIBUTION_SIGNATURES,
+      })
+    ).filter((s) => s.slot <= slot);
+
+    if (signatures.length === 0) return [];
+
+    const transactions = await this.connection.getParsedTransactions(
+      signatures.map((s) => s.signature),
+      { maxSupportedTransactionVersion: 0, commitment: "confirmed" }
+    );
+
+    const candidates: AddressTransaction[] = [];
+    transactions.forEach((tx, i) => {
+      if (!tx?.meta) return;
+
+      const delta = getAccountLamportDelta(
+        {
+          accountKeys: tx.transaction.message.accountKeys.map((k) => k.pubkey.toBase58()),
+          preBalances: tx.meta.preBalances,
+          postBalances: tx.meta.postBalances,
+        },
+        address
+      );
+      if (delta === null) return;
+
+      candidates.push({
+      signature: signatures[i].signature,
+      slot: signatures[i].slot,
+      blockTime: tx.blockTime,
+      delta,
+    });
+    });
+
+    return candidates;
+  }
+
+  /**
+   * Emit a fee event for one attributed (or unattributed) lamport delta
+   */
+  private async emitFeeEvent(
+    balanceChange: BalanceChange,
+    delta: bigint,
+    slot: number,
+    signature?: string,
+    blockTime?: number | null
+  ): Promise<void> {
+    const { vault, vaultAddress, sourceType } = balanceChange;
+    const eventType = this.classifyBalanceChange(delta, vault);
+
+    // Deduplication for dual-track (the same transaction can move both vault and wallet)
     if (signature && this.recentSignatures.has(signature)) {
-      console.log(`[WebSocket] Skipping duplicate event: ${signature.slice(0, 8)}...`);
+      console.log(`[WebSocket] Skipping event already emitted by another source: ${signature.slice(0, 8)}...`);
       return;
     }
 
-    // Add to deduplication set (keep last 100)
     if (signature) {
       this.recentSignatures.add(signature);
-      if (this.recentSignatures.size > 100) {
+      if (this.recentSignatures.size > RECENT_SIGNATURES_LIMIT) {
         const oldest = this.recentSignatures.values().next().value as string;
         if (oldest) {
           this.recentSignatures.delete(oldest);
         }
       }
-      this.lastSignatureSeen.set(vaultAddress, signature);
     }
 
     // Create fee detected event
@@ -853,27 +968,27 @@ export class WebSocketTracker {
       tokenSymbol: this.config.tokenSymbol,
       eventType,
       vault,
-      amountLamports: change > 0 ? change : -change,
-      signature: signature || undefined,
+      address: vaultAddress,
+      amountLamports: delta > 0 ? delta : -delta,
+      signature,
       slot,
       sourceType,
       feeModel: this.detectedFeeModel,
-      timestamp: new Date(),
+      timestamp: blockTime ? new Date(blockTime * 1000) : new Date(),
+      reconciliation: signature ? undefined : true,
     };
 
     // Add to PoH chain if enabled
     if (this.pohManager && signature) {
       try {
-        // Map WALLET to UNKNOWN for PoH compatibility
-        const pohVault: "BC" | "AMM" | "UNKNOWN" = vault === "WALLET" ? "UNKNOWN" : vault;
-
         const pohRecord = await this.pohManager.addEvent({
           eventType,
-          vault: pohVault,
+          vault,
           amountLamports: feeEvent.amountLamports,
           signature,
-          tokenSymbol: this.config.tokenSymbol,
+          blockTime: feeEvent.timestamp,
           slot,
+          tokenSymbol: this.config.tokenSymbol,
         });
         feeEvent.pohRecord = pohRecord;
       } catch (error) {
@@ -885,7 +1000,8 @@ export class WebSocketTracker {
     this.config.onFeeDetected?.(feeEvent);
 
     console.log(
-      `[WebSocket] [${vault}] ${eventType.toUpperCase()}: ${feeEvent.amountLamports} lamports (slot ${slot})`
+      `[WebSocket] [${vault}] ${eventType.toUpperCase()}: ${feeEvent.amountLamports} lamports (slot ${slot})` +
+        (signature ? "" : " [reconciliation]")
     );
   }
 
@@ -906,21 +1022,6 @@ export class WebSocketTracker {
     return "withdraw";
   }
 
-  /**
-   * Fetch the most recent transaction signature for the vault
-   */
-  private async fetchRecentSignature(vaultAddress: string): Promise<string | null> {
-    try {
-      const signatures = await this.connection.getSignaturesForAddress(
-        new PublicKey(vaultAddress),
-        { limit: 1 }
-      );
-      return signatures[0]?.signature || null;
-    } catch {
-      return null;
-    }
-  }
-
   /**
    * Get comprehensive tracker statistics
    */
@@ -1,98 +1,102 @@
 /**
  * Next.js Middleware
- * Handles rate limiting and security checks
+ * Handles API key verification, rate limiting and security checks
  */
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { checkRateLimit, getRateLimitHeaders } from "@/lib/rate-limit";
+import {
+  API_KEY_HEADER,
+  API_KEY_ID_HEADER,
+  API_KEY_TIER_HEADER,
+  getApiKeyResolver,
+  hashApiKey,
+  isWellFormedApiKey,
+  type ApiKeyResolver,
+  type ResolvedApiKey,
+} from "@/lib/api-keys";
+
+// Resolved on the first request and reused; undefined until then
+let apiKeyResolver: ApiKeyResolver | null | undefined;
 
-// Simple in-memory rate limit for Edge Runtime
-// Note: This resets on each deployment/cold start
-// For production, use Redis/Upstash
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = {
-  "/api/sync": 5,
-  "/api/tokens": 100,
-  "/api/stats": 100,
-  default: 60,
-};
-
-function getRateLimit(pathname: string): number {
-  if (pathname.startsWith("/api/sync")) return RATE_LIMIT_MAX_REQUESTS["/api/sync"];
-  if (pathname.startsWith("/api/tokens")) return RATE_LIMIT_MAX_REQUESTS["/api/tokens"];
-  if (pathname.startsWith("/api/stats")) return RATE_LIMIT_MAX_REQUESTS["/api/stats"];
-  return RATE_LIMIT_MAX_REQUESTS.default;
-}
-
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get("x-forwarded-for");
-  if (forwarded) {
-    return forwarded.split(",")[0].trim();
+/**
+ * Resolve a presented API key; "rejected" for unknown, revoked or malformed keys
+ * A lookup outage serves the request anonymously rather than failing it
+ */
+async function verifyApiKey(
+  rawKey: string,
+  resolver: ApiKeyResolver
+): Promise<ResolvedApiKey | "rejected" | null> {
+  if (!isWellFormedApiKey(rawKey)) return "rejected";
+
+  try {
+    return (await resolver(await hashApiKey(rawKey))) ?? "rejected";
+  } catch (error) {
+    console.error("API key lookup failed, treating request as anonymous:", error);
+    return null;
   }
-  const realIp = request.headers.get("x-real-ip");
-  if (realIp) return realIp;
-  return "unknown";
 }
 
-export function middleware(request: NextRequest) {
-  const pathname = request.nextUrl.pathname;
+export async function middleware(request: NextRequest) {
+  // Only the middleware may set the verified-key headers routes read
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(API_KEY_ID_HEADER);
+  requestHeaders.delete(API_KEY_TIER_HEADER);
+
+  let apiKey: ResolvedApiKey | null = null;
+  const rawKey = request.headers.get(API_KEY_HEADER)?.trim();
 
-  // Only rate limit API routes
-  if (!pathname.startsWith("/api")) {
-    return NextResponse.next();
+  if (apiKeyResolver === undefined) {
+    apiKeyResolver = getApiKeyResolver();
+  }
+
+  // Without a resolver (keys off or no Supabase config), routes that need a key verify it themselves
+  if (rawKey && apiKeyResolver) {
+    const verified = await verifyApiKey(rawKey, apiKeyResolver);
+    if (verified === "rejected") {
+      return NextResponse.json(
+        { success: false, error: "Invalid or revoked API key" },
+        { status: 401 }
+      );
+    }
+
+    apiKey = verified;
+    if (apiKey) {
+      requestHeaders.set(API_KEY_ID_HEADER, String(apiKey.id));
+      requestHeaders.set(API_KEY_TIER_HEADER, apiKey.tier);
+    }
   }
 
   // Skip rate limiting in development
   if (process.env.NODE_ENV === "development") {
-    return NextResponse.next();
+    return NextResponse.next({ request: { headers: requestHeaders } });
   }
 
-  const clientIP = getClientIP(request);
-  const key = `${clientIP}:${pathname.split("/").slice(0, 3).join("/")}`;
-  const now = Date.now();
-  const maxRequests = getRateLimit(pathname);
-
-  const entry = rateLimitMap.get(key);
-
-  // Clean up old entry
-  if (entry && entry.resetTime < now) {
-    rateLimitMap.delete(key);
+  const check = await checkRateLimit(request, { apiKey });
+  if (!check) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
   }
 
-  const currentEntry = rateLimitMap.get(key);
+  const { config, result } = check;
+  const headers = getRateLimitHeaders(result, config);
 
-  if (!currentEntry) {
-    rateLimitMap.set(key, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-  } else if (currentEntry.count >= maxRequests) {
-    const retryAfter = Math.ceil((currentEntry.resetTime - now) / 1000);
-    return new NextResponse(
-      JSON.stringify({
+  if (!result.success) {
+    return NextResponse.json(
+      {
         success: false,
         error: "Too many requests",
-        retryAfter,
-      }),
-      {
-        status: 429,
-        headers: {
-          "Content-Type": "application/json",
-          "Retry-After": String(retryAfter),
-          "X-RateLimit-Limit": String(maxRequests),
-          "X-RateLimit-Remaining": "0",
-          "X-RateLimit-Reset": String(currentEntry.resetTime),
-        },
-      }
+        retryAfter: result.retryAfter,
+      },
+      { status: 429, headers }
     );
-  } else {
-    currentEntry.count++;
   }
 
   // Add rate limit headers to successful responses
-  const response = NextResponse.next();
-  const remaining = maxRequests - (rateLimitMap.get(key)?.count || 1);
-  response.headers.set("X-RateLimit-Limit", String(maxRequests));
-  response.headers.set("X-RateLimit-Remaining", String(Math.max(0, remaining)));
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
 
   return response;
 }
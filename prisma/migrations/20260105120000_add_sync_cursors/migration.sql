@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "sync_cursors" (
+    "id" SERIAL NOT NULL,
+    "token_id" INTEGER NOT NULL,
+    "address" VARCHAR(44) NOT NULL,
+    "address_type" VARCHAR(20) NOT NULL,
+    "last_signature" VARCHAR(88),
+    "last_slot" BIGINT,
+    "backfill_signature" VARCHAR(88),
+    "backfill_slot" BIGINT,
+    "backfill_complete" BOOLEAN NOT NULL DEFAULT false,
+    "last_synced_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_cursors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_cursors_address_idx" ON "sync_cursors"("address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_cursors_token_id_address_key" ON "sync_cursors"("token_id", "address");
+
+-- AddForeignKey
+ALTER TABLE "sync_cursors" ADD CONSTRAINT "sync_cursors_token_id_fkey" FOREIGN KEY ("token_id") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "sync_cursors" ADD COLUMN     "backfill_events" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "backfill_oldest_time" TIMESTAMP(3),
+ADD COLUMN     "backfill_scanned" INTEGER NOT NULL DEFAULT 0;
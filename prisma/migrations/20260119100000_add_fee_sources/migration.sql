@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "fee_events" ADD COLUMN     "source" VARCHAR(10);
+
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "fee_model" VARCHAR(20);
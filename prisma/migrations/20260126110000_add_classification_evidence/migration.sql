@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "fee_events" ADD COLUMN     "confidence" VARCHAR(10),
+ADD COLUMN     "reasons" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "fee_events" ADD COLUMN     "classified_type" VARCHAR(20),
+ADD COLUMN     "overridden" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "event_overrides" (
+    "id" SERIAL NOT NULL,
+    "signature" VARCHAR(88) NOT NULL,
+    "event_type" VARCHAR(20) NOT NULL,
+    "reason" VARCHAR(500) NOT NULL,
+    "actor" VARCHAR(64) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_override_audits" (
+    "id" SERIAL NOT NULL,
+    "signature" VARCHAR(88) NOT NULL,
+    "token_mint" VARCHAR(44) NOT NULL,
+    "old_event_type" VARCHAR(20) NOT NULL,
+    "new_event_type" VARCHAR(20) NOT NULL,
+    "reason" VARCHAR(500) NOT NULL,
+    "actor" VARCHAR(64) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_override_audits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_overrides_signature_key" ON "event_overrides"("signature");
+
+-- CreateIndex
+CREATE INDEX "event_override_audits_signature_idx" ON "event_override_audits"("signature");
+
+-- CreateIndex
+CREATE INDEX "event_override_audits_token_mint_created_at_idx" ON "event_override_audits"("token_mint", "created_at" DESC);
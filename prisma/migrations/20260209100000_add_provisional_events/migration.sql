@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "fee_events" ADD COLUMN     "provisional" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "fee_events_token_id_provisional_idx" ON "fee_events"("token_id", "provisional");
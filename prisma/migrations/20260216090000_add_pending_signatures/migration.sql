@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "fee_events" ADD COLUMN     "unresolved" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "pending_signatures" (
+    "id" SERIAL NOT NULL,
+    "fee_event_id" INTEGER NOT NULL,
+    "address" VARCHAR(44) NOT NULL,
+    "delta_lamports" BIGINT NOT NULL,
+    "slot" BIGINT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_attempt_at" TIMESTAMP(3),
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "expired" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pending_signatures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pending_signatures_fee_event_id_key" ON "pending_signatures"("fee_event_id");
+
+-- CreateIndex
+CREATE INDEX "pending_signatures_expired_deadline_idx" ON "pending_signatures"("expired", "deadline");
+
+-- AddForeignKey
+ALTER TABLE "pending_signatures" ADD CONSTRAINT "pending_signatures_fee_event_id_fkey" FOREIGN KEY ("fee_event_id") REFERENCES "fee_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
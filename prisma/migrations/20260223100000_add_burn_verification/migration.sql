@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "fee_events" ADD COLUMN     "burn_type" VARCHAR(10),
+ADD COLUMN     "burn_verified" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "fee_events_event_type_burn_type_idx" ON "fee_events"("event_type", "burn_type");
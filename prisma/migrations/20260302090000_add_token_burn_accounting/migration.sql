@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "supply_burned_percentage" DECIMAL(7,4) NOT NULL DEFAULT 0,
+ADD COLUMN     "token_burn_spent_lamports" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN     "token_decimals" INTEGER,
+ADD COLUMN     "token_supply" BIGINT,
+ADD COLUMN     "total_tokens_burned" BIGINT NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "tokens_supply_burned_percentage_idx" ON "tokens"("supply_burned_percentage" DESC);
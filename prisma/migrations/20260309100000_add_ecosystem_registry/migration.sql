@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "ecosystem_tokens" (
+    "id" SERIAL NOT NULL,
+    "mint" VARCHAR(44) NOT NULL,
+    "token_type" VARCHAR(10) NOT NULL,
+    "discovered_via" VARCHAR(10) NOT NULL,
+    "engine_tx_count" INTEGER NOT NULL DEFAULT 0,
+    "root_lamports" BIGINT NOT NULL DEFAULT 0,
+    "secondary_lamports" BIGINT NOT NULL DEFAULT 0,
+    "root_tokens_burned" BIGINT NOT NULL DEFAULT 0,
+    "secondary_tokens_burned" BIGINT NOT NULL DEFAULT 0,
+    "root_contribution" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "first_seen_at" TIMESTAMP(3) NOT NULL,
+    "last_seen_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ecosystem_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ecosystem_contributions" (
+    "id" SERIAL NOT NULL,
+    "signature" VARCHAR(88) NOT NULL,
+    "token_mint" VARCHAR(44) NOT NULL,
+    "slot" BIGINT NOT NULL,
+    "block_time" TIMESTAMP(3) NOT NULL,
+    "root_lamports" BIGINT NOT NULL,
+    "secondary_lamports" BIGINT NOT NULL,
+    "root_tokens_burned" BIGINT NOT NULL,
+    "secondary_tokens_burned" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ecosystem_contributions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ecosystem_tokens_mint_key" ON "ecosystem_tokens"("mint");
+
+-- CreateIndex
+CREATE INDEX "ecosystem_tokens_token_type_root_contribution_idx" ON "ecosystem_tokens"("token_type", "root_contribution" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ecosystem_contributions_signature_key" ON "ecosystem_contributions"("signature");
+
+-- CreateIndex
+CREATE INDEX "ecosystem_contributions_token_mint_block_time_idx" ON "ecosystem_contributions"("token_mint", "block_time" DESC);
+
+-- AddForeignKey
+ALTER TABLE "ecosystem_contributions" ADD CONSTRAINT "ecosystem_contributions_token_mint_fkey" FOREIGN KEY ("token_mint") REFERENCES "ecosystem_tokens"("mint") ON DELETE CASCADE ON UPDATE CASCADE;
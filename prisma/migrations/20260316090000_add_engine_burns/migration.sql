@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "engine_burns" (
+    "id" SERIAL NOT NULL,
+    "signature" VARCHAR(88) NOT NULL,
+    "slot" BIGINT NOT NULL,
+    "block_time" TIMESTAMP(3) NOT NULL,
+    "token_mint" VARCHAR(44) NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "lamports" BIGINT NOT NULL,
+    "instruction_type" VARCHAR(32) NOT NULL,
+    "source" VARCHAR(10) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "engine_burns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "engine_burns_signature_token_mint_key" ON "engine_burns"("signature", "token_mint");
+
+-- CreateIndex
+CREATE INDEX "engine_burns_block_time_idx" ON "engine_burns"("block_time" DESC);
+
+-- CreateIndex
+CREATE INDEX "engine_burns_token_mint_block_time_idx" ON "engine_burns"("token_mint", "block_time" DESC);
+
+-- CreateIndex
+CREATE INDEX "engine_burns_slot_idx" ON "engine_burns"("slot");
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "token_hourly_rollups" (
+    "id" SERIAL NOT NULL,
+    "token_id" INTEGER NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "collected_lamports" BIGINT NOT NULL DEFAULT 0,
+    "burned_lamports" BIGINT NOT NULL DEFAULT 0,
+    "withdrawn_lamports" BIGINT NOT NULL DEFAULT 0,
+    "event_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "token_hourly_rollups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "token_hourly_rollups_token_id_bucket_key" ON "token_hourly_rollups"("token_id", "bucket");
+
+-- CreateIndex
+CREATE INDEX "token_hourly_rollups_bucket_idx" ON "token_hourly_rollups"("bucket");
+
+-- AddForeignKey
+ALTER TABLE "token_hourly_rollups" ADD CONSTRAINT "token_hourly_rollups_token_id_fkey" FOREIGN KEY ("token_id") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from existing fee events
+INSERT INTO "token_hourly_rollups" ("token_id", "bucket", "collected_lamports", "burned_lamports", "withdrawn_lamports", "event_count", "updated_at")
+SELECT
+    "token_id",
+    date_trunc('hour', "block_time"),
+    COALESCE(SUM("amount_lamports") FILTER (WHERE "event_type" = 'collect'), 0),
+    COALESCE(SUM("amount_lamports") FILTER (WHERE "event_type" = 'burn'), 0),
+    COALESCE(SUM("amount_lamports") FILTER (WHERE "event_type" = 'withdraw'), 0),
+    COUNT(*),
+    CURRENT_TIMESTAMP
+FROM "fee_events"
+GROUP BY "token_id", date_trunc('hour', "block_time");
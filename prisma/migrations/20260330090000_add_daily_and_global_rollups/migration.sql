@@ -0,0 +1,133 @@
+-- AlterTable
+ALTER TABLE "token_hourly_rollups" ADD COLUMN     "burn_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "collect_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "withdraw_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "token_daily_rollups" (
+    "id" SERIAL NOT NULL,
+    "token_id" INTEGER NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "collected_lamports" BIGINT NOT NULL DEFAULT 0,
+    "burned_lamports" BIGINT NOT NULL DEFAULT 0,
+    "withdrawn_lamports" BIGINT NOT NULL DEFAULT 0,
+    "collect_count" INTEGER NOT NULL DEFAULT 0,
+    "burn_count" INTEGER NOT NULL DEFAULT 0,
+    "withdraw_count" INTEGER NOT NULL DEFAULT 0,
+    "event_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "token_daily_rollups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "global_hourly_rollups" (
+    "id" SERIAL NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "collected_lamports" BIGINT NOT NULL DEFAULT 0,
+    "burned_lamports" BIGINT NOT NULL DEFAULT 0,
+    "withdrawn_lamports" BIGINT NOT NULL DEFAULT 0,
+    "collect_count" INTEGER NOT NULL DEFAULT 0,
+    "burn_count" INTEGER NOT NULL DEFAULT 0,
+    "withdraw_count" INTEGER NOT NULL DEFAULT 0,
+    "event_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "global_hourly_rollups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "global_daily_rollups" (
+    "id" SERIAL NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "collected_lamports" BIGINT NOT NULL DEFAULT 0,
+    "burned_lamports" BIGINT NOT NULL DEFAULT 0,
+    "withdrawn_lamports" BIGINT NOT NULL DEFAULT 0,
+    "collect_count" INTEGER NOT NULL DEFAULT 0,
+    "burn_count" INTEGER NOT NULL DEFAULT 0,
+    "withdraw_count" INTEGER NOT NULL DEFAULT 0,
+    "event_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "global_daily_rollups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "token_daily_rollups_token_id_bucket_key" ON "token_daily_rollups"("token_id", "bucket");
+
+-- CreateIndex
+CREATE INDEX "token_daily_rollups_bucket_idx" ON "token_daily_rollups"("bucket");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "global_hourly_rollups_bucket_key" ON "global_hourly_rollups"("bucket");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "global_daily_rollups_bucket_key" ON "global_daily_rollups"("bucket");
+
+-- AddForeignKey
+ALTER TABLE "token_daily_rollups" ADD CONSTRAINT "token_daily_rollups_token_id_fkey" FOREIGN KEY ("token_id") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Rebuild hourly rollups with per-type counts (event_count now excludes protocol fees)
+DELETE FROM "token_hourly_rollups";
+
+INSERT INTO "token_hourly_rollups" ("token_id", "bucket", "collected_lamports", "burned_lamports", "withdrawn_lamports", "collect_count", "burn_count", "withdraw_count", "event_count", "updated_at")
+SELECT
+    "token_id",
+    date_trunc('hour', "block_time"),
+    COALESCE(SUM("amount_lamports") FILTER (WHERE "event_type" = 'collect'), 0),
+    COALESCE(SUM("amount_lamports") FILTER (WHERE "event_type" = 'burn'), 0),
+    COALESCE(SUM("amount_lamports") FILTER (WHERE "event_type" = 'withdraw'), 0),
+    COUNT(*) FILTER (WHERE "event_type" = 'collect'),
+    COUNT(*) FILTER (WHERE "event_type" = 'burn'),
+    COUNT(*) FILTER (WHERE "event_type" = 'withdraw'),
+    COUNT(*),
+    CURRENT_TIMESTAMP
+FROM "fee_events"
+WHERE "event_type" IN ('collect', 'burn', 'withdraw')
+GROUP BY "token_id", date_trunc('hour', "block_time");
+
+-- Backfill daily rollups
+INSERT INTO "token_daily_rollups" ("token_id", "bucket", "collected_lamports", "burned_lamports", "withdrawn_lamports", "collect_count", "burn_count", "withdraw_count", "event_count", "updated_at")
+SELECT
+    "token_id",
+    date_trunc('day', "block_time"),
+    COALESCE(SUM("amount_lamports") FILTER (WHERE "event_type" = 'collect'), 0),
+    COALESCE(SUM("amount_lamports") FILTER (WHERE "event_type" = 'burn'), 0),
+    COALESCE(SUM("amount_lamports") FILTER (WHERE "event_type" = 'withdraw'), 0),
+    COUNT(*) FILTER (WHERE "event_type" = 'collect'),
+    COUNT(*) FILTER (WHERE "event_type" = 'burn'),
+    COUNT(*) FILTER (WHERE "event_type" = 'withdraw'),
+    COUNT(*),
+    CURRENT_TIMESTAMP
+FROM "fee_events"
+WHERE "event_type" IN ('collect', 'burn', 'withdraw')
+GROUP BY "token_id", date_trunc('day', "block_time");
+
+-- Backfill global rollups from the token rollups
+INSERT INTO "global_hourly_rollups" ("bucket", "collected_lamports", "burned_lamports", "withdrawn_lamports", "collect_count", "burn_count", "withdraw_count", "event_count", "updated_at")
+SELECT
+    "bucket",
+    SUM("collected_lamports"),
+    SUM("burned_lamports"),
+    SUM("withdrawn_lamports"),
+    SUM("collect_count"),
+    SUM("burn_count"),
+    SUM("withdraw_count"),
+    SUM("event_count"),
+    CURRENT_TIMESTAMP
+FROM "token_hourly_rollups"
+GROUP BY "bucket";
+
+INSERT INTO "global_daily_rollups" ("bucket", "collected_lamports", "burned_lamports", "withdrawn_lamports", "collect_count", "burn_count", "withdraw_count", "event_count", "updated_at")
+SELECT
+    "bucket",
+    SUM("collected_lamports"),
+    SUM("burned_lamports"),
+    SUM("withdrawn_lamports"),
+    SUM("collect_count"),
+    SUM("burn_count"),
+    SUM("withdraw_count"),
+    SUM("event_count"),
+    CURRENT_TIMESTAMP
+FROM "token_daily_rollups"
+GROUP BY "bucket";
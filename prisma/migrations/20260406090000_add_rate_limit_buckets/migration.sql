@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "rate_limit_buckets" (
+    "key" VARCHAR(200) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "reset_at" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "rate_limit_buckets_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_limit_buckets_reset_at_idx" ON "rate_limit_buckets"("reset_at");
+
+-- Count one request against a fixed window, starting a new window once the old one expired.
+-- A single upsert, so concurrent requests for the same key never lose increments.
+-- Called directly by Prisma and through PostgREST (/rest/v1/rpc/rate_limit_hit) from the Edge middleware.
+CREATE FUNCTION "rate_limit_hit"("p_key" VARCHAR(200), "p_window_ms" INTEGER)
+RETURNS TABLE ("count" INTEGER, "reset_at" TIMESTAMPTZ(3))
+LANGUAGE sql
+AS $$
+    INSERT INTO "rate_limit_buckets" AS b ("key", "count", "reset_at")
+    VALUES ("p_key", 1, NOW() + "p_window_ms" * INTERVAL '1 millisecond')
+    ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN b."reset_at" <= NOW() THEN 1 ELSE b."count" + 1 END,
+        "reset_at" = CASE
+            WHEN b."reset_at" <= NOW() THEN NOW() + "p_window_ms" * INTERVAL '1 millisecond'
+            ELSE b."reset_at"
+        END
+    RETURNING b."count", b."reset_at";
+$$;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "key_hash" VARCHAR(64) NOT NULL,
+    "key_prefix" VARCHAR(20) NOT NULL,
+    "tier" VARCHAR(20) NOT NULL,
+    "request_count" BIGINT NOT NULL DEFAULT 0,
+    "last_used_at" TIMESTAMPTZ(3),
+    "revoked_at" TIMESTAMPTZ(3),
+    "revoked_reason" VARCHAR(500),
+    "created_by" VARCHAR(100) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_key_hash_key" ON "api_keys"("key_hash");
+
+-- Count one request against an unrevoked key and return its id and tier; no row for unknown or revoked keys.
+-- Called directly by Prisma and through PostgREST (/rest/v1/rpc/api_key_touch) from the Edge middleware.
+CREATE FUNCTION "api_key_touch"("p_key_hash" VARCHAR(64))
+RETURNS TABLE ("id" INTEGER, "tier" VARCHAR(20))
+LANGUAGE sql
+AS $$
+    UPDATE "api_keys" AS k
+    SET "request_count" = k."request_count" + 1,
+        "last_used_at" = NOW()
+    WHERE k."key_hash" = "p_key_hash" AND k."revoked_at" IS NULL
+    RETURNING k."id", k."tier";
+$$;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "poh_chain_heads" (
+    "token_mint" VARCHAR(44) NOT NULL,
+    "last_sequence" INTEGER NOT NULL,
+    "last_hash" VARCHAR(64) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "poh_chain_heads_pkey" PRIMARY KEY ("token_mint")
+);
+
+-- CreateIndex
+CREATE INDEX "poh_records_token_mint_signature_idx" ON "poh_records"("token_mint", "signature");
+
+-- Seed heads from existing chains
+INSERT INTO "poh_chain_heads" ("token_mint", "last_sequence", "last_hash", "updated_at")
+SELECT DISTINCT ON ("token_mint") "token_mint", "sequence", "hash", NOW()
+FROM "poh_records"
+ORDER BY "token_mint", "sequence" DESC;
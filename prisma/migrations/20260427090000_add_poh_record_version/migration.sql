@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "poh_records" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "poh_checkpoints" (
+    "id" SERIAL NOT NULL,
+    "token_mint" VARCHAR(44) NOT NULL,
+    "from_sequence" INTEGER NOT NULL,
+    "to_sequence" INTEGER NOT NULL,
+    "root" VARCHAR(64) NOT NULL,
+    "last_hash" VARCHAR(64) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "poh_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "poh_checkpoints_token_mint_from_sequence_key" ON "poh_checkpoints"("token_mint", "from_sequence");
+
+-- CreateIndex
+CREATE INDEX "poh_checkpoints_token_mint_to_sequence_idx" ON "poh_checkpoints"("token_mint", "to_sequence");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "poh_signing_keys" (
+    "key_id" VARCHAR(16) NOT NULL,
+    "public_key" VARCHAR(44) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retired_at" TIMESTAMP(3),
+
+    CONSTRAINT "poh_signing_keys_pkey" PRIMARY KEY ("key_id")
+);
+
+-- CreateTable
+CREATE TABLE "poh_signed_heads" (
+    "id" SERIAL NOT NULL,
+    "token_mint" VARCHAR(44) NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "hash" VARCHAR(64) NOT NULL,
+    "key_id" VARCHAR(16) NOT NULL,
+    "signature" VARCHAR(88) NOT NULL,
+    "signed_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "poh_signed_heads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "poh_signed_heads_token_mint_sequence_key" ON "poh_signed_heads"("token_mint", "sequence");
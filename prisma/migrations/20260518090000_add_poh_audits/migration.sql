@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "poh_audits" (
+    "token_id" INTEGER NOT NULL,
+    "status" VARCHAR(10) NOT NULL,
+    "event_count" INTEGER NOT NULL,
+    "record_count" INTEGER NOT NULL,
+    "missing_count" INTEGER NOT NULL,
+    "extra_count" INTEGER NOT NULL,
+    "mismatch_count" INTEGER NOT NULL,
+    "appended_count" INTEGER NOT NULL DEFAULT 0,
+    "details" JSONB NOT NULL,
+    "checked_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "poh_audits_pkey" PRIMARY KEY ("token_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "poh_audits" ADD CONSTRAINT "poh_audits_token_id_fkey" FOREIGN KEY ("token_id") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
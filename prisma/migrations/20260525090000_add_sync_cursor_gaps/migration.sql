@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "sync_cursors" ADD COLUMN     "gap_before_signature" VARCHAR(88),
+ADD COLUMN     "gap_until_signature" VARCHAR(88);
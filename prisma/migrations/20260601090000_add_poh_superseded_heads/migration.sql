@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "poh_superseded_heads" (
+    "id" SERIAL NOT NULL,
+    "token_mint" VARCHAR(44) NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "hash" VARCHAR(64) NOT NULL,
+    "key_id" VARCHAR(16) NOT NULL,
+    "signature" VARCHAR(88) NOT NULL,
+    "signed_at" TIMESTAMP(3) NOT NULL,
+    "superseded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "poh_superseded_heads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "poh_superseded_heads_token_mint_sequence_idx" ON "poh_superseded_heads"("token_mint", "sequence");
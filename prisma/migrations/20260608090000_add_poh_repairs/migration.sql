@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "poh_repairs" (
+    "id" SERIAL NOT NULL,
+    "token_mint" VARCHAR(44) NOT NULL,
+    "from_sequence" INTEGER NOT NULL,
+    "to_sequence" INTEGER NOT NULL,
+    "appended_count" INTEGER NOT NULL,
+    "repaired_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "poh_repairs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "poh_repairs_token_mint_from_sequence_idx" ON "poh_repairs"("token_mint", "from_sequence");
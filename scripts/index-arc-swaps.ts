@@ -6,19 +6,14 @@ import "dotenv/config";
 import { Connection, PublicKey } from "@solana/web3.js";
 import { prisma, upsertToken, createFeeEvent, updateTokenStats } from "../lib/db";
 import { calculateBurnPercentage, calculateBadgeTier } from "../lib/badges";
+import { isProtocolFeeRecipient, type FeeEventType } from "../lib/classifier";
 
 const HELIUS_API_BASE = "https://api.helius.xyz/v0";
 const PUMP_PROGRAM_ID = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
 const ARC_MINT = "61V8vBaqAGMpgDQi4JcAwo1dmBGHsyhzodcPqnEVpump";
 
-// Known fee recipients
-const PROTOCOL_FEE_WALLETS = [
-  "CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM", // pump.fun
-  "62qc2CNXwrYqQScmEdiZFFAnJR262PxWEuNQtxfafNgV", // pump.fun
-];
-
 interface FeeEvent {
-  type: "collect" | "burn" | "withdraw";
+  type: FeeEventType;
   amountLamports: bigint;
   signature: string;
   blockTime: Date;
@@ -126,11 +121,11 @@ async function main() {
       // Look for SOL flows (fees)
       const nativeTransfers = tx.nativeTransfers || [];
 
-      // Fees to protocol wallets = "collect" (protocol collects)
+      // Fees to protocol wallets are protocol fees, not creator collects
       for (const nt of nativeTransfers) {
-        if (PROTOCOL_FEE_WALLETS.includes(nt.toUserAccount)) {
+        if (isProtocolFeeRecipient(nt.toUserAccount)) {
           allEvents.push({
-            type: "collect",
+            type: "protocol_fee",
             amountLamports: BigInt(Math.floor(nt.amount)),
             signature: tx.signature,
             blockTime,
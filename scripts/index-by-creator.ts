@@ -6,6 +6,7 @@ import "dotenv/config";
 import { Connection, PublicKey } from "@solana/web3.js";
 import { prisma, upsertToken, createFeeEvent, updateTokenStats } from "../lib/db";
 import { calculateBurnPercentage, calculateBadgeTier } from "../lib/badges";
+import { isProtocolFeeRecipient } from "../lib/classifier";
 
 const PUMP_PROGRAM_ID = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
 const HELIUS_API_BASE = "https://api.helius.xyz/v0";
@@ -14,12 +15,6 @@ const HELIUS_API_BASE = "https://api.helius.xyz/v0";
 const ARC_MINT = "61V8vBaqAGMpgDQi4JcAwo1dmBGHsyhzodcPqnEVpump";
 const ARC_CREATOR = "TSLvdd1pWpHVjahSpsvCXUbgwsL3JAcvokwaKt1eokM";
 
-// Known pump.fun fee recipients (protocol fees, not creator fees)
-const PROTOCOL_FEE_RECIPIENTS = [
-  "CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM",
-  "62qc2CNXwrYqQScmEdiZFFAnJR262PxWEuNQtxfafNgV",
-];
-
 interface FeeEvent {
   type: "collect" | "burn" | "withdraw";
   amountLamports: bigint;
@@ -136,7 +131,7 @@ async function main() {
       const received = nativeTransfers.filter(
         (nt: { toUserAccount: string; fromUserAccount: string }) =>
           nt.toUserAccount === ARC_CREATOR &&
-          !PROTOCOL_FEE_RECIPIENTS.includes(nt.fromUserAccount)
+          !isProtocolFeeRecipient(nt.fromUserAccount)
       );
 
       // SOL sent by creator (could be burn or withdrawal)
@@ -0,0 +1,51 @@
+/**
+ * Postgres Rate Limit Store Test
+ * Exercises rate_limit_hit() against the local DATABASE_URL through the shared store
+ *
+ * Run with: npx ts-node --esm scripts/test-rate-limit.ts [requests]
+ */
+
+import { createPostgresStore } from "../lib/rate-limit";
+import { prisma, hitRateLimitBucket, pruneExpiredRateLimitBuckets } from "../lib/db";
+
+const CONFIG = { windowMs: 2_000, maxRequests: 5 };
+
+async function main() {
+  const requests = parseInt(process.argv[2] || "8", 10);
+  const store = createPostgresStore(hitRateLimitBucket);
+  const key = `test:${Date.now()}`;
+
+  try {
+    console.log(`Window: ${CONFIG.maxRequests} requests per ${CONFIG.windowMs}ms (key ${key})\n`);
+
+    // Fire concurrently: the single-statement upsert must not lose increments
+    const results = await Promise.all(
+      Array.from({ length: requests }, () => store.hit(key, CONFIG))
+    );
+    const allowed = results.filter((result) => result.success).length;
+    console.log(`Concurrent burst: ${allowed} allowed, ${requests - allowed} blocked`);
+
+    if (allowed !== Math.min(requests, CONFIG.maxRequests)) {
+      throw new Error(`Expected ${Math.min(requests, CONFIG.maxRequests)} allowed requests`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, CONFIG.windowMs + 100));
+    const afterReset = await store.hit(key, CONFIG);
+    console.log(`After window reset: ${afterReset.success ? "allowed" : "blocked"} (${afterReset.remaining} remaining)`);
+
+    if (!afterReset.success || afterReset.remaining !== CONFIG.maxRequests - 1) {
+      throw new Error("Window did not reset");
+    }
+
+    const pruned = await pruneExpiredRateLimitBuckets();
+    console.log(`Pruned ${pruned.count} expired windows\n\nPostgres rate limit store: OK`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Postgres rate limit store: FAILED -", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
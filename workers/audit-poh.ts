@@ -0,0 +1,57 @@
+/**
+ * PoH Audit Worker
+ * Cross-checks each token's fee events against its PoH chain and stores the result
+ */
+
+import { prisma } from "../lib/db";
+import { getPoHAuditStatus, runPoHAudit } from "../lib/proof-of-history";
+
+/**
+ * CLI entry point
+ * Usage: npm run audit-poh [-- <mint>] [--repair]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const repair = args.includes("--repair");
+  const mint = args.find((arg) => !arg.startsWith("--"));
+
+  try {
+    const tokens = await prisma.token.findMany({
+      where: mint ? { mint } : undefined,
+      select: { id: true, mint: true, symbol: true },
+    });
+
+    if (mint && tokens.length === 0) {
+      console.error(`Token not found: ${mint}`);
+      process.exit(1);
+    }
+
+    let drifted = 0;
+    for (const token of tokens) {
+      const { report, appended, unresolvable } = await runPoHAudit(token, { repair });
+      const status = getPoHAuditStatus(report);
+      if (status === "drifted") drifted++;
+
+      console.log(
+        `[${token.symbol || token.mint}] ${status}: ${report.eventCount} events, ` +
+          `${report.recordCount} records, ${report.missing.length} missing, ` +
+          `${report.extra.length} extra, ${report.mismatched.length} mismatched` +
+          (repair ? `, ${appended} appended` : "") +
+          (unresolvable.length > 0 ? ` (${unresolvable.length} transactions not found)` : "")
+      );
+    }
+
+    console.log(`\nDone: ${drifted} of ${tokens.length} tokens drifted`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
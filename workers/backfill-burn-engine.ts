@@ -0,0 +1,100 @@
+/**
+ * Burn Engine Backfill Worker
+ * Walks the burn engine program's signature history and logs every engine burn
+ * the live monitor did not see (anything before it started, or while it was down)
+ */
+
+import { Connection } from "@solana/web3.js";
+import { getTransactionHistory, getHeliusRpcUrl } from "../lib/helius";
+import { prisma, getOldestEngineBurn, getLoggedEngineSignatures } from "../lib/db";
+import { recordEngineActivity, BURN_ENGINE_PROGRAM_ID } from "../lib/burn-engine";
+
+const PAGE_SIZE = 100;
+
+// Set by SIGINT/SIGTERM; the current page is finished before stopping
+let stopRequested = false;
+
+/**
+ * CLI entry point
+ * Usage: npm run backfill-burn-engine [-- --max-pages N] [--from-latest]
+ *
+ * By default resumes below the oldest logged burn; --from-latest rescans from the
+ * newest signature to fill gaps left while the monitor was down
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const maxPagesIndex = args.indexOf("--max-pages");
+  const maxPages =
+    maxPagesIndex >= 0 ? Number(args[maxPagesIndex + 1]) : Infinity;
+  const fromLatest = args.includes("--from-latest");
+
+  if (maxPagesIndex >= 0 && !(Number.isInteger(maxPages) && maxPages > 0)) {
+    console.error("Usage: npm run backfill-burn-engine [-- --max-pages N] [--from-latest]");
+    process.exit(1);
+  }
+
+  const requestStop = () => {
+    console.log("\nStop requested, finishing current page...");
+    stopRequested = true;
+  };
+  process.on("SIGINT", requestStop);
+  process.on("SIGTERM", requestStop);
+
+  const connection = new Connection(getHeliusRpcUrl());
+  const totals = { scanned: 0, logged: 0, failed: 0 };
+
+  try {
+    let before = fromLatest ? undefined : (await getOldestEngineBurn())?.signature;
+    console.log(
+      before ? `Resuming below ${before.slice(0, 16)}...` : "Starting from the newest signature"
+    );
+
+    for (let page = 0; page < maxPages && !stopRequested; page++) {
+      const signatures = await getTransactionHistory(BURN_ENGINE_PROGRAM_ID, {
+        before,
+        limit: PAGE_SIZE,
+      });
+      if (signatures.length === 0) break;
+
+      const logged = await getLoggedEngineSignatures(signatures.map((s) => s.signature));
+
+      for (const sig of signatures) {
+        totals.scanned++;
+        if (sig.err || logged.has(sig.signature)) continue;
+
+        try {
+          const result = await recordEngineActivity(sig.signature, "history", connection);
+          totals.logged += result.logged;
+        } catch (error) {
+          console.error(`Failed to record ${sig.signature}:`, error);
+          totals.failed++;
+        }
+      }
+
+      before = signatures[signatures.length - 1].signature;
+      console.log(
+        `Page ${page + 1}: ${totals.scanned} scanned, ${totals.logged} burns logged, ${totals.failed} failed`
+      );
+
+      if (signatures.length < PAGE_SIZE) {
+        console.log("Reached the start of program history");
+        break;
+      }
+    }
+
+    console.log(
+      `\nDone: ${totals.scanned} signatures scanned, ${totals.logged} burns logged, ${totals.failed} failed`
+    );
+    process.exit(totals.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
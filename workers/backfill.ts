@@ -0,0 +1,298 @@
+/**
+ * Historical Backfill Worker
+ * Walks a token's fee source history back to genesis with resumable DB checkpoints
+ */
+
+import {
+  getTransactionHistory,
+  getParsedTransactions,
+} from "../lib/helius";
+import {
+  buildDualTrackConfig,
+  classifySourceTransaction,
+  FEE_SOURCE_LABELS,
+  type FeeSource,
+  type FeeSourceType,
+} from "../lib/fee-source";
+import {
+  prisma,
+  createFeeEvent,
+  getSyncCursor,
+  saveBackfillCheckpoint,
+} from "../lib/db";
+import { advanceBackfill, type BackfillProgress } from "../lib/sync-cursor";
+import { verifyStoredBurn } from "../lib/burn-engine";
+import { refreshTokenStats } from "../lib/indexing";
+import { ensureTokenExists } from "./indexer";
+
+const PAGE_SIZE = 100;
+const PARSE_BATCH_SIZE = 10;
+
+interface BackfillOptions {
+  maxPages?: number; // Stop (resumably) after this many pages
+}
+
+interface BackfillResult {
+  mint: string;
+  sources: { address: string; type: FeeSourceType; progress: BackfillProgress }[];
+  error?: string;
+}
+
+// Set by SIGINT/SIGTERM; the current page is checkpointed before stopping
+let stopRequested = false;
+
+/**
+ * Print a one-line progress report
+ */
+function reportProgress(label: string, progress: BackfillProgress) {
+  const oldest = progress.backfillOldestTime
+    ? progress.backfillOldestTime.toISOString()
+    : "n/a";
+
+  console.log(
+    `[${label}] scanned ${progress.backfillScanned} signatures, ` +
+      `${progress.backfillEvents} events, oldest ${oldest}` +
+      (progress.backfillComplete ? " (complete)" : "")
+  );
+}
+
+/**
+ * Classify and store one page of signatures
+ * Returns the number of new fee events saved
+ */
+async function processPage(
+  tokenId: number,
+  mint: string,
+  creatorWallet: string,
+  source: FeeSource,
+  signatures: string[]
+): Promise<number> {
+  // Skip signatures already indexed by the incremental sync
+  const existingEvents = await prisma.feeEvent.findMany({
+    where: { signature: { in: signatures } },
+    select: { signature: true },
+  });
+  const existingSignatures = new Set(existingEvents.map((e: { signature: string }) => e.signature));
+  const newSignatures = signatures.filter((sig) => !existingSignatures.has(sig));
+
+  let saved = 0;
+
+  for (let i = 0; i < newSignatures.length; i += PARSE_BATCH_SIZE) {
+    const batch = newSignatures.slice(i, i + PARSE_BATCH_SIZE);
+    const parsed = await getParsedTransactions(batch);
+
+    for (const tx of parsed) {
+      if (!tx) continue;
+
+      const event = classifySourceTransaction(tx, source, creatorWallet, mint);
+      if (!event) continue;
+
+      try {
+        const stored = await createFeeEvent({
+          tokenId,
+          eventType: event.type,
+          amountLamports: event.amountLamports,
+          signature: event.signature,
+          blockTime: event.blockTime,
+          source: FEE_SOURCE_LABELS[source.type],
+          confidence: event.confidence,
+          reasons: event.reasons,
+          burnedTokenMint: event.burnedTokenMint,
+          burnedTokenAmount: event.burnedTokenAmount,
+        });
+
+        // Record burn type and verified flag from the burn engine
+        if (stored.eventType === "burn") {
+          await verifyStoredBurn(stored.id, stored.signature);
+        }
+
+        saved++;
+      } catch (err) {
+        // Skip duplicates
+        if ((err as { code?: string })?.code !== "P2002") {
+          throw err;
+        }
+      }
+    }
+
+    // Rate limit
+    if (i + PARSE_BATCH_SIZE < newSignatures.length) {
+      await sleep(200);
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Backfill one fee source, resuming from its last checkpoint
+ */
+async function backfillSource(
+  tokenId: number,
+  mint: string,
+  creatorWallet: string,
+  source: FeeSource,
+  options: BackfillOptions
+): Promise<BackfillProgress> {
+  const cursor = await getSyncCursor(tokenId, source.address);
+  const label = `${mint.slice(0, 8)}... ${source.label}`;
+
+  let progress: BackfillProgress = {
+    backfillSignature: cursor?.backfillSignature ?? null,
+    backfillSlot: cursor?.backfillSlot ?? null,
+    backfillComplete: cursor?.backfillComplete ?? false,
+    backfillScanned: cursor?.backfillScanned ?? 0,
+    backfillEvents: cursor?.backfillEvents ?? 0,
+    backfillOldestTime: cursor?.backfillOldestTime ?? null,
+  };
+
+  if (progress.backfillComplete) {
+    console.log(`Backfill already complete for ${label}`);
+    reportProgress(label, progress);
+    return progress;
+  }
+
+  console.log(
+    `\nBackfilling ${label}` +
+      (progress.backfillSignature
+        ? ` from ${progress.backfillSignature.slice(0, 8)}...`
+        : " from the newest signature")
+  );
+
+  let pages = 0;
+  let hasHead = Boolean(cursor?.lastSignature);
+
+  while (!progress.backfillComplete && !stopRequested) {
+    if (options.maxPages !== undefined && pages >= options.maxPages) break;
+
+    const page = await getTransactionHistory(source.address, {
+      before: progress.backfillSignature ?? undefined,
+      limit: PAGE_SIZE,
+    });
+
+    const eventsFound = await processPage(
+      tokenId,
+      mint,
+      creatorWallet,
+      source,
+      page.map((s) => s.signature)
+    );
+
+    progress = advanceBackfill(progress, page, eventsFound, PAGE_SIZE);
+
+    // A fresh cursor also gets its head, so the incremental sync starts above this page
+    const head =
+      !hasHead && page.length > 0
+        ? { lastSignature: page[0].signature, lastSlot: BigInt(page[0].slot) }
+        : undefined;
+
+    await saveBackfillCheckpoint(tokenId, source.address, source.type, progress, head);
+    hasHead = true;
+    pages++;
+
+    reportProgress(label, progress);
+  }
+
+  return progress;
+}
+
+/**
+ * Backfill every fee source of a token
+ * Sources are chosen from the detected fee model, like the incremental indexer
+ */
+export async function backfillToken(
+  mint: string,
+  options: BackfillOptions = {}
+): Promise<BackfillResult> {
+  const tokenInfo = await ensureTokenExists(mint);
+  if (!tokenInfo) {
+    return { mint, sources: [], error: `Could not setup token ${mint}` };
+  }
+
+  const { id: tokenId, creatorWallet } = tokenInfo;
+  const sources: BackfillResult["sources"] = [];
+
+  try {
+    const trackConfig = await buildDualTrackConfig(mint, creatorWallet);
+
+    for (const source of trackConfig.sources) {
+      if (stopRequested) break;
+
+      const progress = await backfillSource(tokenId, mint, creatorWallet, source, options);
+      sources.push({ address: source.address, type: source.type, progress });
+    }
+  } catch (error) {
+    console.error(`Error backfilling ${mint}:`, error);
+    return { mint, sources, error: String(error) };
+  }
+
+  await refreshTokenStats(tokenId, mint);
+
+  return { mint, sources };
+}
+
+/**
+ * Sleep helper for rate limiting
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * CLI entry point
+ * Usage: npm run backfill -- <mint> [<mint> ...] [--max-pages N]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const maxPagesIndex = args.indexOf("--max-pages");
+  const maxPages =
+    maxPagesIndex >= 0 ? Number(args[maxPagesIndex + 1]) : undefined;
+  const mints = args.filter(
+    (arg, i) => !arg.startsWith("--") && (maxPagesIndex < 0 || i !== maxPagesIndex + 1)
+  );
+
+  // A missing or non-numeric --max-pages must not silently mean "unlimited"
+  const validMaxPages = maxPages === undefined || (Number.isInteger(maxPages) && maxPages > 0);
+  if (mints.length === 0 || !validMaxPages) {
+    console.error("Usage: npm run backfill -- <mint> [<mint> ...] [--max-pages N]");
+    process.exit(1);
+  }
+
+  const requestStop = () => {
+    console.log("\nStop requested, finishing current page...");
+    stopRequested = true;
+  };
+  process.on("SIGINT", requestStop);
+  process.on("SIGTERM", requestStop);
+
+  const errors: string[] = [];
+
+  try {
+    for (const mint of mints) {
+      if (stopRequested) break;
+
+      const result = await backfillToken(mint, { maxPages });
+      if (result.error) {
+        errors.push(result.error);
+      }
+    }
+
+    if (errors.length > 0) {
+      console.error("\nErrors encountered:");
+      errors.forEach((e) => console.error(`  - ${e}`));
+      process.exit(1);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
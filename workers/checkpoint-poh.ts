@@ -0,0 +1,42 @@
+/**
+ * PoH Checkpoint Worker
+ * Creates Merkle checkpoints for every complete range of each PoH chain that lacks one
+ */
+
+import { prisma } from "../lib/db";
+import { createPoHCheckpoints } from "../lib/proof-of-history";
+
+/**
+ * CLI entry point
+ * Usage: npm run checkpoint-poh [-- <mint>]
+ */
+async function main() {
+  const mint = process.argv[2];
+
+  try {
+    const chains = await prisma.poHChainHead.findMany({
+      where: mint ? { tokenMint: mint } : undefined,
+      select: { tokenMint: true },
+    });
+
+    let total = 0;
+    for (const { tokenMint } of chains) {
+      const created = await createPoHCheckpoints(tokenMint);
+      if (created > 0) console.log(`${tokenMint}: ${created} checkpoints created`);
+      total += created;
+    }
+
+    console.log(`\nDone: ${total} checkpoints across ${chains.length} chains`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
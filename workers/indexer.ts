@@ -3,24 +3,10 @@
  * Polls Helius for pump.fun transactions and indexes fee events
  */
 
-import {
-  getTransactionHistory,
-  getParsedTransactions,
-  getTokenMetadata,
-  PUMP_PROGRAM_ID,
-} from "../lib/helius";
-import {
-  classifyTransaction,
-  type ClassifiedEvent,
-} from "../lib/classifier";
-import {
-  prisma,
-  upsertToken,
-  createFeeEvent,
-  updateTokenStats,
-  getTokenByMint,
-} from "../lib/db";
-import { calculateBurnPercentage, calculateBadgeTier } from "../lib/badges";
+import { getTokenMetadata, PUMP_PROGRAM_ID } from "../lib/helius";
+import { buildDualTrackConfig } from "../lib/fee-source";
+import { prisma, upsertToken, getTokenByMint, updateTokenFeeModel } from "../lib/db";
+import { indexSource, refreshTokenStats } from "../lib/indexing";
 
 // Reference token for testing
 const ASDFASDFA_MINT = "61V8vBaqAGMpgDQi4JcAwo1dmBGHsyhzodcPqnEVpump";
@@ -56,7 +42,7 @@ async function deriveCreatorVault(mint: string): Promise<string | null> {
 /**
  * Get or create token in database
  */
-async function ensureTokenExists(mint: string): Promise<{
+export async function ensureTokenExists(mint: string): Promise<{
   id: number;
   creatorVault: string;
   creatorWallet: string;
@@ -120,6 +106,7 @@ async function ensureTokenExists(mint: string): Promise<{
 
 /**
  * Index transactions for a single token
+ * Fee sources are chosen from the detected fee model (vault PDA, creator wallet or both)
  */
 async function indexToken(mint: string): Promise<{
   newEvents: number;
@@ -133,149 +120,39 @@ async function indexToken(mint: string): Promise<{
     return { newEvents: 0, error: `Could not setup token ${mint}` };
   }
 
-  const { id: tokenId, creatorVault, creatorWallet } = tokenInfo;
+  const { id: tokenId, creatorWallet } = tokenInfo;
 
   try {
-    // Get transaction history for creator vault
-    console.log(`Fetching transactions for vault: ${creatorVault}`);
-    const signatures = await getTransactionHistory(creatorVault, { limit: 100 });
-
-    if (!signatures || signatures.length === 0) {
-      console.log("No transactions found");
-      return { newEvents: 0 };
-    }
-
-    console.log(`Found ${signatures.length} transactions`);
-
-    // Get existing signatures to avoid duplicates
-    const existingEvents = await prisma.feeEvent.findMany({
-      where: { tokenId },
-      select: { signature: true },
-    });
-    const existingSignatures = new Set(existingEvents.map((e: { signature: string }) => e.signature));
-
-    // Filter new signatures
-    const newSignatures = signatures
-      .map((s) => s.signature)
-      .filter((sig) => !existingSignatures.has(sig));
-
-    if (newSignatures.length === 0) {
-      console.log("No new transactions to process");
-      return { newEvents: 0 };
-    }
-
-    console.log(`Processing ${newSignatures.length} new transactions`);
-
-    // Parse transactions in batches of 10
-    const batchSize = 10;
-    const allEvents: ClassifiedEvent[] = [];
-
-    for (let i = 0; i < newSignatures.length; i += batchSize) {
-      const batch = newSignatures.slice(i, i + batchSize);
-      const parsed = await getParsedTransactions(batch);
-
-      // Classify each transaction
-      for (const tx of parsed) {
-        if (!tx) continue;
-
-        const event = classifyTransaction(tx, creatorVault, creatorWallet, mint);
-        if (event) {
-          allEvents.push(event);
-
-          // Save to database
-          try {
-            await createFeeEvent({
-              tokenId,
-              eventType: event.type,
-              amountLamports: event.amountLamports,
-              signature: event.signature,
-              blockTime: event.blockTime,
-              burnedTokenMint: event.burnedTokenMint,
-              burnedTokenAmount: event.burnedTokenAmount,
-            });
-          } catch (err) {
-            // Skip duplicates
-            if ((err as { code?: string })?.code !== "P2002") {
-              console.error(`Error saving event ${event.signature}:`, err);
-            }
-          }
-        }
-      }
-
-      // Rate limit
-      if (i + batchSize < newSignatures.length) {
-        await sleep(200);
-      }
+    const trackConfig = await buildDualTrackConfig(mint, creatorWallet);
+    await updateTokenFeeModel(tokenId, trackConfig.detectedModel ?? "unknown");
+
+    let newEvents = 0;
+    for (const source of trackConfig.sources) {
+      newEvents += await indexSource(tokenId, mint, creatorWallet, source, {
+        batchDelayMs: 200,
+        log: console.log,
+      });
     }
 
-    console.log(`Classified ${allEvents.length} events`);
-
     // Recalculate token stats
-    await recalculateTokenStats(tokenId, mint);
+    const token = await refreshTokenStats(tokenId, mint);
+    console.log(`Stats for ${mint}:`);
+    console.log(`  Collected: ${token.totalFeesCollected} lamports`);
+    console.log(`  Burned: ${token.totalFeesBurned} lamports (${token.burnPercentage}%)`);
+    console.log(`  Withdrawn: ${token.totalFeesWithdrawn} lamports`);
+    console.log(`  Held: ${token.totalFeesHeld} lamports`);
+    console.log(`  Badge: ${token.badgeTier}`);
+    console.log(
+      `  Tokens burned: ${token.totalTokensBurned} (${token.supplyBurnedPercentage}% of supply)`
+    );
 
-    return { newEvents: allEvents.length };
+    return { newEvents };
   } catch (error) {
     console.error(`Error indexing ${mint}:`, error);
     return { newEvents: 0, error: String(error) };
   }
 }
 
-/**
- * Recalculate and update token statistics
- * Uses DB aggregation for efficiency (avoids loading all events into memory)
- */
-async function recalculateTokenStats(tokenId: number, mint: string) {
-  // Use DB aggregation instead of loading all events
-  const statsAggregation = await prisma.feeEvent.groupBy({
-    by: ["eventType"],
-    where: { tokenId },
-    _sum: { amountLamports: true },
-  });
-
-  let totalCollected = BigInt(0);
-  let totalBurned = BigInt(0);
-  let totalWithdrawn = BigInt(0);
-
-  for (const stat of statsAggregation) {
-    const amount = stat._sum.amountLamports ?? BigInt(0);
-    switch (stat.eventType) {
-      case "collect":
-        totalCollected = amount;
-        break;
-      case "burn":
-        totalBurned = amount;
-        break;
-      case "withdraw":
-        totalWithdrawn = amount;
-        break;
-    }
-  }
-
-  // Calculate held = collected - burned - withdrawn
-  const totalHeld = totalCollected - totalBurned - totalWithdrawn;
-
-  // Calculate burn percentage (of collected that was burned)
-  const burnPercentage = calculateBurnPercentage(totalCollected, totalBurned);
-  const badgeTier = calculateBadgeTier(burnPercentage);
-
-  console.log(`Stats for ${mint}:`);
-  console.log(`  Collected: ${totalCollected} lamports`);
-  console.log(`  Burned: ${totalBurned} lamports (${burnPercentage}%)`);
-  console.log(`  Withdrawn: ${totalWithdrawn} lamports`);
-  console.log(`  Held: ${totalHeld} lamports`);
-  console.log(`  Badge: ${badgeTier}`);
-
-  // Update token
-  await updateTokenStats(tokenId, {
-    totalFeesCollected: totalCollected,
-    totalFeesBurned: totalBurned,
-    totalFeesWithdrawn: totalWithdrawn,
-    totalFeesHeld: totalHeld < 0 ? BigInt(0) : totalHeld,
-    burnPercentage,
-    badgeTier,
-  });
-}
-
 /**
  * Sleep helper for rate limiting
  */
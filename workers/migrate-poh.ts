@@ -0,0 +1,128 @@
+/**
+ * PoH v2 Migration Worker
+ * Re-derives each token's PoH chain in the v2 format from its stored fee events
+ *
+ * Slot and block time come from the cluster (not our stored timestamps), so the
+ * rebuilt chain can be reproduced by anyone with an RPC node.
+ *
+ * Safe to run beside the realtime daemon: a chain that gained records while it was
+ * rebuilt is rebuilt again rather than replaced. Provisional events are left out;
+ * run `npm run audit-poh -- --repair` once they finalize to append them.
+ */
+
+import { writeFileSync } from "fs";
+import { prisma } from "../lib/db";
+import { isPlaceholderSignature } from "../lib/finality";
+import {
+  PoHChainManager,
+  buildPoHChain,
+  createPoHCheckpoints,
+  exportChainToJSON,
+  replacePoHChain,
+  resolvePoHEvents,
+} from "../lib/proof-of-history";
+
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Finalized fee events of a token as v2 PoH inputs, with on-chain slot and block time
+ * Also counts the provisional events left out
+ */
+async function loadChainEvents(tokenId: number, tokenSymbol: string | null) {
+  const feeEvents = await prisma.feeEvent.findMany({
+    where: {
+      tokenId,
+      unresolved: false,
+      eventType: { in: ["collect", "burn", "withdraw"] },
+    },
+    select: { signature: true, eventType: true, amountLamports: true, source: true, provisional: true },
+  });
+
+  const resolved = await resolvePoHEvents(
+    feeEvents.filter((e) => !e.provisional && !isPlaceholderSignature(e.signature)),
+    tokenSymbol
+  );
+  return { ...resolved, provisional: feeEvents.filter((e) => e.provisional).length };
+}
+
+/**
+ * CLI entry point
+ * Usage: npm run migrate-poh [-- <mint>] [--dry-run]
+ * Follow with `npm run audit-poh -- --repair` to append events that were still provisional
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const mint = args.find((arg) => !arg.startsWith("--"));
+  let provisionalTotal = 0;
+
+  try {
+    const tokens = await prisma.token.findMany({
+      where: mint ? { mint } : undefined,
+      select: { id: true, mint: true, symbol: true },
+    });
+
+    if (mint && tokens.length === 0) {
+      console.error(`Token not found: ${mint}`);
+      process.exit(1);
+    }
+
+    for (const token of tokens) {
+      const label = token.symbol || token.mint;
+
+      for (let attempt = 1; ; attempt++) {
+        // Read the chain before the events, so a record appended in between moves its head
+        const current = await new PoHChainManager(token.mint).getFullChain();
+        const { events, missing, provisional } = await loadChainEvents(token.id, token.symbol);
+        const chain = buildPoHChain(token.mint, events);
+
+        console.log(
+          `[${label}] ${current.length} existing records -> ${chain.length} v2 records` +
+            (missing.length > 0 ? ` (${missing.length} transactions not found, skipped)` : "") +
+            (provisional > 0 ? ` (${provisional} provisional events left for audit-poh --repair)` : "")
+        );
+        if (dryRun || (chain.length === 0 && current.length === 0)) break;
+
+        // Keep the replaced chain; its hashes may have been published
+        if (current.length > 0) {
+          const backupPath = `poh-backup-${token.mint}-${Date.now()}.json`;
+          writeFileSync(backupPath, exportChainToJSON(current));
+          console.log(`[${label}] Previous chain saved to ${backupPath}`);
+        }
+
+        if (await replacePoHChain(token.mint, chain, current[current.length - 1] ?? null)) {
+          const checkpoints = await createPoHCheckpoints(token.mint);
+          console.log(`[${label}] ${checkpoints} checkpoints created`);
+          provisionalTotal += provisional;
+          break;
+        }
+
+        if (attempt >= MAX_ATTEMPTS) {
+          throw new Error(`${label}: chain kept changing during the rebuild, try again later`);
+        }
+        console.log(`[${label}] New records were appended during the rebuild, rebuilding again`);
+      }
+    }
+
+    if (dryRun) {
+      console.log("\nDry run, no chains replaced");
+    } else {
+      console.log(
+        provisionalTotal > 0
+          ? `\nDone. Run npm run audit-poh -- --repair once the ${provisionalTotal} provisional events finalize`
+          : "\nDone"
+      );
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
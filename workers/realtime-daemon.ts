@@ -5,28 +5,56 @@
  */
 
 import { PublicKey } from "@solana/web3.js";
+import type { Token } from "@prisma/client";
 import {
   WebSocketTracker,
   type FeeDetectedEvent,
   type BalanceChange,
 } from "../lib/websocket-tracker";
-import { PoHChainManager } from "../lib/proof-of-history";
+import { PoHChainManager, signPoHHeads, toPoHVault } from "../lib/proof-of-history";
 import {
   verifyBurnTransaction,
+  verifyStoredBurn,
   BurnEngineMonitor,
   type BurnVerification,
 } from "../lib/burn-engine";
-import { classifyTransaction } from "../lib/classifier";
+import {
+  classifyTransaction,
+  type ClassificationConfidence,
+  type FeeEventType,
+} from "../lib/classifier";
 import {
   prisma,
   upsertToken,
   createFeeEvent,
-  updateTokenStats,
   getTokenByMint,
+  getProvisionalFeeEvents,
+  finalizeFeeEvents,
+  deleteProvisionalFeeEvent,
+  deleteDuplicatePlaceholderEvent,
+  recordBurnVerification,
+  createPendingSignature,
+  getPendingSignatures,
+  recordPendingSignatureAttempt,
+  resolvePendingSignature,
+  expirePendingSignature,
+  recalculateTokenAggregates,
 } from "../lib/db";
-import { calculateBurnPercentage, calculateBadgeTier } from "../lib/badges";
+import {
+  decideFinality,
+  createPlaceholderSignature,
+} from "../lib/finality";
+import {
+  findResolvingTransaction,
+  findStoredDuplicate,
+  fetchAddressTransactionsNearSlot,
+  DEFAULT_RESOLUTION_DEADLINE_MS,
+} from "../lib/signature-resolver";
+import type { AddressTransaction } from "../lib/balance-attribution";
+import type { PoHEventType } from "../lib/proof-of-history";
 import {
   getParsedTransactions,
+  getSignatureStatuses,
   getTokenMetadata,
   PUMP_PROGRAM_ID,
   NETWORK_INFO,
@@ -36,6 +64,8 @@ interface DaemonConfig {
   tokenMints: string[];
   enablePoH?: boolean;
   enableBurnVerification?: boolean;
+  finalizationIntervalMs?: number; // How often provisional events are checked at finalized commitment
+  resolutionDeadlineMs?: number; // How long a placeholder signature may stay unresolved
   onFeeDetected?: (event: FeeDetectedEvent & { verified?: boolean }) => void;
   onBurnVerified?: (burn: BurnVerification) => void;
   onError?: (error: Error) => void;
@@ -57,11 +87,16 @@ export class RealtimeDaemon {
   private trackers: Map<string, TokenTracker> = new Map();
   private burnMonitor: BurnEngineMonitor | null = null;
   private isRunning: boolean = false;
+  private finalizationTimer: NodeJS.Timeout | null = null;
+  private isFinalizing: boolean = false;
+  private isResolving: boolean = false;
 
   constructor(config: DaemonConfig) {
     this.config = {
       enablePoH: true,
       enableBurnVerification: true,
+      finalizationIntervalMs: 30000,
+      resolutionDeadlineMs: DEFAULT_RESOLUTION_DEADLINE_MS,
       verbose: false,
       ...config,
     };
@@ -93,7 +128,7 @@ export class RealtimeDaemon {
     if (this.config.enableBurnVerification) {
       this.burnMonitor = new BurnEngineMonitor({
         onBurnDetected: (burn) => {
-          this.log(`Burn Engine: ${burn.burnType} burn verified`);
+          this.log(`Burn Engine: ${burn.burnType} burn verified and logged (${burn.signature.slice(0, 16)}...)`);
           this.config.onBurnVerified?.(burn);
         },
       });
@@ -106,6 +141,17 @@ export class RealtimeDaemon {
       this.log(`Started tracker for ${tokenTracker.symbol || mint}`);
     }
 
+    // Settle events left provisional by a previous run, then keep checking
+    // Placeholders are resolved first so they can be finalized in the same pass
+    await this.runResolutionPass();
+    await this.runFinalizationPass();
+    await this.runSigningPass();
+    this.finalizationTimer = setInterval(async () => {
+      await this.runResolutionPass();
+      await this.runFinalizationPass();
+      await this.runSigningPass();
+    }, this.config.finalizationIntervalMs);
+
     this.isRunning = true;
     console.log("\nDaemon running. Press Ctrl+C to stop.\n");
   }
@@ -118,6 +164,11 @@ export class RealtimeDaemon {
 
     console.log("\nStopping daemon...");
 
+    if (this.finalizationTimer) {
+      clearInterval(this.finalizationTimer);
+      this.finalizationTimer = null;
+    }
+
     // Stop all trackers
     for (const [mint, tokenTracker] of this.trackers) {
       await tokenTracker.tracker.stop();
@@ -191,7 +242,8 @@ export class RealtimeDaemon {
       tokenSymbol: symbol,
       bcVault: creatorVault,
       creatorWallet,
-      enablePoH: this.config.enablePoH,
+      // The daemon records PoH itself once events are classified
+      enablePoH: false,
       onFeeDetected: async (event) => {
         await this.handleFeeDetected(mint, event);
       },
@@ -233,67 +285,93 @@ export class RealtimeDaemon {
     if (!token) return;
 
     // If we have a signature, verify it and get full classification
-    let verifiedEventType = event.eventType;
+    let verifiedEventType: FeeEventType = event.eventType;
     let verified = false;
+    let burnVerification: BurnVerification | null = null;
+    let confidence: ClassificationConfidence = "low";
+    let reasons: string[] = [
+      event.reconciliation ? "unattributed balance change (reconciliation)" : "websocket balance change",
+    ];
 
     if (event.signature && this.config.enableBurnVerification) {
-      // For burns, verify via burn engine
-      if (event.eventType === "burn" || event.eventType === "withdraw") {
-        const verification = await verifyBurnTransaction(event.signature);
-        verified = verification.verified;
-
-        if (verification.burnType !== "unknown") {
-          verifiedEventType = "burn";
-          this.log(`  Burn verified: ${verification.burnType}`);
-        }
-      }
-
-      // Get full transaction for accurate classification
-      try {
-        const [parsedTx] = await getParsedTransactions([event.signature]);
-        if (parsedTx && token.creatorVault && token.creatorWallet) {
-          const classified = classifyTransaction(
-            parsedTx,
-            token.creatorVault,
-            token.creatorWallet,
-            mint
-          );
-          if (classified) {
-            verifiedEventType = classified.type;
-          }
-        }
-      } catch {
-        // Use WebSocket classification as fallback
-      }
+      const classified = await this.classifySignedTransaction(event.signature, token, mint, {
+        eventType: verifiedEventType,
+        confidence,
+        reasons,
+      });
+      verifiedEventType = classified.eventType;
+      verified = classified.verified;
+      burnVerification = classified.burnVerification;
+      confidence = classified.confidence;
+      reasons = classified.reasons;
     }
 
     // Save to database
+    let feeEvent: Awaited<ReturnType<typeof createFeeEvent>>;
     try {
-      await createFeeEvent({
+      feeEvent = await createFeeEvent({
         tokenId: token.id,
         eventType: verifiedEventType,
         amountLamports: event.amountLamports,
-        signature: event.signature || `ws-${Date.now()}`,
+        signature: event.signature || createPlaceholderSignature(),
         blockTime: event.timestamp,
+        source: event.vault,
+        confidence,
+        reasons,
+        provisional: true,
       });
+    } catch (error) {
+      // Only a duplicate signature means the event is already recorded
+      if ((error as { code?: string })?.code === "P2002") {
+        this.log(`  Event already recorded`);
+      } else {
+        this.config.onError?.(error instanceof Error ? error : new Error(String(error)));
+      }
+      return;
+    }
+
+    try {
+      // Record burn type and verified flag from the burn engine
+      if (feeEvent.eventType === "burn" && event.signature) {
+        if (burnVerification && !burnVerification.error) {
+          await recordBurnVerification(feeEvent.id, burnVerification);
+        } else {
+          await verifyStoredBurn(feeEvent.id, event.signature);
+        }
+      }
+
+      // Queue signature-less events so the resolver can find their transaction
+      if (!event.signature && event.address) {
+        await createPendingSignature({
+          feeEventId: feeEvent.id,
+          address: event.address,
+          deltaLamports: event.eventType === "collect" ? event.amountLamports : -event.amountLamports,
+          slot: BigInt(event.slot),
+          deadline: new Date(Date.now() + (this.config.resolutionDeadlineMs ?? DEFAULT_RESOLUTION_DEADLINE_MS)),
+        });
+      }
+
+      // Protocol fees are stored for reference only; they are not creator fee flows
+      if (verifiedEventType === "protocol_fee") {
+        this.log(`  Classified as protocol fee, skipping PoH and stats`);
+        return;
+      }
 
       // Add to PoH chain
       if (this.config.enablePoH && event.signature) {
-        // Map WALLET to UNKNOWN for PoH compatibility
-        const pohVault: "BC" | "AMM" | "UNKNOWN" = event.vault === "WALLET" ? "UNKNOWN" : event.vault;
-
         await tokenTracker.pohManager.addEvent({
           eventType: verifiedEventType,
-          vault: pohVault,
+          vault: event.vault,
           amountLamports: event.amountLamports,
           signature: event.signature,
-          tokenSymbol: tokenTracker.symbol,
+          blockTime: event.timestamp,
           slot: event.slot,
+          tokenSymbol: tokenTracker.symbol,
         });
       }
 
       // Recalculate token stats
-      await this.recalculateTokenStats(token.id);
+      await recalculateTokenAggregates(token.id);
 
       // Notify callback
       this.config.onFeeDetected?.({
@@ -302,9 +380,264 @@ export class RealtimeDaemon {
         verified,
       });
     } catch (error) {
-      // Likely duplicate, ignore
-      this.log(`  Event already recorded or error: ${error}`);
+      this.config.onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Verify a signed transaction with the burn engine and classify it from its full
+   * parsed form, keeping the given classification wherever neither applies
+   */
+  private async classifySignedTransaction(
+    signature: string,
+    token: { creatorVault: string | null; creatorWallet: string | null },
+    mint: string,
+    fallback: { eventType: FeeEventType; confidence: ClassificationConfidence; reasons: string[] }
+  ): Promise<{
+    eventType: FeeEventType;
+    verified: boolean;
+    burnVerification: BurnVerification | null;
+    confidence: ClassificationConfidence;
+    reasons: string[];
+  }> {
+    let { eventType, confidence, reasons } = fallback;
+    let verified = false;
+    let burnVerification: BurnVerification | null = null;
+
+    // For burns, verify via burn engine
+    if (eventType === "burn" || eventType === "withdraw") {
+      const verification = await verifyBurnTransaction(signature);
+      burnVerification = verification;
+      verified = verification.verified;
+
+      if (verification.burnType !== "unknown") {
+        eventType = "burn";
+        reasons = [...reasons, `burn engine ${verification.burnType} burn`];
+        if (verified) confidence = "high";
+        this.log(`  Burn verified: ${verification.burnType}`);
+      }
     }
+
+    // Get full transaction for accurate classification
+    try {
+      const [parsedTx] = await getParsedTransactions([signature]);
+      if (parsedTx && token.creatorVault && token.creatorWallet) {
+        const classified = classifyTransaction(parsedTx, token.creatorVault, token.creatorWallet, mint);
+        if (classified) {
+          eventType = classified.type;
+          confidence = verified && classified.type === "burn" ? "high" : classified.confidence;
+          reasons = [...classified.reasons, ...reasons.filter((r) => r.startsWith("burn engine"))];
+        }
+      }
+    } catch {
+      // Use WebSocket classification as fallback
+    }
+
+    return { eventType, verified, burnVerification, confidence, reasons };
+  }
+
+  /**
+   * Match placeholder-signature events to their real transactions
+   * Resolved events get their PoH record; placeholders whose transaction was already
+   * stored are deleted; those past the deadline are flagged unresolved
+   */
+  async runResolutionPass(): Promise<{ resolved: number; duplicates: number; expired: number }> {
+    const totals = { resolved: 0, duplicates: 0, expired: 0 };
+    if (this.isResolving) return totals;
+    this.isResolving = true;
+
+    try {
+      const tokens = new Map<number, { token: Token; tokenTracker: TokenTracker }>();
+      for (const [mint, tokenTracker] of this.trackers) {
+        const token = await getTokenByMint(mint);
+        if (token) tokens.set(token.id, { token, tokenTracker });
+      }
+      if (tokens.size === 0) return totals;
+
+      const pending = await getPendingSignatures(Array.from(tokens.keys()));
+      const candidatesByAddress = new Map<string, AddressTransaction[]>();
+      const taken = new Set<string>();
+
+      for (const entry of pending) {
+        const tracked = tokens.get(entry.feeEvent.tokenId);
+        if (!tracked) continue;
+        const { token, tokenTracker } = tracked;
+
+        const cacheKey = `${entry.address}:${entry.slot}`;
+        let candidates = candidatesByAddress.get(cacheKey);
+        if (!candidates) {
+          candidates = await fetchAddressTransactionsNearSlot(entry.address, Number(entry.slot));
+          candidatesByAddress.set(cacheKey, candidates);
+
+          // Transactions already stored as events cannot resolve a placeholder
+          const existing = await prisma.feeEvent.findMany({
+            where: { signature: { in: candidates.map((c) => c.signature) } },
+            select: { signature: true },
+          });
+          existing.forEach((e: { signature: string }) => taken.add(e.signature));
+        }
+
+        const match = findResolvingTransaction(entry, candidates, taken);
+        const duplicate = match ? null : findStoredDuplicate(entry, candidates, taken);
+
+        if (duplicate) {
+          // Stored by the indexer or /api/sync meanwhile; keeping both would count the fee twice
+          const removed = await deleteDuplicatePlaceholderEvent(entry.feeEventId);
+          if (removed.count > 0) {
+            await recalculateTokenAggregates(entry.feeEvent.tokenId);
+            totals.duplicates++;
+          }
+          this.log(
+            `[${tokenTracker.symbol || tokenTracker.mint}] Removed ${entry.feeEvent.signature}, ` +
+              `already stored as ${duplicate.signature.slice(0, 16)}...`
+          );
+        } else if (match) {
+          taken.add(match.signature);
+
+          // Classify the matched transaction as signed events are, instead of keeping the websocket guess
+          const heuristic = {
+            eventType: entry.feeEvent.eventType as FeeEventType,
+            confidence: (entry.feeEvent.confidence ?? "low") as ClassificationConfidence,
+            reasons: entry.feeEvent.reasons,
+          };
+          const classified = this.config.enableBurnVerification
+            ? await this.classifySignedTransaction(match.signature, token, token.mint, heuristic)
+            : { ...heuristic, burnVerification: null };
+
+          const event = await resolvePendingSignature(entry.id, entry.feeEventId, match.signature, {
+            eventType: classified.eventType,
+            confidence: classified.confidence,
+            reasons: classified.reasons,
+            blockTime: match.blockTime ? new Date(match.blockTime * 1000) : entry.feeEvent.blockTime,
+          });
+          totals.resolved++;
+
+          if (event.eventType === "burn") {
+            if (classified.burnVerification && !classified.burnVerification.error) {
+              await recordBurnVerification(event.id, classified.burnVerification);
+            } else {
+              await verifyStoredBurn(event.id, match.signature);
+            }
+          }
+          await recalculateTokenAggregates(token.id);
+
+          if (this.config.enablePoH && event.eventType !== "protocol_fee") {
+            await tokenTracker.pohManager.addEvent({
+              eventType: event.eventType as PoHEventType,
+              vault: toPoHVault(event.source),
+              amountLamports: event.amountLamports,
+              signature: match.signature,
+              blockTime: event.blockTime,
+              slot: match.slot,
+              tokenSymbol: tokenTracker.symbol,
+            });
+          }
+
+          this.log(
+            `[${tokenTracker.symbol || tokenTracker.mint}] Resolved ${entry.feeEvent.signature} ` +
+              `-> ${match.signature.slice(0, 16)}...`
+          );
+        } else if (entry.deadline.getTime() < Date.now()) {
+          await expirePendingSignature(entry.id, entry.feeEventId);
+          totals.expired++;
+          this.log(
+            `[${tokenTracker.symbol || tokenTracker.mint}] Could not resolve ${entry.feeEvent.signature} ` +
+              `after ${entry.attempts + 1} attempts, flagged unresolved`
+          );
+        } else {
+          await recordPendingSignatureAttempt(entry.id);
+        }
+      }
+    } catch (error) {
+      this.config.onError?.(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      this.isResolving = false;
+    }
+
+    return totals;
+  }
+
+  /**
+   * Sign PoH chain heads that moved since the last pass (no-op without POH_SIGNING_KEY)
+   */
+  async runSigningPass(): Promise<number> {
+    if (!this.config.enablePoH) return 0;
+
+    try {
+      const signed = await signPoHHeads();
+      if (signed > 0) this.log(`Signed ${signed} PoH chain heads`);
+      return signed;
+    } catch (error) {
+      this.config.onError?.(error instanceof Error ? error : new Error(String(error)));
+      return 0;
+    }
+  }
+
+  /**
+   * Check provisional events at finalized commitment
+   * Final events are confirmed; dropped ones are removed and compensated in the PoH chain
+   */
+  async runFinalizationPass(): Promise<{ finalized: number; dropped: number }> {
+    const totals = { finalized: 0, dropped: 0 };
+    if (this.isFinalizing) return totals;
+    this.isFinalizing = true;
+
+    try {
+      for (const [mint, tokenTracker] of this.trackers) {
+        const token = await getTokenByMint(mint);
+        if (!token) continue;
+
+        // Placeholder signatures cannot be looked up; the query leaves them out until resolved
+        const events = await getProvisionalFeeEvents(token.id);
+        if (events.length === 0) continue;
+
+        const statuses = await getSignatureStatuses(events.map((e: { signature: string }) => e.signature));
+        const now = new Date();
+        const finalIds: number[] = [];
+        let dropped = 0;
+
+        for (let i = 0; i < events.length; i++) {
+          const event = events[i];
+          const decision = decideFinality(statuses[i], event.createdAt, now);
+
+          if (decision === "finalize") {
+            finalIds.push(event.id);
+          } else if (decision === "drop") {
+            const removed = await deleteProvisionalFeeEvent(event.id);
+            if (removed.count === 0) continue;
+            dropped++;
+
+            if (this.config.enablePoH) {
+              await tokenTracker.pohManager.addRevert(event.signature);
+            }
+            this.log(
+              `[${tokenTracker.symbol || mint}] Dropped ${event.eventType} ` +
+                `${event.signature.slice(0, 16)}... (never finalized)`
+            );
+          }
+        }
+
+        if (finalIds.length > 0) {
+          await finalizeFeeEvents(finalIds);
+        }
+        if (dropped > 0) {
+          await recalculateTokenAggregates(token.id);
+        }
+
+        totals.finalized += finalIds.length;
+        totals.dropped += dropped;
+      }
+    } catch (error) {
+      this.config.onError?.(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      this.isFinalizing = false;
+    }
+
+    if (totals.finalized > 0 || totals.dropped > 0) {
+      this.log(`Finalization pass: ${totals.finalized} finalized, ${totals.dropped} dropped`);
+    }
+
+    return totals;
   }
 
   /**
@@ -323,51 +656,6 @@ export class RealtimeDaemon {
     );
   }
 
-  /**
-   * Recalculate token statistics
-   * Uses DB aggregation for efficiency (avoids loading all events into memory)
-   */
-  private async recalculateTokenStats(tokenId: number): Promise<void> {
-    // Use DB aggregation instead of loading all events
-    const statsAggregation = await prisma.feeEvent.groupBy({
-      by: ["eventType"],
-      where: { tokenId },
-      _sum: { amountLamports: true },
-    });
-
-    let totalCollected = BigInt(0);
-    let totalBurned = BigInt(0);
-    let totalWithdrawn = BigInt(0);
-
-    for (const stat of statsAggregation) {
-      const amount = stat._sum.amountLamports ?? BigInt(0);
-      switch (stat.eventType) {
-        case "collect":
-          totalCollected = amount;
-          break;
-        case "burn":
-          totalBurned = amount;
-          break;
-        case "withdraw":
-          totalWithdrawn = amount;
-          break;
-      }
-    }
-
-    const totalHeld = totalCollected - totalBurned - totalWithdrawn;
-    const burnPercentage = calculateBurnPercentage(totalCollected, totalBurned);
-    const badgeTier = calculateBadgeTier(burnPercentage);
-
-    await updateTokenStats(tokenId, {
-      totalFeesCollected: totalCollected,
-      totalFeesBurned: totalBurned,
-      totalFeesWithdrawn: totalWithdrawn,
-      totalFeesHeld: totalHeld < 0 ? BigInt(0) : totalHeld,
-      burnPercentage,
-      badgeTier,
-    });
-  }
-
   /**
    * Add a new token to track
    */
@@ -0,0 +1,42 @@
+/**
+ * Rollup Rebuild Worker
+ * Recomputes hourly and daily fee rollups from raw fee events
+ */
+
+import { prisma, getTokenByMint, rebuildRollups } from "../lib/db";
+
+/**
+ * CLI entry point
+ * Usage: npm run rebuild-rollups [-- <mint>]
+ */
+async function main() {
+  const mint = process.argv[2];
+
+  try {
+    if (mint) {
+      const token = await getTokenByMint(mint);
+      if (!token) {
+        console.error(`Token not found: ${mint}`);
+        process.exit(1);
+      }
+
+      await rebuildRollups(token.id);
+      console.log(`Rebuilt rollups for ${mint} (global rollups refreshed)`);
+    } else {
+      await rebuildRollups();
+      console.log("Rebuilt rollups for all tokens");
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,38 @@
+/**
+ * PoH Head Signing Worker
+ * Signs every PoH chain head that moved since its last signature with POH_SIGNING_KEY
+ */
+
+import { prisma } from "../lib/db";
+import { signPoHHeads } from "../lib/proof-of-history";
+import { getSigningKey } from "../lib/poh-signing";
+
+/**
+ * CLI entry point
+ * Usage: npm run sign-poh [-- <mint>]
+ */
+async function main() {
+  const mint = process.argv[2];
+
+  try {
+    const key = getSigningKey();
+    if (!key) {
+      console.error("POH_SIGNING_KEY is not set");
+      process.exit(1);
+    }
+
+    const signed = await signPoHHeads(key, mint);
+    console.log(`Signed ${signed} chain heads with key ${key.keyId} (public key ${key.publicKey})`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
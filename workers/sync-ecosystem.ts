@@ -0,0 +1,62 @@
+/**
+ * Ecosystem Registry Worker
+ * Registers engine-verified burns from indexed history in the ASDF ecosystem registry
+ */
+
+import { Connection } from "@solana/web3.js";
+import { prisma, getUnregisteredEngineBurns } from "../lib/db";
+import { recordEngineActivity } from "../lib/burn-engine";
+import { getHeliusRpcUrl } from "../lib/helius";
+
+const BATCH_SIZE = 100;
+
+/**
+ * CLI entry point
+ * Usage: npm run sync-ecosystem
+ */
+async function main() {
+  const connection = new Connection(getHeliusRpcUrl());
+  const totals = { registered: 0, skipped: 0, failed: 0 };
+  let afterId = 0;
+
+  try {
+    while (true) {
+      const { burns, lastId } = await getUnregisteredEngineBurns(afterId, BATCH_SIZE);
+      if (lastId === null) break;
+      afterId = lastId;
+
+      for (const burn of burns) {
+        try {
+          const { contribution } = await recordEngineActivity(burn.signature, "history", connection);
+          if (contribution) {
+            totals.registered++;
+          } else {
+            totals.skipped++;
+          }
+        } catch (error) {
+          console.error(`Failed to register ${burn.signature}:`, error);
+          totals.failed++;
+        }
+      }
+
+      console.log(
+        `Through event ${afterId}: ${totals.registered} registered, ${totals.skipped} skipped, ${totals.failed} failed`
+      );
+    }
+
+    console.log(
+      `\nDone: ${totals.registered} engine transactions registered, ${totals.skipped} without burns, ${totals.failed} failed`
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
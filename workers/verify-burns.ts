@@ -0,0 +1,60 @@
+/**
+ * Burn Verification Worker
+ * Checks stored burn events against the burn engine and records burn type + verified flag
+ */
+
+import { prisma } from "../lib/db";
+import { verifyUncheckedBurns } from "../lib/burn-engine";
+
+const BATCH_SIZE = 100;
+
+/**
+ * CLI entry point
+ * Usage: npm run verify-burns [-- --max-batches N]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const maxBatchesIndex = args.indexOf("--max-batches");
+  const maxBatches =
+    maxBatchesIndex >= 0 ? Number(args[maxBatchesIndex + 1]) : Infinity;
+
+  if (maxBatchesIndex >= 0 && !(Number.isInteger(maxBatches) && maxBatches > 0)) {
+    console.error("Usage: npm run verify-burns [-- --max-batches N]");
+    process.exit(1);
+  }
+
+  const totals = { checked: 0, verified: 0, failed: 0 };
+  let afterId = 0;
+
+  try {
+    for (let batch = 0; batch < maxBatches; batch++) {
+      // Page by id so failing lookups are retried next run instead of blocking later burns
+      const result = await verifyUncheckedBurns(BATCH_SIZE, undefined, afterId);
+      if (result.lastId === null) break;
+      afterId = result.lastId;
+
+      totals.checked += result.checked;
+      totals.verified += result.verified;
+      totals.failed += result.failed;
+
+      console.log(
+        `Batch ${batch + 1}: ${result.checked} checked, ${result.verified} verified, ${result.failed} failed`
+      );
+    }
+
+    console.log(
+      `\nDone: ${totals.checked} burns checked, ${totals.verified} verified, ${totals.failed} lookups failed`
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}